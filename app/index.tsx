@@ -1,25 +1,100 @@
 import { View, Text, ScrollView, Pressable, Platform } from "react-native";
-import { useState, useCallback } from "react";
-import { Link } from "expo-router";
+import { useState, useCallback, useMemo, useRef } from "react";
+import { Link, useFocusEffect } from "expo-router";
 import PromptInput from "../components/PromptInput";
 import SvgPreview from "../components/SvgPreview";
 import CastlePreview from "../components/CastlePreview";
 import PalettePanel from "../components/PalettePanel";
 import ExportPanel from "../components/ExportPanel";
 import { generateSvg } from "../lib/recraft/client";
-import { buildCastleDrawData, type BuildResult } from "../lib/converter/buildCastle";
+import { suggestHintColors } from "../lib/recraft/hints";
+import {
+  buildCastleDrawData,
+  type BuildOptions,
+  type BuildResult,
+} from "../lib/converter/buildCastle";
 import { hasApiKey } from "../lib/recraft/apiKey";
-import { AAP_64_HEX } from "../lib/castle/palettes";
+import { getActivePalette, type Palette } from "../lib/castle/paletteLibrary";
+import { darkestColor, styleDrawData } from "../lib/converter/outlineStyle";
 import type { CastleDrawData } from "../lib/castle/format";
-import type { ColorMapping } from "../lib/converter/mapColors";
+import type { ColorMapping, ColorMetric, ColorOverride } from "../lib/converter/mapColors";
+import type { FidelityReport } from "../lib/converter/fidelity";
+import type { SimplifyStats } from "../lib/converter/simplify";
+
+/** Settings applied to a finished build rather than by rebuilding */
+const RESTYLE_SETTINGS: (keyof BuildOptions)[] = ["outlineStyle", "inkColor"];
+
+/** Quiet time after a settings change before the SVG is re-converted */
+const RECONVERT_DELAY_MS = 300;
+
+/** A generated SVG with the edits made to its conversion */
+interface Generation {
+  svgContent: string;
+  /** Hand-picked palette mappings by source color */
+  colorOverrides: Record<string, ColorOverride>;
+}
+
+/** Color hints for the next generation, as palette indices */
+interface HintSettings {
+  /** Choose the hint colors from the prompt when generating */
+  auto: boolean;
+  colors: number[];
+  background: number | null;
+}
 
 export default function HomeScreen() {
   const [isLoading, setIsLoading] = useState(false);
-  const [svgContent, setSvgContent] = useState<string | null>(null);
-  const [drawData, setDrawData] = useState<CastleDrawData | null>(null);
+  const [palette, setPalette] = useState<Palette>(getActivePalette);
+  const [hints, setHints] = useState<HintSettings>({ auto: true, colors: [], background: null });
+  const [generation, setGeneration] = useState<Generation | null>(null);
+  /** The last build, with fill outlines in their own colors */
+  const [outlinedDrawData, setOutlinedDrawData] = useState<CastleDrawData | null>(null);
   const [colorMappings, setColorMappings] = useState<Map<string, ColorMapping> | null>(null);
+  const [colorMetric, setColorMetric] = useState<ColorMetric | null>(null);
+  const [paletteSubset, setPaletteSubset] = useState<number[] | null>(null);
+  const [fidelity, setFidelity] = useState<FidelityReport | null>(null);
+  const [simplification, setSimplification] = useState<SimplifyStats | null>(null);
+  const [settings, setSettings] = useState<BuildOptions>({});
   const [warnings, setWarnings] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const reconvertTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const inkColor = settings.inkColor ?? darkestColor(palette.castle);
+  const drawData = useMemo(
+    () =>
+      outlinedDrawData &&
+      styleDrawData(
+        outlinedDrawData,
+        settings.outlineStyle ?? "outlined",
+        palette.castle[inkColor] ?? palette.castle[darkestColor(palette.castle)]
+      ),
+    [outlinedDrawData, settings.outlineStyle, inkColor, palette]
+  );
+
+  /**
+   * Convert an SVG to Castle format and show the result. Outline style is
+   * left out of the build and applied to it as it's displayed.
+   */
+  const convert = useCallback(
+    async (gen: Generation, options: BuildOptions, pal: Palette) => {
+      const result: BuildResult = await buildCastleDrawData(
+        gen.svgContent,
+        pal.hex,
+        pal.castle,
+        // A target error switches to auto tolerance
+        options.targetError !== undefined ? "auto" : undefined,
+        { ...options, outlineStyle: "outlined", colorOverrides: gen.colorOverrides }
+      );
+      setOutlinedDrawData(result.drawData);
+      setColorMappings(result.colorMappings);
+      setColorMetric(result.colorMetric);
+      setPaletteSubset(result.paletteSubset);
+      setFidelity(result.fidelity);
+      setSimplification(result.simplification);
+      setWarnings(result.warnings);
+    },
+    []
+  );
 
   const handleGenerate = useCallback(async (prompt: string) => {
     if (!hasApiKey()) {
@@ -27,20 +102,24 @@ export default function HomeScreen() {
       return;
     }
 
+    if (reconvertTimer.current) clearTimeout(reconvertTimer.current);
     setIsLoading(true);
     setError(null);
     setWarnings([]);
 
     try {
       // Step 1: Generate SVG via Recraft
-      const { svgContent: svg } = await generateSvg(prompt, AAP_64_HEX.slice(0, 5));
-      setSvgContent(svg);
+      const hintColors = hints.auto ? suggestHintColors(prompt, palette.hex) : hints.colors;
+      if (hints.auto) setHints({ ...hints, colors: hintColors });
+      const { svgContent: svg } = await generateSvg(prompt, {
+        colors: hintColors.map((i) => palette.hex[i]),
+        background: hints.background !== null ? palette.hex[hints.background] : undefined,
+      });
+      const gen: Generation = { svgContent: svg, colorOverrides: {} };
+      setGeneration(gen);
 
       // Step 2: Convert to Castle format
-      const result: BuildResult = await buildCastleDrawData(svg);
-      setDrawData(result.drawData);
-      setColorMappings(result.colorMappings);
-      setWarnings(result.warnings);
+      await convert(gen, settings, palette);
     } catch (e) {
       const msg = e instanceof Error ? e.message : "Unknown error";
       setError(msg);
@@ -48,7 +127,76 @@ export default function HomeScreen() {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [convert, settings, palette, hints]);
+
+  /** Re-convert the current generation, reporting failures */
+  const reconvert = useCallback(
+    async (gen: Generation | null, options: BuildOptions, pal: Palette) => {
+      if (!gen) return;
+      try {
+        await convert(gen, options, pal);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Unknown error");
+        console.error("Conversion error:", e);
+      }
+    },
+    [convert]
+  );
+
+  // Conversion blocks the UI, so rapid changes are coalesced into one
+  const scheduleReconvert = useCallback(
+    (gen: Generation | null, options: BuildOptions, pal: Palette) => {
+      if (reconvertTimer.current) clearTimeout(reconvertTimer.current);
+      reconvertTimer.current = setTimeout(() => {
+        reconvertTimer.current = null;
+        void reconvert(gen, options, pal);
+      }, RECONVERT_DELAY_MS);
+    },
+    [reconvert]
+  );
+
+  // Re-convert the current SVG when export settings change
+  const updateSettings = useCallback(
+    (changes: Partial<BuildOptions>) => {
+      const next = { ...settings, ...changes };
+      setSettings(next);
+      const keys = Object.keys(changes) as (keyof BuildOptions)[];
+      if (keys.every((key) => RESTYLE_SETTINGS.includes(key))) return;
+      scheduleReconvert(generation, next, palette);
+    },
+    [scheduleReconvert, settings, generation, palette]
+  );
+
+  // Hand-picked mappings belong to the generation they were made on
+  const updateOverride = useCallback(
+    (color: string, override: ColorOverride | null) => {
+      if (!generation) return;
+      const colorOverrides = { ...generation.colorOverrides };
+      if (override === null) delete colorOverrides[color];
+      else colorOverrides[color] = override;
+      const next = { ...generation, colorOverrides };
+      setGeneration(next);
+      scheduleReconvert(next, settings, palette);
+    },
+    [scheduleReconvert, settings, generation, palette]
+  );
+
+  // Pick up a palette chosen in Settings. Palette indices in the ink
+  // color, hints and hand-picked mappings refer to the old palette, so
+  // they go.
+  useFocusEffect(
+    useCallback(() => {
+      const active = getActivePalette();
+      if (active.id === palette.id) return;
+      const nextSettings = { ...settings, inkColor: undefined };
+      const nextGeneration = generation && { ...generation, colorOverrides: {} };
+      setPalette(active);
+      setHints((h) => ({ ...h, colors: [], background: null }));
+      setSettings(nextSettings);
+      setGeneration(nextGeneration);
+      scheduleReconvert(nextGeneration, nextSettings, active);
+    }, [palette, settings, generation, scheduleReconvert])
+  );
 
   return (
     <View className="flex-1 bg-gray-900">
@@ -73,7 +221,7 @@ export default function HomeScreen() {
 
       {/* Preview panels side by side */}
       <View className="flex-1 flex-row min-h-0">
-        <SvgPreview svgContent={svgContent} />
+        <SvgPreview svgContent={generation?.svgContent ?? null} />
         <CastlePreview drawData={drawData} />
       </View>
 
@@ -89,10 +237,41 @@ export default function HomeScreen() {
       )}
 
       {/* Palette panel */}
-      <PalettePanel colorMappings={colorMappings} />
+      <PalettePanel
+        palette={palette}
+        colorMappings={colorMappings}
+        inkColor={settings.outlineStyle === "ink" ? inkColor : undefined}
+        onInkColorChange={(inkColor) => updateSettings({ inkColor })}
+        metric={colorMetric ?? undefined}
+        onMetricChange={(metric) => updateSettings({ colorMetric: metric })}
+        assignment={settings.colorAssignment ?? "nearest"}
+        onAssignmentChange={(colorAssignment) => updateSettings({ colorAssignment })}
+        onOverrideChange={updateOverride}
+        maxColors={settings.maxColors ?? null}
+        onMaxColorsChange={(limit) => updateSettings({ maxColors: limit ?? undefined })}
+        subset={paletteSubset}
+        hintColors={hints.colors}
+        onHintColorsChange={(colors) => setHints({ ...hints, auto: false, colors })}
+        autoHints={hints.auto}
+        onAutoHintsChange={(auto) => setHints({ ...hints, auto })}
+        background={hints.background}
+        onBackgroundChange={(background) => setHints({ ...hints, background })}
+      />
 
       {/* Export panel */}
-      <ExportPanel drawData={drawData} />
+      <ExportPanel
+        drawData={drawData}
+        fidelity={fidelity}
+        simplification={simplification}
+        maxSegments={settings.maxSegments ?? null}
+        onMaxSegmentsChange={(budget) => updateSettings({ maxSegments: budget ?? undefined })}
+        targetError={settings.targetError ?? null}
+        onTargetErrorChange={(target) => updateSettings({ targetError: target ?? undefined })}
+        layerMode={settings.layers}
+        onLayerModeChange={(layers) => updateSettings({ layers })}
+        outlineStyle={settings.outlineStyle}
+        onOutlineStyleChange={(outlineStyle) => updateSettings({ outlineStyle })}
+      />
     </View>
   );
 }
@@ -1,7 +1,8 @@
-import { View, Text, TextInput, Pressable } from "react-native";
+import { View, Text, TextInput, Pressable, ScrollView } from "react-native";
 import { useState, useEffect } from "react";
 import { router } from "expo-router";
 import { getApiKey, setApiKey, clearApiKey } from "../lib/recraft/apiKey";
+import PaletteLibrary from "../components/PaletteLibrary";
 
 export default function SettingsScreen() {
   const [key, setKey] = useState("");
@@ -32,7 +33,7 @@ export default function SettingsScreen() {
   };
 
   return (
-    <View className="flex-1 bg-gray-900 p-6">
+    <ScrollView className="flex-1 bg-gray-900" contentContainerStyle={{ padding: 24 }}>
       <Text className="text-white text-xl font-bold mb-6">Settings</Text>
 
       <Text className="text-gray-300 font-semibold mb-2">Recraft API Key</Text>
@@ -88,12 +89,18 @@ export default function SettingsScreen() {
         </>
       )}
 
+      <Text className="text-gray-300 font-semibold mb-2">Palettes</Text>
+      <Text className="text-gray-500 text-sm mb-3">
+        The active palette is used for generation hints, conversion and export
+      </Text>
+      <PaletteLibrary />
+
       <Pressable
         className="bg-gray-700 active:bg-gray-600 px-5 py-3 rounded-lg items-center"
         onPress={() => router.back()}
       >
         <Text className="text-white font-semibold">Back to Generator</Text>
       </Pressable>
-    </View>
+    </ScrollView>
   );
 }
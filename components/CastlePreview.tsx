@@ -17,7 +17,10 @@ export default function CastlePreview({ drawData }: CastlePreviewProps) {
 
     canvas.width = 512;
     canvas.height = 512;
-    renderCastleToCanvas(canvas, drawData);
+    // A newer drawing supersedes one whose fill images are still loading
+    const controller = new AbortController();
+    void renderCastleToCanvas(canvas, drawData, controller.signal);
+    return () => controller.abort();
   }, [drawData]);
 
   if (!drawData) {
@@ -1,14 +1,90 @@
-import { View, Text, Pressable } from "react-native";
+import { View, Text, Pressable, TextInput } from "react-native";
+import { useEffect, useState } from "react";
 import type { CastleDrawData } from "../lib/castle/format";
+import type { FidelityReport } from "../lib/converter/fidelity";
+import type { SimplifyStats } from "../lib/converter/simplify";
+import type { LayerMode } from "../lib/converter/layers";
+import type { OutlineStyle } from "../lib/converter/outlineStyle";
+import Segmented from "./Segmented";
+
+const LAYER_MODES: { value: LayerMode; label: string }[] = [
+  { value: "single", label: "One layer" },
+  { value: "group", label: "Per group" },
+  { value: "color", label: "Per color" },
+];
+
+const OUTLINE_STYLES: { value: OutlineStyle; label: string }[] = [
+  { value: "outlined", label: "Outlined" },
+  { value: "fill-only", label: "Fill only" },
+  { value: "ink", label: "Ink" },
+];
 
 interface ExportPanelProps {
   drawData: CastleDrawData | null;
+  fidelity?: FidelityReport | null;
+  simplification?: SimplifyStats | null;
+  /** Current segment budget, or null for no limit */
+  maxSegments?: number | null;
+  onMaxSegmentsChange?: (maxSegments: number | null) => void;
+  /**
+   * Max error "auto" tolerance aims for, in Castle units, or null to
+   * convert with the fixed default tolerance
+   */
+  targetError?: number | null;
+  onTargetErrorChange?: (targetError: number | null) => void;
+  /** How shapes are split into Castle layers */
+  layerMode?: LayerMode;
+  onLayerModeChange?: (mode: LayerMode) => void;
+  /** How fill outlines are drawn */
+  outlineStyle?: OutlineStyle;
+  onOutlineStyleChange?: (style: OutlineStyle) => void;
 }
 
-export default function ExportPanel({ drawData }: ExportPanelProps) {
+export default function ExportPanel({
+  drawData,
+  fidelity,
+  simplification,
+  maxSegments = null,
+  onMaxSegmentsChange,
+  targetError = null,
+  onTargetErrorChange,
+  layerMode = "single",
+  onLayerModeChange,
+  outlineStyle = "outlined",
+  onOutlineStyleChange,
+}: ExportPanelProps) {
+  const [budgetText, setBudgetText] = useState(maxSegments?.toString() ?? "");
+  const [targetText, setTargetText] = useState(targetError?.toString() ?? "");
+
+  useEffect(() => {
+    setBudgetText(maxSegments?.toString() ?? "");
+  }, [maxSegments]);
+
+  useEffect(() => {
+    setTargetText(targetError?.toString() ?? "");
+  }, [targetError]);
+
   if (!drawData) return null;
 
+  const applyBudget = () => {
+    const n = parseInt(budgetText, 10);
+    const budget = Number.isFinite(n) && n > 0 ? n : null;
+    if (budget !== maxSegments) onMaxSegmentsChange?.(budget);
+    else setBudgetText(budget?.toString() ?? "");
+  };
+
+  const applyTarget = () => {
+    const n = parseFloat(targetText);
+    const target = Number.isFinite(n) && n > 0 ? n : null;
+    if (target !== targetError) onTargetErrorChange?.(target);
+    else setTargetText(target?.toString() ?? "");
+  };
+
   const jsonString = JSON.stringify(drawData, null, 2);
+  const pathCount = drawData.layers.reduce(
+    (sum, layer) => sum + (layer.frames[0]?.pathDataList.length || 0),
+    0
+  );
 
   const handleDownload = () => {
     const blob = new Blob([jsonString], { type: "application/json" });
@@ -50,10 +126,46 @@ export default function ExportPanel({ drawData }: ExportPanelProps) {
       >
         <Text className="text-white font-semibold text-sm">Copy to Clipboard</Text>
       </Pressable>
-      <View className="flex-1 justify-center">
+      <View className="flex-1 flex-row items-center justify-end gap-2">
+        {onOutlineStyleChange && (
+          <Segmented options={OUTLINE_STYLES} value={outlineStyle} onChange={onOutlineStyleChange} />
+        )}
+        {onLayerModeChange && (
+          <Segmented options={LAYER_MODES} value={layerMode} onChange={onLayerModeChange} />
+        )}
         <Text className="text-gray-500 text-xs text-right">
-          {drawData.layers[0]?.frames[0]?.pathDataList.length || 0} paths
+          {drawData.layers.length > 1 && `${drawData.layers.length} layers · `}
+          {pathCount} paths
+          {simplification &&
+            simplification.segmentsBefore !== simplification.segmentsAfter &&
+            ` (from ${simplification.segmentsBefore})`}
+          {fidelity &&
+            ` · max error ${fidelity.maxError.toFixed(3)} (mean ${fidelity.meanError.toFixed(4)})`}
         </Text>
+        {onTargetErrorChange && (
+          <TextInput
+            className="w-24 bg-gray-700 text-white px-2 py-1 rounded text-xs"
+            placeholder="Auto: max error"
+            placeholderTextColor="#9ca3af"
+            keyboardType="decimal-pad"
+            value={targetText}
+            onChangeText={setTargetText}
+            onSubmitEditing={applyTarget}
+            onBlur={applyTarget}
+          />
+        )}
+        {onMaxSegmentsChange && (
+          <TextInput
+            className="w-24 bg-gray-700 text-white px-2 py-1 rounded text-xs"
+            placeholder="Max paths"
+            placeholderTextColor="#9ca3af"
+            keyboardType="number-pad"
+            value={budgetText}
+            onChangeText={setBudgetText}
+            onSubmitEditing={applyBudget}
+            onBlur={applyBudget}
+          />
+        )}
       </View>
     </View>
   );
@@ -0,0 +1,149 @@
+import { View, Text, TextInput, Pressable } from "react-native";
+import { useState } from "react";
+import {
+  addPalette,
+  canStorePalettes,
+  deletePalette,
+  getActivePalette,
+  loadPalettes,
+  setActivePalette,
+  type Palette,
+} from "../lib/castle/paletteLibrary";
+import { parseHexList, parsePaletteFile } from "../lib/castle/paletteFormats";
+
+const PALETTE_EXTENSIONS = ".gpl,.txt,.pal,.hex,.ase";
+
+/** Palettes in the library, with import from files or pasted hex */
+export default function PaletteLibrary() {
+  const [palettes, setPalettes] = useState<Palette[]>(loadPalettes);
+  const [activeId, setActiveId] = useState(() => getActivePalette().id);
+  const [pasteName, setPasteName] = useState("");
+  const [pasted, setPasted] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    setPalettes(loadPalettes());
+    setActiveId(getActivePalette().id);
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    setError(null);
+    for (const file of Array.from(files ?? [])) {
+      try {
+        const parsed = parsePaletteFile(file.name, new Uint8Array(await file.arrayBuffer()));
+        addPalette(parsed.name ?? file.name.replace(/\.[^.]*$/, ""), parsed.colors);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : `Could not read ${file.name}`);
+      }
+    }
+    refresh();
+  };
+
+  const handlePaste = () => {
+    const { colors } = parseHexList(pasted);
+    if (colors.length === 0) {
+      setError("No hex colors found in the pasted text");
+      return;
+    }
+    setError(null);
+    addPalette(pasteName.trim() || "Pasted palette", colors);
+    setPasteName("");
+    setPasted("");
+    refresh();
+  };
+
+  return (
+    <View className="mb-6">
+      {palettes.map((palette) => (
+        <View key={palette.id} className="flex-row items-center bg-gray-800 rounded-lg px-3 py-2 mb-2">
+          <View className="flex-1">
+            <Text className="text-white text-sm">
+              {palette.name}
+              <Text className="text-gray-500 text-xs"> · {palette.hex.length} colors</Text>
+            </Text>
+            <View className="flex-row flex-wrap mt-1">
+              {palette.hex.map((hex, i) => (
+                <div key={i} style={{ width: 8, height: 8, backgroundColor: hex }} />
+              ))}
+            </View>
+          </View>
+          {palette.id === activeId ? (
+            <Text className="text-green-400 text-xs font-semibold px-3">Active</Text>
+          ) : (
+            <Pressable
+              className="bg-blue-600 active:bg-blue-700 px-3 py-1 rounded ml-2"
+              onPress={() => {
+                setActivePalette(palette.id);
+                refresh();
+              }}
+            >
+              <Text className="text-white text-xs font-semibold">Use</Text>
+            </Pressable>
+          )}
+          {!palette.builtIn && (
+            <Pressable
+              className="bg-red-700 active:bg-red-800 px-3 py-1 rounded ml-2"
+              onPress={() => {
+                deletePalette(palette.id);
+                refresh();
+              }}
+            >
+              <Text className="text-white text-xs font-semibold">Delete</Text>
+            </Pressable>
+          )}
+        </View>
+      ))}
+
+      {!canStorePalettes() ? (
+        <Text className="text-gray-500 text-sm mt-2">
+          Palette import needs browser storage, which this build doesn&apos;t have.
+        </Text>
+      ) : (
+        <>
+          <Text className="text-gray-500 text-sm mt-2 mb-2">
+            Import GIMP (.gpl), Paint.NET (.txt), JASC (.pal), .hex or Adobe (.ase) palettes
+          </Text>
+          <input
+            type="file"
+            accept={PALETTE_EXTENSIONS}
+            multiple
+            onChange={(e) => {
+              void handleFiles(e.currentTarget.files);
+              e.currentTarget.value = "";
+            }}
+            style={{ color: "#d1d5db", marginBottom: 12 }}
+          />
+
+          <TextInput
+            className="bg-gray-700 text-white px-4 py-2 rounded-lg text-sm mb-2"
+            placeholder="Palette name"
+            placeholderTextColor="#6b7280"
+            value={pasteName}
+            onChangeText={setPasteName}
+          />
+          <TextInput
+            className="bg-gray-700 text-white px-4 py-2 rounded-lg text-sm mb-2"
+            placeholder="Paste hex colors, e.g. #1a1c2c #5d275d #b13e53"
+            placeholderTextColor="#6b7280"
+            value={pasted}
+            onChangeText={setPasted}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <Pressable
+            className={`self-start px-5 py-2 rounded-lg ${
+              pasted.trim() ? "bg-blue-600 active:bg-blue-700" : "bg-gray-700 opacity-50"
+            }`}
+            onPress={handlePaste}
+            disabled={!pasted.trim()}
+          >
+            <Text className="text-white font-semibold">Add Pasted Palette</Text>
+          </Pressable>
+        </>
+      )}
+
+      {error && <Text className="text-red-300 text-sm mt-2">{error}</Text>}
+    </View>
+  );
+}
@@ -1,44 +1,265 @@
-import { View, Text, ScrollView } from "react-native";
-import { AAP_64_HEX } from "../lib/castle/palettes";
-import type { ColorMapping } from "../lib/converter/mapColors";
+import { View, Text, ScrollView, Pressable, TextInput } from "react-native";
+import { useState, useEffect } from "react";
+import type { Palette } from "../lib/castle/paletteLibrary";
+import {
+  COLOR_METRIC_LABELS,
+  type ColorMapping,
+  type ColorMetric,
+  type ColorOverride,
+} from "../lib/converter/mapColors";
+import type { ColorAssignment } from "../lib/converter/contrast";
+import { MAX_HINT_COLORS } from "../lib/recraft/hints";
+import Segmented from "./Segmented";
+
+const METRICS = (Object.keys(COLOR_METRIC_LABELS) as ColorMetric[]).map((value) => ({
+  value,
+  label: COLOR_METRIC_LABELS[value],
+}));
+
+const ASSIGNMENTS: { value: ColorAssignment; label: string }[] = [
+  { value: "nearest", label: "Nearest" },
+  { value: "contrast", label: "Keep contrast" },
+];
+
+/** What tapping a palette color sets */
+type GridTarget = "ink" | "hints" | "background";
+
+const GRID_TARGET_LABELS: Record<GridTarget, string> = {
+  ink: "Ink",
+  hints: "Hints",
+  background: "Background",
+};
+
+/** Short note on why a mapping skipped its nearest palette color */
+function adjustmentNote(mapping: ColorMapping): string | null {
+  const adjustment = mapping.adjustment;
+  if (!adjustment) return null;
+  return adjustment.reason === "separation"
+    ? `kept apart from ${adjustment.against}`
+    : `kept lighter/darker than ${adjustment.against}`;
+}
 
 interface PalettePanelProps {
+  /** The active palette */
+  palette: Palette;
   colorMappings: Map<string, ColorMapping> | null;
+  /** Palette index of the ink color, when outlines are drawn in ink */
+  inkColor?: number;
+  onInkColorChange?: (index: number) => void;
+  /** Metric the mappings were made with */
+  metric?: ColorMetric;
+  onMetricChange?: (metric: ColorMetric) => void;
+  assignment?: ColorAssignment;
+  onAssignmentChange?: (assignment: ColorAssignment) => void;
+  /** Sets a hand-picked mapping for a source color, or null to go back to automatic */
+  onOverrideChange?: (color: string, override: ColorOverride | null) => void;
+  /** Current color limit, or null for the whole palette */
+  maxColors?: number | null;
+  onMaxColorsChange?: (maxColors: number | null) => void;
+  /** Palette indices the colors were limited to, highlighted in the grid */
+  subset?: number[] | null;
+  /** Palette indices sent to Recraft as color hints */
+  hintColors?: number[];
+  onHintColorsChange?: (indices: number[]) => void;
+  /** Whether hints are chosen from the prompt at generation time */
+  autoHints?: boolean;
+  onAutoHintsChange?: (auto: boolean) => void;
+  /** Palette index of the background color asked of Recraft, or null */
+  background?: number | null;
+  onBackgroundChange?: (index: number | null) => void;
 }
 
-export default function PalettePanel({ colorMappings }: PalettePanelProps) {
+export default function PalettePanel({
+  palette,
+  colorMappings,
+  inkColor,
+  onInkColorChange,
+  metric,
+  onMetricChange,
+  assignment,
+  onAssignmentChange,
+  onOverrideChange,
+  maxColors = null,
+  onMaxColorsChange,
+  subset,
+  hintColors = [],
+  onHintColorsChange,
+  autoHints = false,
+  onAutoHintsChange,
+  background = null,
+  onBackgroundChange,
+}: PalettePanelProps) {
+  const [limitText, setLimitText] = useState(maxColors?.toString() ?? "");
+
+  useEffect(() => {
+    setLimitText(maxColors?.toString() ?? "");
+  }, [maxColors]);
+
+  const applyLimit = () => {
+    const n = parseInt(limitText, 10);
+    const limit = Number.isFinite(n) && n > 0 ? n : null;
+    if (limit !== maxColors) onMaxColorsChange?.(limit);
+    else setLimitText(limit?.toString() ?? "");
+  };
+
+  // Source color whose mapping the palette grid is picking, if any
+  const [editing, setEditing] = useState<string | null>(null);
+  const editedMapping = editing ? colorMappings?.get(editing) : undefined;
+  const pickingMapping = editedMapping !== undefined && onOverrideChange !== undefined;
+
+  // Without a mapping being edited, taps set whichever target is chosen
+  const [chosenTarget, setChosenTarget] = useState<GridTarget | null>(null);
+  const targets: GridTarget[] = [];
+  if (inkColor !== undefined && onInkColorChange) targets.push("ink");
+  if (onHintColorsChange) targets.push("hints");
+  if (onBackgroundChange) targets.push("background");
+  const target =
+    chosenTarget && targets.includes(chosenTarget) ? chosenTarget : (targets[0] ?? null);
+  const targetOptions = targets.map((value) => ({ value, label: GRID_TARGET_LABELS[value] }));
+
+  const selected = pickingMapping
+    ? editedMapping.transparent
+      ? undefined
+      : editedMapping.paletteIndex
+    : target === "ink"
+      ? inkColor
+      : undefined;
+
+  const tapColor = (i: number) => {
+    if (pickingMapping) {
+      pick(i);
+    } else if (target === "ink") {
+      onInkColorChange?.(i);
+    } else if (target === "hints") {
+      if (hintColors.includes(i)) onHintColorsChange?.(hintColors.filter((h) => h !== i));
+      else if (hintColors.length < MAX_HINT_COLORS) onHintColorsChange?.([...hintColors, i]);
+    } else if (target === "background") {
+      onBackgroundChange?.(i === background ? null : i);
+    }
+  };
+
+  const swatchBorder = (i: number): string => {
+    if (i === selected) return "2px solid #ffffff";
+    if (i === background) return "2px dashed #facc15";
+    if (hintColors.includes(i)) return "2px solid #60a5fa";
+    return "1px solid rgba(255,255,255,0.1)";
+  };
+
+  const pick = (override: ColorOverride | null) => {
+    if (editing) onOverrideChange?.(editing, override);
+    setEditing(null);
+  };
+
   return (
     <View className="bg-gray-800 border-t border-gray-700 px-4 py-3">
       {/* Palette grid */}
-      <Text className="text-gray-400 text-xs font-semibold mb-2">AAP-64 Palette</Text>
+      <View className="flex-row items-center mb-2" style={{ gap: 8 }}>
+        <Text className="text-gray-400 text-xs font-semibold">
+          {palette.name} Palette
+          {subset && ` · limited to ${subset.length} colors`}
+          {pickingMapping
+            ? ` · tap a color for ${editing}`
+            : target === "ink"
+              ? " · tap a color to set the ink"
+              : target === "hints"
+                ? ` · ${hintColors.length}/${MAX_HINT_COLORS} hints`
+                : target === "background" && " · tap a color for the background"}
+        </Text>
+        {!pickingMapping && target && targets.length > 1 && (
+          <Segmented options={targetOptions} value={target} onChange={setChosenTarget} />
+        )}
+        {!pickingMapping && target === "hints" && onAutoHintsChange && (
+          <Pressable
+            className={`px-2 py-1 rounded ${autoHints ? "bg-blue-600" : "bg-gray-700"}`}
+            onPress={() => onAutoHintsChange(!autoHints)}
+          >
+            <Text className="text-white text-xs">Auto from prompt</Text>
+          </Pressable>
+        )}
+        {onMaxColorsChange && !pickingMapping && (
+          <TextInput
+            className="w-24 bg-gray-700 text-white px-2 py-1 rounded text-xs"
+            placeholder="Max colors"
+            placeholderTextColor="#9ca3af"
+            keyboardType="number-pad"
+            value={limitText}
+            onChangeText={setLimitText}
+            onSubmitEditing={applyLimit}
+            onBlur={applyLimit}
+          />
+        )}
+        {pickingMapping && (
+          <>
+            <Pressable className="px-2 py-1 rounded bg-gray-700" onPress={() => pick("transparent")}>
+              <Text className="text-white text-xs">Transparent</Text>
+            </Pressable>
+            <Pressable className="px-2 py-1 rounded bg-gray-700" onPress={() => pick(null)}>
+              <Text className="text-white text-xs">Automatic</Text>
+            </Pressable>
+            <Pressable className="px-2 py-1" onPress={() => setEditing(null)}>
+              <Text className="text-gray-400 text-xs">Cancel</Text>
+            </Pressable>
+          </>
+        )}
+      </View>
       <View className="flex-row flex-wrap mb-3">
-        {AAP_64_HEX.map((hex, i) => (
-          <div
+        {palette.hex.map((hex, i) => (
+          <Pressable
             key={i}
-            style={{
-              width: 20,
-              height: 20,
-              backgroundColor: hex,
-              margin: 1,
-              borderRadius: 2,
-              border: "1px solid rgba(255,255,255,0.1)",
-            }}
-            title={hex}
-          />
+            disabled={!pickingMapping && !target}
+            onPress={() => tapColor(i)}
+          >
+            <div
+              style={{
+                width: 20,
+                height: 20,
+                backgroundColor: hex,
+                margin: 1,
+                borderRadius: 2,
+                border: swatchBorder(i),
+                boxSizing: "border-box",
+                opacity: subset && !subset.includes(i) ? 0.25 : 1,
+              }}
+              title={hex}
+            />
+          </Pressable>
         ))}
       </View>
 
       {/* Color mappings */}
       {colorMappings && colorMappings.size > 0 && (
         <>
-          <Text className="text-gray-400 text-xs font-semibold mb-2">Color Mappings</Text>
+          <View className="flex-row items-center justify-between mb-2">
+            <Text className="text-gray-400 text-xs font-semibold">
+              Color Mappings{metric && ` · ΔE ${COLOR_METRIC_LABELS[metric]}`}
+            </Text>
+            <View className="flex-row" style={{ gap: 8 }}>
+              {assignment && onAssignmentChange && (
+                <Segmented
+                  options={ASSIGNMENTS}
+                  value={assignment}
+                  onChange={onAssignmentChange}
+                />
+              )}
+              {metric && onMetricChange && (
+                <Segmented options={METRICS} value={metric} onChange={onMetricChange} />
+              )}
+            </View>
+          </View>
           <ScrollView
             horizontal
             showsHorizontalScrollIndicator={false}
             contentContainerStyle={{ gap: 8 }}
           >
             {Array.from(colorMappings.values()).map((mapping, i) => (
-              <View key={i} className="flex-row items-center bg-gray-700 rounded px-2 py-1">
+              <Pressable
+                key={i}
+                disabled={!onOverrideChange}
+                onPress={() => setEditing(editing === mapping.original ? null : mapping.original)}
+                className={`flex-row items-center rounded px-2 py-1 ${
+                  editing === mapping.original ? "bg-blue-600" : "bg-gray-700"
+                }`}
+              >
                 <div
                   style={{
                     width: 16,
@@ -53,15 +274,24 @@ export default function PalettePanel({ colorMappings }: PalettePanelProps) {
                   style={{
                     width: 16,
                     height: 16,
-                    backgroundColor: mapping.paletteHex,
+                    backgroundColor: mapping.transparent ? "transparent" : mapping.paletteHex,
+                    border: mapping.transparent ? "1px dashed #9ca3af" : undefined,
+                    boxSizing: "border-box",
                     borderRadius: 2,
                     marginRight: 4,
                   }}
                 />
                 <Text className="text-gray-500 text-xs">
-                  ΔE {mapping.deltaE.toFixed(1)}
+                  {mapping.transparent ? "transparent" : `ΔE ${mapping.deltaE.toFixed(1)}`}
+                  {mapping.overridden && " · set by hand"}
                 </Text>
-              </View>
+                {mapping.adjustment && (
+                  <Text className="text-yellow-200 text-xs ml-1">
+                    · {adjustmentNote(mapping)} (nearest ΔE{" "}
+                    {mapping.adjustment.nearestDeltaE.toFixed(1)})
+                  </Text>
+                )}
+              </Pressable>
             ))}
           </ScrollView>
         </>
@@ -0,0 +1,24 @@
+import { View, Text, Pressable } from "react-native";
+
+interface SegmentedProps<T extends string> {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+/** A row of buttons choosing one of a few options */
+export default function Segmented<T extends string>({ options, value, onChange }: SegmentedProps<T>) {
+  return (
+    <View className="flex-row rounded overflow-hidden">
+      {options.map((option) => (
+        <Pressable
+          key={option.value}
+          className={`px-2 py-1 ${option.value === value ? "bg-blue-600" : "bg-gray-700"}`}
+          onPress={() => option.value !== value && onChange(option.value)}
+        >
+          <Text className="text-white text-xs">{option.label}</Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
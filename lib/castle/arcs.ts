@@ -0,0 +1,54 @@
+import type { CastlePathData } from "./format";
+
+/**
+ * Castle arc segments (style 2 and 3).
+ *
+ * An arc segment is a quarter circle from p1 to p2, centered on the
+ * corner of their bounding box that the arc curves around, so its
+ * endpoints are horizontally and vertically aligned with the center.
+ * Style 2 turns clockwise as seen on screen (Castle's y axis points
+ * down), style 3 counter-clockwise.
+ */
+
+/** Straight line, or quadratic curve when a bend point is present */
+export const STYLE_LINE = 1;
+export const STYLE_ARC_CW = 2;
+export const STYLE_ARC_CCW = 3;
+
+/** Circle geometry of an arc segment; angles in radians, y down */
+export interface ArcGeometry {
+  cx: number;
+  cy: number;
+  r: number;
+  startAngle: number;
+  /** +π/2 for clockwise arcs, −π/2 for counter-clockwise */
+  sweep: number;
+}
+
+export function isArcSegment(seg: CastlePathData): boolean {
+  return seg.s === STYLE_ARC_CW || seg.s === STYLE_ARC_CCW;
+}
+
+/** Center, radius and angles of an arc segment */
+export function arcGeometry(seg: CastlePathData): ArcGeometry {
+  const [x1, y1, x2, y2] = seg.p;
+  const clockwise = seg.s === STYLE_ARC_CW;
+
+  // Of the two free corners, the center is the one the arc turns around:
+  // clockwise on screen means a positive cross product in y-down space
+  let cx = x1,
+    cy = y2;
+  const cross = (x1 - cx) * (y2 - cy) - (y1 - cy) * (x2 - cx);
+  if (cross > 0 !== clockwise) {
+    cx = x2;
+    cy = y1;
+  }
+
+  return {
+    cx,
+    cy,
+    r: (Math.hypot(x1 - cx, y1 - cy) + Math.hypot(x2 - cx, y2 - cy)) / 2,
+    startAngle: Math.atan2(y1 - cy, x1 - cx),
+    sweep: clockwise ? Math.PI / 2 : -Math.PI / 2,
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Readers for palette files: GIMP .gpl, Paint.NET .txt, JASC .pal,
+ * plain .hex lists and Adobe .ase swatch exchange files. Pasted text is
+ * read as a hex list.
+ */
+
+/** Colors read from a palette file */
+export interface ParsedPalette {
+  /** Name stored in the file, if the format has one */
+  name?: string;
+  /** Colors as lowercase 6-digit hex, duplicates removed, in file order */
+  colors: string[];
+}
+
+function toHex(r: number, g: number, b: number): string {
+  const channel = (v: number) =>
+    Math.max(0, Math.min(255, Math.round(v))).toString(16).padStart(2, "0");
+  return "#" + channel(r) + channel(g) + channel(b);
+}
+
+function unique(colors: string[]): string[] {
+  return Array.from(new Set(colors));
+}
+
+function lines(text: string): string[] {
+  return text.split(/\r?\n/).map((line) => line.trim());
+}
+
+/** GIMP palette: header, optional Name/Columns, then "R G B name" rows */
+export function parseGpl(text: string): ParsedPalette {
+  const rows = lines(text);
+  if (!rows[0]?.startsWith("GIMP Palette")) throw new Error("Not a GIMP palette");
+
+  let name: string | undefined;
+  const colors: string[] = [];
+  for (const row of rows.slice(1)) {
+    if (!row || row.startsWith("#")) continue;
+    const header = row.match(/^Name:\s*(.*)$/i);
+    if (header) {
+      name = header[1].trim() || undefined;
+      continue;
+    }
+    if (/^Columns:/i.test(row)) continue;
+    const rgb = row.match(/^(\d+)\s+(\d+)\s+(\d+)/);
+    if (rgb) colors.push(toHex(+rgb[1], +rgb[2], +rgb[3]));
+  }
+  return { name, colors: unique(colors) };
+}
+
+/** JASC (Paint Shop Pro) palette: "JASC-PAL", version, count, "R G B" rows */
+export function parseJascPal(text: string): ParsedPalette {
+  const rows = lines(text);
+  if (rows[0] !== "JASC-PAL") throw new Error("Not a JASC palette");
+
+  const count = parseInt(rows[2], 10);
+  const colors: string[] = [];
+  for (const row of rows.slice(3)) {
+    const rgb = row.match(/^(\d+)\s+(\d+)\s+(\d+)/);
+    if (rgb) colors.push(toHex(+rgb[1], +rgb[2], +rgb[3]));
+    if (colors.length === count) break;
+  }
+  return { colors: unique(colors) };
+}
+
+/** Paint.NET palette: ";" comments and one AARRGGBB (or RRGGBB) per line */
+export function parsePaintNet(text: string): ParsedPalette {
+  const colors: string[] = [];
+  for (const row of lines(text)) {
+    if (!row || row.startsWith(";")) continue;
+    const hex = row.match(/^([0-9a-f]{8}|[0-9a-f]{6})$/i);
+    if (hex) colors.push("#" + hex[1].slice(-6).toLowerCase());
+  }
+  return { colors: unique(colors) };
+}
+
+/**
+ * Any text holding hex colors: .hex files (one RRGGBB per line) or a
+ * pasted list. Takes every #RGB / #RRGGBB / bare RRGGBB token.
+ */
+export function parseHexList(text: string): ParsedPalette {
+  const colors: string[] = [];
+  for (const match of text.matchAll(/#([0-9a-f]{6}|[0-9a-f]{3})\b|\b([0-9a-f]{6})\b/gi)) {
+    let h = (match[1] ?? match[2]).toLowerCase();
+    if (h.length === 3) h = h[0] + h[0] + h[1] + h[1] + h[2] + h[2];
+    colors.push("#" + h);
+  }
+  return { colors: unique(colors) };
+}
+
+/** CIE Lab (D50, as Adobe stores it) to sRGB 0-255 */
+function labToRgb(L: number, a: number, b: number): [number, number, number] {
+  const fy = (L + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const inverse = (t: number) => (t ** 3 > 0.008856 ? t ** 3 : (116 * t - 16) / 903.3);
+  const x = inverse(fx) * 0.96422;
+  const y = inverse(fy);
+  const z = inverse(fz) * 0.82521;
+
+  // XYZ (D50) to linear sRGB, Bradford-adapted
+  const rl = 3.1338561 * x - 1.6168667 * y - 0.4906146 * z;
+  const gl = -0.9787684 * x + 1.9161415 * y + 0.033454 * z;
+  const bl = 0.0719453 * x - 0.2289914 * y + 1.4052427 * z;
+  const gamma = (v: number) =>
+    255 * (v <= 0.0031308 ? 12.92 * v : 1.055 * Math.pow(Math.max(0, v), 1 / 2.4) - 0.055);
+  return [gamma(rl), gamma(gl), gamma(bl)];
+}
+
+/**
+ * Adobe Swatch Exchange: "ASEF", version, block count, then blocks of
+ * group starts/ends and color entries (UTF-16 name, color model, floats).
+ * RGB, CMYK, Lab and gray entries are read; the first group names the
+ * palette.
+ */
+export function parseAse(data: Uint8Array): ParsedPalette {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const signature = String.fromCharCode(...data.subarray(0, 4));
+  if (signature !== "ASEF") throw new Error("Not an Adobe swatch exchange file");
+
+  const blockCount = view.getUint32(8);
+  let offset = 12;
+  let name: string | undefined;
+  const colors: string[] = [];
+
+  const readName = (at: number): [string, number] => {
+    const length = view.getUint16(at);
+    let text = "";
+    for (let i = 0; i < length; i++) {
+      const code = view.getUint16(at + 2 + i * 2);
+      if (code !== 0) text += String.fromCharCode(code);
+    }
+    return [text, at + 2 + length * 2];
+  };
+
+  for (let block = 0; block < blockCount && offset + 6 <= data.length; block++) {
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    const start = offset + 6;
+    offset = start + length;
+    if (offset > data.length) throw new Error("Truncated swatch exchange file");
+
+    if (type === 0xc001) {
+      name ??= readName(start)[0] || undefined;
+      continue;
+    }
+    if (type !== 0x0001) continue;
+
+    let at = readName(start)[1];
+    const model = String.fromCharCode(...data.subarray(at, at + 4));
+    at += 4;
+    const value = (i: number) => view.getFloat32(at + i * 4);
+
+    switch (model) {
+      case "RGB ":
+        colors.push(toHex(value(0) * 255, value(1) * 255, value(2) * 255));
+        break;
+      case "CMYK": {
+        const k = 1 - value(3);
+        colors.push(toHex(255 * (1 - value(0)) * k, 255 * (1 - value(1)) * k, 255 * (1 - value(2)) * k));
+        break;
+      }
+      case "LAB ":
+        colors.push(toHex(...labToRgb(value(0) * 100, value(1), value(2))));
+        break;
+      case "Gray":
+        colors.push(toHex(value(0) * 255, value(0) * 255, value(0) * 255));
+        break;
+    }
+  }
+
+  return { name, colors: unique(colors) };
+}
+
+/**
+ * Read a palette file, choosing the format from its contents and, where
+ * those are ambiguous, its extension.
+ *
+ * @throws if the file holds no colors
+ */
+export function parsePaletteFile(fileName: string, data: Uint8Array): ParsedPalette {
+  const extension = fileName.toLowerCase().split(".").pop();
+  let palette: ParsedPalette;
+
+  if (String.fromCharCode(...data.subarray(0, 4)) === "ASEF") {
+    palette = parseAse(data);
+  } else {
+    // Strip a byte order mark (Windows editors add one) in case the
+    // decoder keeps it
+    const text = new TextDecoder().decode(data).replace(/^\uFEFF/, "");
+    if (text.startsWith("GIMP Palette")) palette = parseGpl(text);
+    else if (text.startsWith("JASC-PAL")) palette = parseJascPal(text);
+    else if (extension === "txt" || /^\s*;/.test(text)) palette = parsePaintNet(text);
+    else palette = parseHexList(text);
+  }
+
+  if (palette.colors.length === 0) throw new Error(`No colors found in ${fileName}`);
+  return palette;
+}
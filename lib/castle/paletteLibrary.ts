@@ -0,0 +1,94 @@
+import { v4 as uuidv4 } from "uuid";
+import type { CastleColor } from "./format";
+import { AAP_64_HEX, AAP_64_CASTLE, hexToCastleColor } from "./palettes";
+
+const PALETTES_KEY = "fenna_palettes";
+const ACTIVE_KEY = "fenna_active_palette";
+
+/** A named palette in the library */
+export interface Palette {
+  id: string;
+  name: string;
+  /** Colors as 6-digit hex */
+  hex: string[];
+  /** The same colors as CastleColor[] */
+  castle: CastleColor[];
+  /** Built-in palettes can't be deleted */
+  builtIn?: boolean;
+}
+
+export const AAP_64_PALETTE: Palette = {
+  id: "aap-64",
+  name: "AAP-64",
+  hex: AAP_64_HEX,
+  castle: AAP_64_CASTLE,
+  builtIn: true,
+};
+
+/** Imported palettes as stored: colors only, Castle colors are derived */
+interface StoredPalette {
+  id: string;
+  name: string;
+  hex: string[];
+}
+
+function storage(): Storage | null {
+  return typeof window !== "undefined" && typeof localStorage !== "undefined"
+    ? localStorage
+    : null;
+}
+
+/**
+ * Whether imported palettes can be saved. The library lives in
+ * localStorage, which native builds don't have: there only the built-in
+ * palette is available.
+ */
+export function canStorePalettes(): boolean {
+  return storage() !== null;
+}
+
+function loadStored(): StoredPalette[] {
+  const raw = storage()?.getItem(PALETTES_KEY);
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as StoredPalette[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveStored(palettes: StoredPalette[]): void {
+  storage()?.setItem(PALETTES_KEY, JSON.stringify(palettes));
+}
+
+/** All palettes: the built-in AAP-64 followed by imported ones */
+export function loadPalettes(): Palette[] {
+  return [
+    AAP_64_PALETTE,
+    ...loadStored().map((p) => ({ ...p, castle: p.hex.map(hexToCastleColor) })),
+  ];
+}
+
+/** Add an imported palette to the library and return it */
+export function addPalette(name: string, hex: string[]): Palette {
+  const stored: StoredPalette = { id: uuidv4(), name, hex };
+  saveStored([...loadStored(), stored]);
+  return { ...stored, castle: hex.map(hexToCastleColor) };
+}
+
+/** Remove an imported palette; the built-in one stays */
+export function deletePalette(id: string): void {
+  saveStored(loadStored().filter((p) => p.id !== id));
+  if (storage()?.getItem(ACTIVE_KEY) === id) storage()?.removeItem(ACTIVE_KEY);
+}
+
+/** The palette used for generation and conversion (default AAP-64) */
+export function getActivePalette(): Palette {
+  const id = storage()?.getItem(ACTIVE_KEY);
+  return loadPalettes().find((p) => p.id === id) ?? AAP_64_PALETTE;
+}
+
+export function setActivePalette(id: string): void {
+  storage()?.setItem(ACTIVE_KEY, id);
+}
@@ -1,16 +1,29 @@
 import type { CastleDrawData, CastlePathData, CastleBounds } from "./format";
+import { arcGeometry, isArcSegment, STYLE_ARC_CCW } from "./arcs";
 
 /**
  * Render Castle DrawData to an HTML canvas.
  * This provides the Castle-accurate preview in the app.
+ *
+ * Fill PNGs are loaded first so each layer's outlines are drawn over its
+ * fill, as in Castle; transparent outlines are left out. Nothing is drawn
+ * if `signal` is aborted while the images load.
  */
-export function renderCastleToCanvas(
+export async function renderCastleToCanvas(
   canvas: HTMLCanvasElement,
-  drawData: CastleDrawData
-): void {
+  drawData: CastleDrawData,
+  signal?: AbortSignal
+): Promise<void> {
   const ctx = canvas.getContext("2d");
   if (!ctx) return;
 
+  const fills = await Promise.all(
+    drawData.layers.map((layer) =>
+      Promise.all(layer.frames.map((frame) => (frame.fillPng ? loadImage(frame.fillPng) : null)))
+    )
+  );
+  if (signal?.aborted) return;
+
   const width = canvas.width;
   const height = canvas.height;
 
@@ -28,13 +41,14 @@ export function renderCastleToCanvas(
     return [cx * pixelScale + offsetX, cy * pixelScale + offsetY];
   }
 
-  for (const layer of drawData.layers) {
+  for (const [i, layer] of drawData.layers.entries()) {
     if (!layer.isVisible) continue;
 
-    for (const frame of layer.frames) {
+    for (const [j, frame] of layer.frames.entries()) {
       // Draw fill PNG background if available
-      if (frame.fillPng && frame.fillImageBounds) {
-        drawFillPng(ctx, frame.fillPng, frame.fillImageBounds, pixelScale, offsetX, offsetY);
+      const fill = fills[i][j];
+      if (fill && frame.fillImageBounds) {
+        drawFill(ctx, fill, frame.fillImageBounds, pixelScale, offsetX, offsetY);
       }
 
       // Draw path segments
@@ -45,25 +59,29 @@ export function renderCastleToCanvas(
   }
 }
 
-function drawFillPng(
+/** Decode a base64 fill PNG, or null if it can't be loaded */
+function loadImage(fillPng: string): Promise<HTMLImageElement | null> {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = `data:image/png;base64,${fillPng}`;
+  });
+}
+
+function drawFill(
   ctx: CanvasRenderingContext2D,
-  fillPng: string,
+  img: HTMLImageElement,
   bounds: CastleBounds,
   pixelScale: number,
   offsetX: number,
   offsetY: number
 ): void {
-  if (!fillPng) return;
-
-  const img = new Image();
-  img.onload = () => {
-    const x = bounds.minX * pixelScale + offsetX;
-    const y = bounds.minY * pixelScale + offsetY;
-    const w = (bounds.maxX - bounds.minX) * pixelScale;
-    const h = (bounds.maxY - bounds.minY) * pixelScale;
-    ctx.drawImage(img, x, y, w, h);
-  };
-  img.src = `data:image/png;base64,${fillPng}`;
+  const x = bounds.minX * pixelScale + offsetX;
+  const y = bounds.minY * pixelScale + offsetY;
+  const w = (bounds.maxX - bounds.minX) * pixelScale;
+  const h = (bounds.maxY - bounds.minY) * pixelScale;
+  ctx.drawImage(img, x, y, w, h);
 }
 
 function drawSegment(
@@ -97,7 +115,18 @@ function drawSegment(
   ctx.beginPath();
   ctx.moveTo(px1, py1);
 
-  if (seg.bp) {
+  if (isArcSegment(seg)) {
+    // Quarter circle around the corner of the endpoints' bounding box
+    const { cx, cy, r, startAngle, sweep } = arcGeometry(seg);
+    ctx.arc(
+      cx * pixelScale + offsetX,
+      cy * pixelScale + offsetY,
+      r * pixelScale,
+      startAngle,
+      startAngle + sweep,
+      seg.s === STYLE_ARC_CCW
+    );
+  } else if (seg.bp) {
     // Quadratic curve through bend point
     const bpx = seg.bp.x * pixelScale + offsetX;
     const bpy = seg.bp.y * pixelScale + offsetY;
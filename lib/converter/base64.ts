@@ -0,0 +1,43 @@
+/**
+ * Base64 encoding and decoding of byte arrays. btoa/atob work on strings
+ * and Buffer is Node-only, so the converter carries its own.
+ */
+
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/** Base64-encode bytes */
+export function toBase64(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    parts.push(
+      BASE64_ALPHABET[b0 >> 2] +
+        BASE64_ALPHABET[((b0 & 3) << 4) | (b1 >> 4)] +
+        (i + 1 < bytes.length ? BASE64_ALPHABET[((b1 & 15) << 2) | (b2 >> 6)] : "=") +
+        (i + 2 < bytes.length ? BASE64_ALPHABET[b2 & 63] : "=")
+    );
+  }
+  return parts.join("");
+}
+
+/** Decode base64 (whitespace ignored) into bytes. Throws on invalid input. */
+export function fromBase64(text: string): Uint8Array {
+  const clean = text.replace(/\s+/g, "").replace(/=+$/, "");
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0,
+    bits = 0,
+    n = 0;
+  for (const ch of clean) {
+    const value = BASE64_ALPHABET.indexOf(ch);
+    if (value < 0) throw new Error(`Invalid base64 character "${ch}"`);
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[n++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes.subarray(0, n);
+}
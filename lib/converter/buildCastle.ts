@@ -1,60 +1,314 @@
 import { v4 as uuidv4 } from "uuid";
-import type { CastleDrawData, CastleColor } from "../castle/format";
+import type { CastleDrawData, CastleColor, CastleLayer } from "../castle/format";
 import { AAP_64_HEX, AAP_64_CASTLE } from "../castle/palettes";
-import { buildColorMap, type ColorMapping } from "./mapColors";
+import {
+  applyColorOverrides,
+  buildColorMap,
+  COLOR_METRIC_LABELS,
+  DEFAULT_COLOR_METRIC,
+  type ColorMapping,
+  type ColorMetric,
+  type ColorOverride,
+} from "./mapColors";
+import { preserveContrast, type ColorAssignment } from "./contrast";
 import { parseSvg } from "./parseSvg";
-import { convertAllPaths } from "./convertPaths";
-import { renderFillPng, computeBounds } from "./renderFills";
+import {
+  convertAllPaths,
+  viewBoxToCastleTransform,
+  type ConvertedPaths,
+  type FillRegion,
+} from "./convertPaths";
+import { expandGradients } from "./gradients";
+import { compositeOpacity } from "./composite";
+import { outlineStrokes } from "./strokes";
+import { renderFillPng, computeBounds, FILL_PIXELS_PER_UNIT } from "./renderFills";
+import { simplifyPaths, type SimplifyStats } from "./simplify";
+import { dedupeSharedEdges } from "./topology";
+import { removeHiddenLines } from "./occlusion";
+import { choosePaletteSubset, colorWeights, expandSubsetIndices } from "./paletteSubset";
+import { planLayers, splitLayers, type LayerMode } from "./layers";
+import { darkestColor, styleOutlines, type OutlineStyle } from "./outlineStyle";
+import {
+  addSimplificationError,
+  autoTolerances,
+  measureFidelity,
+  DEFAULT_TARGET_ERROR,
+  type FidelityReport,
+} from "./fidelity";
 
 export interface BuildResult {
   drawData: CastleDrawData;
   colorMappings: Map<string, ColorMapping>;
+  /** Color difference metric the mappings were made with */
+  colorMetric: ColorMetric;
+  /** Palette indices colors were limited to by maxColors, if it applied */
+  paletteSubset: number[] | null;
+  /**
+   * Outer contours and holes of each fill, indexing the layers'
+   * pathDataLists concatenated in layer order
+   */
+  fillRegions: FillRegion[];
+  /** How far the emitted geometry deviates from the SVG, per element, after simplification */
+  fidelity: FidelityReport;
+  /** Segment counts before and after simplification */
+  simplification: SimplifyStats;
   warnings: string[];
 }
 
+/** Optional conversion settings */
+export interface BuildOptions {
+  /**
+   * "outline" (default) turns strokes into filled shapes that keep their
+   * width; "centerline" draws each stroke as a single Castle line.
+   */
+  strokeMode?: "outline" | "centerline";
+  /**
+   * Max error in Castle units that "auto" tolerance aims for
+   * (default 0.02). Ignored for numeric tolerances.
+   */
+  targetError?: number;
+  /**
+   * Merge collinear lines and near-identical quadratics and drop
+   * zero-length segments (default true)
+   */
+  simplify?: boolean;
+  /**
+   * Segment budget: simplification coarsens and then drops the smallest
+   * details until the output fits. Implies simplify.
+   */
+  maxSegments?: number;
+  /**
+   * Draw edges shared by abutting shapes once, in the top-most shape's
+   * color, and snap near-miss endpoints together (default true)
+   */
+  sharedEdges?: boolean;
+  /**
+   * Drop the parts of outlines covered by opaque shapes painted above
+   * them on the same layer (default true)
+   */
+  hiddenLineRemoval?: boolean;
+  /**
+   * "single" (default) puts everything on one layer, "group" makes a
+   * layer of each top-level SVG group, "color" one per palette color
+   */
+  layers?: LayerMode;
+  /**
+   * How fill outlines look: "outlined" (default) in the fill's color,
+   * "fill-only" transparent so only the fill PNG shows, "ink" in inkColor
+   */
+  outlineStyle?: OutlineStyle;
+  /** Palette index of the ink color (default: the darkest palette color) */
+  inkColor?: number;
+  /** Color difference metric for palette snapping (default "cie94") */
+  colorMetric?: ColorMetric;
+  /**
+   * "nearest" (default) snaps each color on its own; "contrast" assigns
+   * all colors together, keeping distinct colors apart and their
+   * light/dark order intact
+   */
+  colorAssignment?: ColorAssignment;
+  /**
+   * Hand-picked mappings by normalized source hex, applied on top of the
+   * automatic assignment to both the paths and the fill PNG
+   */
+  colorOverrides?: Record<string, ColorOverride>;
+  /**
+   * Map every color into the best subset of this many palette colors,
+   * chosen to minimize ΔE weighted by the area each color covers.
+   * Hand-picked overrides may still use any palette color.
+   */
+  maxColors?: number;
+}
+
+/**
+ * Let the event loop run between pipeline steps, so a long conversion
+ * doesn't keep the UI from handling input and painting the whole time
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
 /**
  * Full pipeline: SVG string → Castle DrawData JSON.
  *
  * @param svgString - Raw SVG string from Recraft
  * @param paletteHex - Palette hex colors (defaults to AAP-64)
  * @param paletteCastle - Palette as CastleColor[] (defaults to AAP-64)
- * @param tolerance - Cubic→quadratic approximation tolerance
+ * @param tolerance - Cubic→quadratic approximation tolerance, or "auto"
+ *   to pick the fewest segments per element that meet options.targetError
+ * @param options - Optional conversion settings
  */
 export async function buildCastleDrawData(
   svgString: string,
   paletteHex: string[] = AAP_64_HEX,
   paletteCastle: CastleColor[] = AAP_64_CASTLE,
-  tolerance: number = 0.05
+  tolerance: number | "auto" = 0.05,
+  options: BuildOptions = {}
 ): Promise<BuildResult> {
+  const {
+    strokeMode = "outline",
+    targetError = DEFAULT_TARGET_ERROR,
+    simplify = true,
+    maxSegments,
+    sharedEdges = true,
+    hiddenLineRemoval = true,
+    layers: layerMode = "single",
+    outlineStyle = "outlined",
+    inkColor = darkestColor(paletteCastle),
+    colorMetric = DEFAULT_COLOR_METRIC,
+    colorAssignment = "nearest",
+    colorOverrides = {},
+    maxColors,
+  } = options;
   const warnings: string[] = [];
 
   // Step 1: Parse SVG
   const parsed = parseSvg(svgString);
   warnings.push(...parsed.warnings);
 
-  // Step 2: Build color mapping
-  const colorMap = buildColorMap(parsed.colors, paletteHex, paletteCastle);
+  // Step 2: Narrow the palette to the best maxColors subset for this
+  // drawing, then split gradient fills into bands of that palette
+  const paletteSubset =
+    maxColors !== undefined && maxColors < paletteHex.length
+      ? choosePaletteSubset(
+          colorWeights(parsed.elements, parsed.viewBox),
+          paletteHex,
+          maxColors,
+          colorMetric
+        )
+      : null;
+  const usableHex = paletteSubset ? paletteSubset.map((i) => paletteHex[i]) : paletteHex;
+  const usableCastle = paletteSubset ? paletteSubset.map((i) => paletteCastle[i]) : paletteCastle;
+
+  const expanded = expandGradients(parsed.elements, usableHex, colorMetric);
+
+  // Step 3: Turn strokes into filled outlines
+  const outlined =
+    strokeMode === "outline"
+      ? outlineStrokes(expanded.elements, parsed.viewBox)
+      : expanded.elements;
+
+  // Step 4: Flatten translucent fills over what lies beneath them
+  const elements = compositeOpacity(outlined);
+
+  const colors = new Set<string>();
+  for (const el of elements) {
+    if (el.fill) colors.add(el.fill);
+    if (el.stroke) colors.add(el.stroke);
+  }
+
+  await yieldToEventLoop();
+
+  // Step 5: Build color mapping
+  const nearestMap = buildColorMap(Array.from(colors), usableHex, usableCastle, colorMetric);
+  const usableMap =
+    colorAssignment === "contrast"
+      ? preserveContrast(nearestMap, usableHex, usableCastle, colorMetric)
+      : nearestMap;
+  const assignedMap = paletteSubset
+    ? expandSubsetIndices(usableMap, paletteSubset, paletteCastle)
+    : usableMap;
+  const colorMap = applyColorOverrides(
+    assignedMap,
+    colorOverrides,
+    paletteHex,
+    paletteCastle,
+    colorMetric
+  );
 
   // Check for high-deltaE mappings
   for (const [, mapping] of colorMap) {
-    if (mapping.deltaE > 15) {
+    if (mapping.deltaE > 15 && !mapping.overridden) {
+      warnings.push(
+        `Color ${mapping.original} mapped to ${mapping.paletteHex} with high ΔE of ${mapping.deltaE.toFixed(1)} (${COLOR_METRIC_LABELS[colorMetric]})`
+      );
+    }
+  }
+
+  const layerPlan = planLayers(elements, parsed.groups, colorMap, layerMode);
+  if (layerMode === "group" && layerPlan.layers.length === 1 && elements.length > 0) {
+    warnings.push("The SVG has no top-level groups; everything is on one layer.");
+  }
+
+  await yieldToEventLoop();
+
+  // Step 6: Choose tolerances, measure fidelity and convert paths
+  const vbTransform = viewBoxToCastleTransform(parsed.viewBox);
+  let fidelity =
+    tolerance === "auto"
+      ? autoTolerances(elements, vbTransform, targetError)
+      : measureFidelity(elements, vbTransform, tolerance);
+
+  if (tolerance === "auto") {
+    const missed = fidelity.elements.filter((e) => e.maxError > targetError).length;
+    if (missed > 0) {
       warnings.push(
-        `Color ${mapping.original} mapped to ${mapping.paletteHex} with high ΔE of ${mapping.deltaE.toFixed(1)}`
+        `${missed} element(s) exceed the target error of ${targetError} even at the finest tolerance (max ${fidelity.maxError.toFixed(3)}).`
       );
     }
   }
 
-  // Step 3: Convert paths
-  const pathDataList = convertAllPaths(
-    parsed.elements,
+  let converted = convertAllPaths(
+    elements,
     parsed.viewBox,
     colorMap,
-    tolerance
+    fidelity.elements.map((e) => e.tolerance)
   );
 
-  // Check for varying stroke widths
+  // The fill PNG is painted from the closed contours, before later steps
+  // remove or merge some of their edges. Fills whose outline is later
+  // removed entirely (hidden, or dropped for the budget) are left out.
+  const fillPaths = converted;
+
+  await yieldToEventLoop();
+
+  // Step 7: Remove hidden lines, then deduplicate edges shared between elements
+  if (hiddenLineRemoval) converted = removeHiddenLines(converted, elements, layerPlan.layerOf);
+  if (sharedEdges) converted = dedupeSharedEdges(converted, layerPlan.layerOf);
+
+  await yieldToEventLoop();
+
+  // Step 8: Simplify, to a segment budget if one is set
+  let simplification: SimplifyStats = {
+    segmentsBefore: converted.pathDataList.length,
+    segmentsAfter: converted.pathDataList.length,
+    tolerance: 0,
+    droppedRuns: 0,
+    droppedSize: 0,
+  };
+  if (simplify || maxSegments !== undefined) {
+    const simplified = simplifyPaths(converted, {
+      tolerance: tolerance === "auto" ? targetError : tolerance,
+      maxSegments,
+    });
+    if (simplified.stats.segmentsAfter !== simplified.stats.segmentsBefore) {
+      fidelity = addSimplificationError(fidelity, converted, simplified);
+    }
+    converted = simplified;
+    simplification = simplified.stats;
+
+    if (maxSegments !== undefined && simplification.segmentsAfter > maxSegments) {
+      warnings.push(
+        `Could not reduce the drawing to ${maxSegments} segments without dropping large shapes (${simplification.segmentsAfter} left).`
+      );
+    }
+    if (simplification.droppedRuns > 0) {
+      warnings.push(
+        `Dropped ${simplification.droppedRuns} shape(s) or contour(s), up to ${simplification.droppedSize.toFixed(2)} units across, for the ${maxSegments}-segment budget.`
+      );
+    }
+  }
+
+  // Restyle fill outlines: own color, invisible, or ink
+  const ink = paletteCastle[inkColor] ?? paletteCastle[darkestColor(paletteCastle)];
+  converted = {
+    ...converted,
+    pathDataList: styleOutlines(converted.pathDataList, outlineStyle, ink),
+  };
+
+  // Check for varying stroke widths among strokes drawn as centerlines
   const strokeWidths = new Set(
-    parsed.elements
+    elements
       .filter((e) => e.stroke)
       .map((e) => e.strokeWidth)
   );
@@ -64,40 +318,82 @@ export async function buildCastleDrawData(
     );
   }
 
-  // Step 4: Compute bounds and render fill PNG
-  const bounds = computeBounds(pathDataList);
+  await yieldToEventLoop();
+
+  // Step 9: Split into layers; compute bounds and render a fill PNG for each
+  const { pathLists, fillRegions } = splitLayers(converted, layerPlan);
+  const layers: CastleLayer[] = [];
+  let fillFailed = false;
+
+  const regionElement = (paths: ConvertedPaths, region: FillRegion) =>
+    paths.elementIndices[region.contours[0].start];
+  // Fill regions can come without contours (e.g. a shape enclosing no area)
+  const hasContours = (region: FillRegion) => region.contours.length > 0;
+  const outlinedFills = new Set(
+    converted.fillRegions.filter(hasContours).map((r) => regionElement(converted, r))
+  );
+  const paintedRegions = fillPaths.fillRegions.filter(
+    (region) => hasContours(region) && outlinedFills.has(regionElement(fillPaths, region))
+  );
+
+  for (const [i, layer] of layerPlan.layers.entries()) {
+    const pathDataList = pathLists[i];
+    const layerRegions = paintedRegions.filter(
+      (region) => (layerPlan.layerOf[regionElement(fillPaths, region)] ?? 0) === i
+    );
+    // Bounds cover the painted contours too, so no fill is cut off
+    const bounds = computeBounds([
+      ...pathDataList,
+      ...layerRegions.flatMap((region) =>
+        region.contours.flatMap((c) => fillPaths.pathDataList.slice(c.start, c.end))
+      ),
+    ]);
+
+    await yieldToEventLoop();
+    let fillPng = "";
+    try {
+      fillPng = renderFillPng(fillPaths.pathDataList, layerRegions, paletteCastle, bounds);
+    } catch {
+      fillFailed = true;
+    }
 
-  let fillPng = "";
-  try {
-    fillPng = await renderFillPng(svgString, colorMap, bounds);
-  } catch {
+    layers.push({
+      title: layer.title,
+      id: uuidv4(),
+      isVisible: true,
+      isBitmap: false,
+      frames: [
+        {
+          isLinked: false,
+          pathDataList,
+          fillImageBounds: bounds,
+          fillPng,
+        },
+      ],
+    });
+  }
+  if (fillFailed) {
     warnings.push("Failed to render fill PNG; fill layer will be empty.");
   }
 
-  // Step 5: Assemble Castle DrawData
+  // Step 10: Assemble Castle DrawData
   const drawData: CastleDrawData = {
     version: 3,
     scale: 10,
     gridSize: 0.71428571428571,
-    fillPixelsPerUnit: 25.6,
+    fillPixelsPerUnit: FILL_PIXELS_PER_UNIT,
     colors: paletteCastle,
-    layers: [
-      {
-        title: "Imported",
-        id: uuidv4(),
-        isVisible: true,
-        isBitmap: false,
-        frames: [
-          {
-            isLinked: false,
-            pathDataList,
-            fillImageBounds: bounds,
-            fillPng,
-          },
-        ],
-      },
-    ],
+    layers,
   };
 
-  return { drawData, colorMappings: colorMap, warnings };
+  return {
+    drawData,
+    colorMappings: colorMap,
+    colorMetric,
+    paletteSubset,
+    fillRegions,
+    fidelity,
+    simplification,
+    warnings,
+  };
 }
@@ -0,0 +1,138 @@
+import { SVGPathData } from "svg-pathdata";
+import type { ParsedElement } from "./parseSvg";
+import { hexToRgb } from "./mapColors";
+import { transformPoint } from "./matrix";
+
+/**
+ * Opacity compositing.
+ *
+ * Castle colors are opaque, so translucent fills are flattened before
+ * palette mapping: wherever a translucent fill overlaps an opaque fill
+ * painted earlier, the overlap becomes a separate piece filled with the
+ * blended color. Pieces are emitted in paint order, so where several
+ * underlying shapes overlap the topmost blend wins, as it would on screen.
+ *
+ * Translucent strokes are not composited; they keep their source color.
+ */
+
+/** Effective alpha below which a paint is treated as invisible */
+export const MIN_VISIBLE_ALPHA = 0.02;
+
+/** Effective alpha at or above which a paint is treated as opaque */
+export const OPAQUE_ALPHA = 0.99;
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/** Effective alpha of an element's fill */
+export function fillAlpha(el: ParsedElement): number {
+  return el.opacity * el.fillOpacity;
+}
+
+/** Effective alpha of an element's stroke */
+export function strokeAlpha(el: ParsedElement): number {
+  return el.opacity * el.strokeOpacity;
+}
+
+/** Bounding box of an element in SVG user space, or null if unparseable */
+function elementBounds(el: ParsedElement): Bounds | null {
+  let b;
+  try {
+    b = new SVGPathData(el.d).toAbs().getBounds();
+  } catch {
+    return null;
+  }
+  let minX = Infinity,
+    minY = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity;
+  for (const [x, y] of [
+    [b.minX, b.minY],
+    [b.maxX, b.minY],
+    [b.minX, b.maxY],
+    [b.maxX, b.maxY],
+  ]) {
+    const [tx, ty] = transformPoint(el.transform, x, y);
+    minX = Math.min(minX, tx);
+    minY = Math.min(minY, ty);
+    maxX = Math.max(maxX, tx);
+    maxY = Math.max(maxY, ty);
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+function overlaps(a: Bounds, b: Bounds): boolean {
+  return a.minX < b.maxX && b.minX < a.maxX && a.minY < b.maxY && b.minY < a.maxY;
+}
+
+/** Source-over blend of two hex colors in sRGB */
+export function blendColors(top: string, bottom: string, alpha: number): string {
+  const a = hexToRgb(top);
+  const b = hexToRgb(bottom);
+  return (
+    "#" +
+    a
+      .map((c, i) =>
+        Math.round(alpha * c + (1 - alpha) * b[i])
+          .toString(16)
+          .padStart(2, "0")
+      )
+      .join("")
+  );
+}
+
+/**
+ * Flatten translucent fills into opaque pieces.
+ *
+ * Each translucent fill keeps its own shape in its source color (what
+ * shows over the empty canvas), followed by one piece per earlier fill
+ * it overlaps, clipped to the overlap and filled with the blend.
+ */
+export function compositeOpacity(elements: ParsedElement[]): ParsedElement[] {
+  const result: ParsedElement[] = [];
+  const bounds: Array<Bounds | null> = [];
+
+  function emit(el: ParsedElement) {
+    result.push(el);
+    bounds.push(elementBounds(el));
+  }
+
+  for (const el of elements) {
+    const alpha = fillAlpha(el);
+    if (!el.fill || alpha < MIN_VISIBLE_ALPHA || alpha >= OPAQUE_ALPHA) {
+      emit(el);
+      continue;
+    }
+
+    const elBounds = elementBounds(el);
+    const under = result.length;
+    emit(el);
+    if (!elBounds) continue;
+
+    for (let j = 0; j < under; j++) {
+      const below = result[j];
+      const belowBounds = bounds[j];
+      if (!below.fill || fillAlpha(below) < MIN_VISIBLE_ALPHA) continue;
+      if (!belowBounds || !overlaps(elBounds, belowBounds)) continue;
+
+      emit({
+        ...el,
+        fill: blendColors(el.fill, below.fill, alpha),
+        stroke: null,
+        opacity: 1,
+        fillOpacity: 1,
+        clipPaths: [
+          ...(el.clipPaths || []),
+          [{ d: below.d, transform: below.transform, clipRule: below.fillRule }],
+          ...(below.clipPaths || []),
+        ],
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,171 @@
+import type { CastleColor } from "../castle/format";
+import {
+  colorDistance,
+  hexToRgb,
+  rgb2lab,
+  DEFAULT_COLOR_METRIC,
+  type ColorMapping,
+  type ColorMetric,
+} from "./mapColors";
+
+/**
+ * How SVG colors are assigned palette colors: each to its own nearest
+ * ("nearest"), or all together so distinct colors stay distinct and keep
+ * their light/dark order, at some cost in per-color ΔE ("contrast").
+ */
+export type ColorAssignment = "nearest" | "contrast";
+
+/** Source colors closer than this are alike and may share a palette color */
+const DISTINCT_DELTA_E = 5;
+/** Source contrast beyond this need not be kept in full */
+const CONTRAST_CAP = 20;
+/** Cost per ΔE of contrast lost between two distinct colors */
+const SEPARATION_WEIGHT = 0.5;
+/** Lightness differences (L*) smaller than this carry no order */
+const LIGHTNESS_MARGIN = 3;
+/** Cost per L* unit a pair's light/dark order is reversed by */
+const LIGHTNESS_WEIGHT = 0.5;
+/** How much farther than the nearest a candidate color may be */
+const MAX_EXTRA_DELTA_E = 15;
+/** Palette colors tried per source color */
+const CANDIDATES = 8;
+const MAX_PASSES = 20;
+
+/**
+ * Reassign the palette colors of a nearest-color map so that the colors
+ * keep their visual separation. Minimizes the summed ΔE of all mappings
+ * plus penalties for every pair of distinct source colors that lose
+ * contrast or swap light/dark order, by repeatedly moving single colors
+ * to their cheapest candidate until nothing improves. Mappings that end
+ * up on a non-nearest color carry an adjustment saying why.
+ */
+export function preserveContrast(
+  colorMap: Map<string, ColorMapping>,
+  paletteHex: string[],
+  paletteCastle: CastleColor[],
+  metric: ColorMetric = DEFAULT_COLOR_METRIC
+): Map<string, ColorMapping> {
+  const sources = Array.from(colorMap.values());
+  const n = sources.length;
+  if (n < 2) return colorMap;
+
+  const srcRgb = sources.map((m) => hexToRgb(m.original));
+  const srcL = srcRgb.map((rgb) => rgb2lab(...rgb).L);
+  const palRgb = paletteHex.map(hexToRgb);
+  const palL = palRgb.map((rgb) => rgb2lab(...rgb).L);
+
+  const toPalette = srcRgb.map((rgb) => palRgb.map((p) => colorDistance(rgb, p, metric)));
+  const between: number[][] = srcRgb.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      between[i][j] = between[j][i] = colorDistance(srcRgb[i], srcRgb[j], metric);
+    }
+  }
+
+  const palCache = new Map<number, number>();
+  const paletteDistance = (k: number, m: number): number => {
+    if (k === m) return 0;
+    const key = Math.min(k, m) * paletteHex.length + Math.max(k, m);
+    let d = palCache.get(key);
+    if (d === undefined) {
+      d = colorDistance(palRgb[k], palRgb[m], metric);
+      palCache.set(key, d);
+    }
+    return d;
+  };
+
+  const separationCost = (i: number, k: number, j: number, m: number): number => {
+    const contrast = between[i][j];
+    if (contrast <= DISTINCT_DELTA_E) return 0;
+    return SEPARATION_WEIGHT * Math.max(0, Math.min(contrast, CONTRAST_CAP) - paletteDistance(k, m));
+  };
+
+  const lightnessCost = (i: number, k: number, j: number, m: number): number => {
+    const dL = srcL[i] - srcL[j];
+    if (Math.abs(dL) <= LIGHTNESS_MARGIN) return 0;
+    const kept = Math.sign(dL) * (palL[k] - palL[m]);
+    return kept < 0 ? -kept * LIGHTNESS_WEIGHT : 0;
+  };
+
+  const nearest = sources.map((m) => m.paletteIndex);
+  const assigned = nearest.slice();
+  const candidates = toPalette.map((dists, i) =>
+    dists
+      .map((d, k) => ({ d, k }))
+      .filter(({ d }) => d <= dists[nearest[i]] + MAX_EXTRA_DELTA_E)
+      .sort((a, b) => a.d - b.d)
+      .slice(0, CANDIDATES)
+      .map(({ k }) => k)
+  );
+
+  const localCost = (i: number, k: number): number => {
+    let cost = toPalette[i][k];
+    for (let j = 0; j < n; j++) {
+      if (j === i) continue;
+      cost += separationCost(i, k, j, assigned[j]) + lightnessCost(i, k, j, assigned[j]);
+    }
+    return cost;
+  };
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let changed = false;
+    for (let i = 0; i < n; i++) {
+      let best = assigned[i];
+      let bestCost = localCost(i, best);
+      for (const k of candidates[i]) {
+        const cost = localCost(i, k);
+        if (cost < bestCost - 1e-9) {
+          best = k;
+          bestCost = cost;
+        }
+      }
+      if (best !== assigned[i]) {
+        assigned[i] = best;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const result = new Map<string, ColorMapping>();
+  sources.forEach((mapping, i) => {
+    const k = assigned[i];
+    if (k === nearest[i]) {
+      result.set(mapping.original, mapping);
+      return;
+    }
+
+    // Name the pair whose penalty the move saved the most of
+    let reason: "separation" | "lightness" = "separation";
+    let against = mapping.original;
+    let bestSaving = -Infinity;
+    for (let j = 0; j < n; j++) {
+      if (j === i) continue;
+      const separation =
+        separationCost(i, nearest[i], j, assigned[j]) - separationCost(i, k, j, assigned[j]);
+      const lightness =
+        lightnessCost(i, nearest[i], j, assigned[j]) - lightnessCost(i, k, j, assigned[j]);
+      if (Math.max(separation, lightness) > bestSaving) {
+        bestSaving = Math.max(separation, lightness);
+        reason = lightness > separation ? "lightness" : "separation";
+        against = sources[j].original;
+      }
+    }
+
+    result.set(mapping.original, {
+      ...mapping,
+      paletteIndex: k,
+      paletteHex: paletteHex[k],
+      castleColor: paletteCastle[k],
+      deltaE: toPalette[i][k],
+      adjustment: {
+        nearestIndex: nearest[i],
+        nearestDeltaE: mapping.deltaE,
+        reason,
+        against,
+      },
+    });
+  });
+
+  return result;
+}
@@ -1,8 +1,21 @@
-import { SVGPathData, SVGCommand } from "svg-pathdata";
+import { SVGPathData, SVGPathDataTransformer, type SVGCommand } from "svg-pathdata";
 import type { CastlePathData, CastleBendPoint } from "../castle/format";
-import type { ParsedElement } from "./parseSvg";
+import { STYLE_ARC_CCW, STYLE_ARC_CW } from "../castle/arcs";
+import type { ParsedElement, ClipShape } from "./parseSvg";
 import type { ColorMapping } from "./mapColors";
 import { Matrix, transformPoint } from "./matrix";
+import {
+  areaFromSegments,
+  boundarySegments,
+  filterSegments,
+  intersectAreas,
+  traceContours,
+  unionAreas,
+  type Area,
+  type FillRule,
+  type Point,
+} from "./geometry";
+import { fillAlpha, strokeAlpha, MIN_VISIBLE_ALPHA } from "./composite";
 
 /** Default tolerance in Castle units for cubic-to-quadratic approximation */
 const DEFAULT_TOLERANCE = 0.05;
@@ -10,13 +23,16 @@ const DEFAULT_TOLERANCE = 0.05;
 /** Castle coordinate space is ±10 units */
 const CASTLE_HALF_SIZE = 10;
 
+/** Viewbox → Castle mapping, as returned by viewBoxToCastleTransform */
+export type VbTransform = { scale: number; offsetX: number; offsetY: number };
+
 /**
  * Compute the transform from SVG viewBox coordinates to Castle's ±10 grid.
  * Preserves aspect ratio, centering the content.
  */
 export function viewBoxToCastleTransform(
   viewBox: [number, number, number, number]
-): { scale: number; offsetX: number; offsetY: number } {
+): VbTransform {
   const [vx, vy, vw, vh] = viewBox;
   const scale = (CASTLE_HALF_SIZE * 2) / Math.max(vw, vh);
   const offsetX = -vx * scale - (vw * scale) / 2;
@@ -29,7 +45,7 @@ function tocastle(
   svgX: number,
   svgY: number,
   elementMatrix: Matrix,
-  vbTransform: { scale: number; offsetX: number; offsetY: number }
+  vbTransform: VbTransform
 ): [number, number] {
   // Apply element transform
   const [tx, ty] = transformPoint(elementMatrix, svgX, svgY);
@@ -41,21 +57,12 @@ function tocastle(
 }
 
 /** Make a Castle path segment (straight line) */
-function straightSegment(
-  x1: number,
-  y1: number,
-  x2: number,
-  y2: number,
-  color: number[] | undefined,
-  isFill: boolean
-): CastlePathData {
-  const seg: CastlePathData = {
+function straightSegment(x1: number, y1: number, x2: number, y2: number): CastlePathData {
+  return {
     p: [x1, y1, x2, y2],
     s: 1,
-    f: isFill,
+    f: false,
   };
-  if (color) seg.c = color;
-  return seg;
 }
 
 /** Make a Castle path segment with a bend point (quadratic curve) */
@@ -64,18 +71,264 @@ function quadSegment(
   y1: number,
   x2: number,
   y2: number,
-  bp: CastleBendPoint,
-  color: number[] | undefined,
-  isFill: boolean
+  bp: CastleBendPoint
 ): CastlePathData {
-  const seg: CastlePathData = {
+  return {
     p: [x1, y1, x2, y2],
     s: 1,
     bp,
-    f: isFill,
+    f: false,
   };
-  if (color) seg.c = color;
-  return seg;
+}
+
+/** Apply a color and fill flag to uncolored geometry segments */
+function paint(
+  segments: CastlePathData[],
+  color: number[] | undefined,
+  isFill: boolean,
+  isTransparent: boolean = false
+): CastlePathData[] {
+  return segments.map((seg) => {
+    const painted: CastlePathData = { ...seg, f: isFill };
+    if (color) painted.c = color;
+    if (isTransparent) painted.isTransparent = true;
+    return painted;
+  });
+}
+
+/** Make a Castle arc segment: a whole quarter circle, axis-aligned with its center */
+function arcSegment(x1: number, y1: number, x2: number, y2: number, clockwise: boolean): CastlePathData {
+  return {
+    p: [x1, y1, x2, y2],
+    s: clockwise ? STYLE_ARC_CW : STYLE_ARC_CCW,
+    f: false,
+  };
+}
+
+/** A circular arc in Castle space; angles in radians, y down (positive = clockwise) */
+interface CircleArc {
+  cx: number;
+  cy: number;
+  r: number;
+  startAngle: number;
+  sweep: number;
+}
+
+/** Angles closer than this to a multiple of 90° count as axis-aligned */
+const AXIS_ANGLE_EPSILON = 1e-6;
+
+/** Largest radius treated as a circle; flatter curves stay quadratics */
+const MAX_CIRCLE_RADIUS = 100;
+
+/**
+ * Share of the curve tolerance a cubic may deviate from a circle and
+ * still become one, so only genuinely circular curves turn into arcs
+ */
+const CIRCLE_FIT_SHARE = 0.25;
+
+/** Angle in (−π, π] */
+function wrapAngle(a: number): number {
+  while (a > Math.PI) a -= 2 * Math.PI;
+  while (a <= -Math.PI) a += 2 * Math.PI;
+  return a;
+}
+
+/**
+ * Emit a circular arc from start to end. Whole quarter circles between
+ * axis points (0°, 90°, 180°, 270°) become native Castle arcs; the
+ * partial pieces at either end become quadratics within tolerance.
+ */
+function circleArcSegments(
+  arc: CircleArc,
+  start: Point,
+  end: Point,
+  tolerance: number
+): CastlePathData[] {
+  const { cx, cy, r, startAngle, sweep } = arc;
+  const quarter = Math.PI / 2;
+  const dir = Math.sign(sweep);
+  const endAngle = startAngle + sweep;
+
+  // Break angles: the ends, plus every axis angle strictly between them
+  const angles = [startAngle];
+  let k = dir > 0 ? Math.floor(startAngle / quarter) + 1 : Math.ceil(startAngle / quarter) - 1;
+  while (dir * (endAngle - k * quarter) > AXIS_ANGLE_EPSILON) {
+    if (Math.abs(k * quarter - startAngle) > AXIS_ANGLE_EPSILON) angles.push(k * quarter);
+    k += dir;
+  }
+  angles.push(endAngle);
+
+  const axisIndex = (a: number): number | null => {
+    const i = Math.round(a / quarter);
+    return Math.abs(a - i * quarter) <= AXIS_ANGLE_EPSILON ? i : null;
+  };
+  const pointAt = (i: number): Point => {
+    if (i === 0) return start;
+    if (i === angles.length - 1) return end;
+    const axis = axisIndex(angles[i])!;
+    // Exact axis points keep |dx| = |dy| for native arcs
+    const offsets: Point[] = [
+      [r, 0],
+      [0, r],
+      [-r, 0],
+      [0, -r],
+    ];
+    const [ox, oy] = offsets[((axis % 4) + 4) % 4];
+    return [cx + ox, cy + oy];
+  };
+
+  const segments: CastlePathData[] = [];
+  for (let i = 1; i < angles.length; i++) {
+    const a0 = angles[i - 1],
+      a1 = angles[i];
+    const [x0, y0] = pointAt(i - 1);
+    const [x1, y1] = pointAt(i);
+    const span = Math.abs(a1 - a0);
+
+    if (
+      axisIndex(a0) !== null &&
+      axisIndex(a1) !== null &&
+      Math.abs(span - quarter) <= AXIS_ANGLE_EPSILON
+    ) {
+      segments.push(arcSegment(x0, y0, x1, y1, dir > 0));
+      continue;
+    }
+
+    // A quadratic spanning 2h bulges r·((cos h + sec h)/2 − 1) at worst
+    let n = 1;
+    for (;;) {
+      const h = span / (2 * n);
+      if (r * ((Math.cos(h) + 1 / Math.cos(h)) / 2 - 1) <= tolerance || n >= 64) break;
+      n *= 2;
+    }
+    let px = x0,
+      py = y0;
+    for (let j = 1; j <= n; j++) {
+      const ta = a0 + ((a1 - a0) * (j - 1)) / n;
+      const tb = a0 + ((a1 - a0) * j) / n;
+      const [ex, ey] = j === n ? [x1, y1] : [cx + r * Math.cos(tb), cy + r * Math.sin(tb)];
+      const half = (tb - ta) / 2;
+      const mid = (ta + tb) / 2;
+      segments.push(
+        quadSegment(px, py, ex, ey, {
+          x: cx + (r / Math.cos(half)) * Math.cos(mid),
+          y: cy + (r / Math.cos(half)) * Math.sin(mid),
+        })
+      );
+      px = ex;
+      py = ey;
+    }
+  }
+
+  return segments;
+}
+
+/** SVG arc command fields used here */
+type ArcCommand = { rX: number; rY: number; lArcFlag: number; sweepFlag: number };
+
+/**
+ * Whether an arc stays circular under a transform: equal radii, and a
+ * similarity transform (rotation or reflection plus uniform scale)
+ */
+function staysCircular(cmd: ArcCommand, transform: Matrix): boolean {
+  const [a, b, c, d] = transform;
+  const det = a * d - b * c;
+  const eps = 1e-6 * Math.max(Math.abs(a), Math.abs(b), Math.abs(c), Math.abs(d));
+  const rotation = Math.abs(a - d) <= eps && Math.abs(b + c) <= eps;
+  const reflection = Math.abs(a + d) <= eps && Math.abs(b - c) <= eps;
+  if (det === 0 || !(rotation || reflection)) return false;
+
+  const rX = Math.abs(cmd.rX),
+    rY = Math.abs(cmd.rY);
+  return rX > 0 && Math.abs(rX - rY) <= 1e-9 * rX;
+}
+
+/**
+ * The circle arc an SVG arc command traces, in Castle space, when it is
+ * circular after transformation (see staysCircular). Returns null
+ * otherwise, and for zero-length arcs, which SVG omits.
+ */
+function circularArc(
+  x0: number,
+  y0: number,
+  cmd: ArcCommand,
+  x: number,
+  y: number,
+  transform: Matrix,
+  vbTransform: VbTransform
+): CircleArc | null {
+  if (!staysCircular(cmd, transform)) return null;
+  const [a, b, c, d] = transform;
+  const det = a * d - b * c;
+  const rX = Math.abs(cmd.rX);
+
+  const half = Math.hypot(x - x0, y - y0) / 2;
+  if (half === 0) return null;
+  const r = Math.max(rX * Math.sqrt(Math.abs(det)) * vbTransform.scale, half);
+  // A reflection reverses the sweep direction
+  const positive = (cmd.sweepFlag === 1) !== det < 0;
+
+  // Center sits off the chord midpoint; the flags pick the side (SVG F.6.5)
+  const offset = Math.sqrt(Math.max(0, r * r - half * half)) / half;
+  const side = (cmd.lArcFlag === 1) === positive ? -1 : 1;
+  const cx = (x0 + x) / 2 + side * offset * ((y0 - y) / 2);
+  const cy = (y0 + y) / 2 - side * offset * ((x0 - x) / 2);
+
+  const startAngle = Math.atan2(y0 - cy, x0 - cx);
+  let sweep = Math.atan2(y - cy, x - cx) - startAngle;
+  if (positive && sweep <= 0) sweep += 2 * Math.PI;
+  if (!positive && sweep >= 0) sweep -= 2 * Math.PI;
+
+  return { cx, cy, r, startAngle, sweep };
+}
+
+/**
+ * Fit a circle to a cubic bezier (through its ends and midpoint) and
+ * return the arc if the whole curve stays within tolerance of it.
+ */
+function fitCircle(
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  x3: number,
+  y3: number,
+  tolerance: number
+): CircleArc | null {
+  const at = (t: number): Point => {
+    const mt = 1 - t;
+    const a = mt * mt * mt,
+      b = 3 * mt * mt * t,
+      c = 3 * mt * t * t,
+      e = t * t * t;
+    return [a * x0 + b * x1 + c * x2 + e * x3, a * y0 + b * y1 + c * y2 + e * y3];
+  };
+  const [mx, my] = at(0.5);
+
+  // Circumcenter of the start, middle and end points
+  const den = 2 * ((x0 - x3) * (my - y3) - (mx - x3) * (y0 - y3));
+  if (Math.abs(den) < 1e-12) return null;
+  const s0 = x0 * x0 + y0 * y0 - x3 * x3 - y3 * y3;
+  const sm = mx * mx + my * my - x3 * x3 - y3 * y3;
+  const cx = (s0 * (my - y3) - sm * (y0 - y3)) / den;
+  const cy = (sm * (x0 - x3) - s0 * (mx - x3)) / den;
+  const r = Math.hypot(x0 - cx, y0 - cy);
+  if (r > MAX_CIRCLE_RADIUS) return null;
+
+  for (let i = 1; i < 8; i++) {
+    const [px, py] = at(i / 8);
+    if (Math.abs(Math.hypot(px - cx, py - cy) - r) > tolerance) return null;
+  }
+
+  const startAngle = Math.atan2(y0 - cy, x0 - cx);
+  const midAngle = Math.atan2(my - cy, mx - cx);
+  const first = wrapAngle(midAngle - startAngle);
+  const second = wrapAngle(Math.atan2(y3 - cy, x3 - cx) - midAngle);
+  if (Math.sign(first) !== Math.sign(second)) return null;
+
+  return { cx, cy, r, startAngle, sweep: first + second };
 }
 
 /**
@@ -92,26 +345,19 @@ function cubicToQuadratic(
   x3: number,
   y3: number,
   tolerance: number,
-  color: number[] | undefined,
-  isFill: boolean,
   depth: number = 0
 ): CastlePathData[] {
   // Try degree reduction: best-fit quadratic control point
   const qx = (3 * x1 - x0 + 3 * x2 - x3) / 4;
   const qy = (3 * y1 - y0 + 3 * y2 - y3) / 4;
 
-  // Measure error at t=0.5
-  // Cubic midpoint
-  const cx = 0.125 * x0 + 0.375 * x1 + 0.375 * x2 + 0.125 * x3;
-  const cy = 0.125 * y0 + 0.375 * y1 + 0.375 * y2 + 0.125 * y3;
-  // Quadratic midpoint with control point (qx, qy)
-  const qmx = 0.25 * x0 + 0.5 * qx + 0.25 * x3;
-  const qmy = 0.25 * y0 + 0.5 * qy + 0.25 * y3;
-
-  const error = Math.sqrt((cx - qmx) ** 2 + (cy - qmy) ** 2);
+  // Max distance between the cubic and its degree-reduced quadratic
+  // is √3/36 · |P3 − 3P2 + 3P1 − P0|
+  const error =
+    (Math.sqrt(3) / 36) * Math.hypot(x3 - 3 * x2 + 3 * x1 - x0, y3 - 3 * y2 + 3 * y1 - y0);
 
   if (error <= tolerance || depth > 8) {
-    return [quadSegment(x0, y0, x3, y3, { x: qx, y: qy }, color, isFill)];
+    return [quadSegment(x0, y0, x3, y3, { x: qx, y: qy })];
   }
 
   // Subdivide at t=0.5 using de Casteljau
@@ -129,340 +375,373 @@ function cubicToQuadratic(
     my = (m012y + m123y) / 2;
 
   return [
-    ...cubicToQuadratic(x0, y0, m01x, m01y, m012x, m012y, mx, my, tolerance, color, isFill, depth + 1),
-    ...cubicToQuadratic(mx, my, m123x, m123y, m23x, m23y, x3, y3, tolerance, color, isFill, depth + 1),
+    ...cubicToQuadratic(x0, y0, m01x, m01y, m012x, m012y, mx, my, tolerance, depth + 1),
+    ...cubicToQuadratic(mx, my, m123x, m123y, m23x, m23y, x3, y3, tolerance, depth + 1),
   ];
 }
 
 /**
- * Convert an SVG arc to quadratic bezier approximations.
- * Uses endpoint-to-center parameterization, splits into ≤90° segments.
+ * Parse a path into absolute M, L, Q, C, A and Z commands in its own user
+ * space: H and V become lines, S and T get their reflected control points,
+ * and arcs that won't stay circular under `transform` become cubics. Every
+ * remaining command maps exactly through an affine transform of its points.
  */
-function arcToQuadratic(
-  x0: number,
-  y0: number,
-  rx: number,
-  ry: number,
-  xAxisRotation: number,
-  largeArcFlag: boolean,
-  sweepFlag: boolean,
-  x: number,
-  y: number,
-  color: number[] | undefined,
-  isFill: boolean
+function normalizePath(d: string, transform: Matrix): SVGCommand[] {
+  const aToC = SVGPathDataTransformer.A_TO_C();
+  return new SVGPathData(d)
+    .toAbs()
+    .normalizeHVZ(false)
+    .normalizeST()
+    .transform((cmd) => {
+      // Every command passes through aToC, which tracks the current point
+      const cubics = aToC({ ...cmd });
+      return cmd.type === SVGPathData.ARC && staysCircular(cmd, transform) ? cmd : cubics;
+    }).commands;
+}
+
+/**
+ * Convert a path d string to uncolored Castle segments in Castle space.
+ */
+export function pathSegments(
+  d: string,
+  transform: Matrix,
+  vbTransform: VbTransform,
+  tolerance: number
 ): CastlePathData[] {
-  // Handle degenerate cases
-  if (rx === 0 || ry === 0) {
-    return [straightSegment(x0, y0, x, y, color, isFill)];
-  }
+  const segments: CastlePathData[] = [];
 
-  rx = Math.abs(rx);
-  ry = Math.abs(ry);
-  const phi = (xAxisRotation * Math.PI) / 180;
-  const cosPhi = Math.cos(phi);
-  const sinPhi = Math.sin(phi);
-
-  // Step 1: compute (x1', y1')
-  const dx = (x0 - x) / 2;
-  const dy = (y0 - y) / 2;
-  const x1p = cosPhi * dx + sinPhi * dy;
-  const y1p = -sinPhi * dx + cosPhi * dy;
-
-  // Correct out-of-range radii
-  let lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
-  if (lambda > 1) {
-    const sqrtLambda = Math.sqrt(lambda);
-    rx *= sqrtLambda;
-    ry *= sqrtLambda;
+  let commands: SVGCommand[];
+  try {
+    commands = normalizePath(d, transform);
+  } catch {
+    return segments;
   }
 
-  // Step 2: compute (cx', cy')
-  const rxSq = rx * rx;
-  const rySq = ry * ry;
-  const x1pSq = x1p * x1p;
-  const y1pSq = y1p * y1p;
+  let curX = 0,
+    curY = 0;
+  let startX = 0,
+    startY = 0;
+  let subpathStart = 0;
+
+  // Consecutive pieces of the same circle, emitted together so whole
+  // quarter circles become native Castle arcs
+  let run: { arc: CircleArc; start: Point; atSubpathStart: boolean } | null = null;
+
+  const flushRun = (subpathEnds: boolean) => {
+    if (!run) return;
+    const { arc, start } = run;
+    if (subpathEnds && run.atSubpathStart && Math.abs(arc.sweep) > 2 * Math.PI - 1e-3) {
+      // A full circle on its own: restart it at an axis point so it
+      // becomes four native arcs
+      const angle = Math.round(arc.startAngle / (Math.PI / 2)) * (Math.PI / 2);
+      const [x, y] = [arc.cx + arc.r * Math.round(Math.cos(angle)), arc.cy + arc.r * Math.round(Math.sin(angle))];
+      segments.push(
+        ...circleArcSegments({ ...arc, startAngle: angle, sweep: Math.sign(arc.sweep) * 2 * Math.PI }, [x, y], [x, y], tolerance)
+      );
+    } else {
+      segments.push(...circleArcSegments(arc, start, [curX, curY], tolerance));
+    }
+    run = null;
+  };
 
-  let num = rxSq * rySq - rxSq * y1pSq - rySq * x1pSq;
-  let den = rxSq * y1pSq + rySq * x1pSq;
-  if (num < 0) num = 0;
+  for (const cmd of commands) {
+    // Circular arcs and cubics that fit a circle join the current run
+    let piece: CircleArc | null = null;
+    let pieceEnd: Point = [curX, curY];
+    if (cmd.type === SVGPathData.ARC) {
+      pieceEnd = tocastle(cmd.x, cmd.y, transform, vbTransform);
+      piece = circularArc(curX, curY, cmd, pieceEnd[0], pieceEnd[1], transform, vbTransform);
+    } else if (cmd.type === SVGPathData.CURVE_TO) {
+      const [cp1x, cp1y] = tocastle(cmd.x1, cmd.y1, transform, vbTransform);
+      const [cp2x, cp2y] = tocastle(cmd.x2, cmd.y2, transform, vbTransform);
+      pieceEnd = tocastle(cmd.x, cmd.y, transform, vbTransform);
+      piece = fitCircle(
+        curX, curY, cp1x, cp1y, cp2x, cp2y, pieceEnd[0], pieceEnd[1],
+        tolerance * CIRCLE_FIT_SHARE
+      );
+    }
 
-  let sq = Math.sqrt(num / den);
-  if (largeArcFlag === sweepFlag) sq = -sq;
+    if (piece) {
+      const sameCircle =
+        run !== null &&
+        Math.hypot(run.arc.cx - piece.cx, run.arc.cy - piece.cy) <= tolerance * CIRCLE_FIT_SHARE &&
+        Math.abs(run.arc.r - piece.r) <= tolerance * CIRCLE_FIT_SHARE &&
+        Math.sign(run.arc.sweep) === Math.sign(piece.sweep);
+      if (run && sameCircle) {
+        run.arc.sweep += piece.sweep;
+      } else {
+        flushRun(false);
+        run = { arc: piece, start: [curX, curY], atSubpathStart: segments.length === subpathStart };
+      }
+      [curX, curY] = pieceEnd;
+      continue;
+    }
+
+    const closesLoop =
+      cmd.type === SVGPathData.CLOSE_PATH &&
+      Math.abs(curX - startX) <= 0.001 &&
+      Math.abs(curY - startY) <= 0.001;
+    flushRun(cmd.type === SVGPathData.MOVE_TO || closesLoop);
+
+    switch (cmd.type) {
+      case SVGPathData.MOVE_TO: {
+        const [cx, cy] = tocastle(cmd.x, cmd.y, transform, vbTransform);
+        curX = cx;
+        curY = cy;
+        startX = cx;
+        startY = cy;
+        subpathStart = segments.length;
+        break;
+      }
+
+      case SVGPathData.LINE_TO: {
+        const [nx, ny] = tocastle(cmd.x, cmd.y, transform, vbTransform);
+        segments.push(straightSegment(curX, curY, nx, ny));
+        curX = nx;
+        curY = ny;
+        break;
+      }
 
-  const cxp = (sq * rx * y1p) / ry;
-  const cyp = (-sq * ry * x1p) / rx;
+      case SVGPathData.QUAD_TO: {
+        const [nx, ny] = tocastle(cmd.x, cmd.y, transform, vbTransform);
+        const [bx, by] = tocastle(cmd.x1, cmd.y1, transform, vbTransform);
+        segments.push(
+          quadSegment(curX, curY, nx, ny, { x: bx, y: by })
+        );
+        curX = nx;
+        curY = ny;
+        break;
+      }
 
-  // Step 3: compute (cx, cy)
-  const cx = cosPhi * cxp - sinPhi * cyp + (x0 + x) / 2;
-  const cy = sinPhi * cxp + cosPhi * cyp + (y0 + y) / 2;
+      case SVGPathData.CURVE_TO: {
+        // Cubic bezier → quadratic approximation
+        const [cp1x, cp1y] = tocastle(cmd.x1, cmd.y1, transform, vbTransform);
+        const [cp2x, cp2y] = tocastle(cmd.x2, cmd.y2, transform, vbTransform);
+        const [nx, ny] = tocastle(cmd.x, cmd.y, transform, vbTransform);
+
+        const cubicSegs = cubicToQuadratic(
+          curX, curY, cp1x, cp1y, cp2x, cp2y, nx, ny,
+          tolerance
+        );
+        segments.push(...cubicSegs);
+        curX = nx;
+        curY = ny;
+        break;
+      }
+
+      case SVGPathData.ARC: {
+        // Only zero-length arcs get here; SVG draws nothing for them
+        [curX, curY] = tocastle(cmd.x, cmd.y, transform, vbTransform);
+        break;
+      }
 
-  // Step 4: compute theta1 and dTheta
-  function angle(ux: number, uy: number, vx: number, vy: number): number {
-    const dot = ux * vx + uy * vy;
-    const cross = ux * vy - uy * vx;
-    let a = Math.atan2(cross, dot);
-    return a;
+      case SVGPathData.CLOSE_PATH: {
+        if (!closesLoop) {
+          segments.push(straightSegment(curX, curY, startX, startY));
+        }
+        curX = startX;
+        curY = startY;
+        subpathStart = segments.length;
+        break;
+      }
+    }
   }
+  flushRun(true);
 
-  const theta1 = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
-  let dTheta = angle(
-    (x1p - cxp) / rx,
-    (y1p - cyp) / ry,
-    (-x1p - cxp) / rx,
-    (-y1p - cyp) / ry
-  );
+  return segments;
+}
 
-  if (!sweepFlag && dTheta > 0) dTheta -= 2 * Math.PI;
-  if (sweepFlag && dTheta < 0) dTheta += 2 * Math.PI;
+/**
+ * Build the area covered by a clip path (the union of its shapes).
+ */
+export function clipArea(clip: ClipShape[], vbTransform: VbTransform, tolerance: number): Area {
+  return unionAreas(
+    clip.map((shape) =>
+      areaFromSegments(
+        pathSegments(shape.d, shape.transform, vbTransform, tolerance),
+        shape.clipRule
+      )
+    )
+  );
+}
 
-  // Split into segments of ≤90°
-  const numSegments = Math.max(1, Math.ceil(Math.abs(dTheta) / (Math.PI / 2)));
-  const segAngle = dTheta / numSegments;
+/** A run of pathDataList entries forming one contour of a fill */
+export interface FillContour {
+  /** Index of the contour's first segment */
+  start: number;
+  /** Index one past the contour's last segment */
+  end: number;
+  /** True for holes (e.g. windows), false for outer contours */
+  hole: boolean;
+}
 
-  const segments: CastlePathData[] = [];
-  let curX = x0;
-  let curY = y0;
-
-  for (let i = 0; i < numSegments; i++) {
-    const t1 = theta1 + i * segAngle;
-    const t2 = theta1 + (i + 1) * segAngle;
-
-    // Approximate arc segment with quadratic bezier
-    const alpha = (4 / 3) * Math.tan((t2 - t1) / 4);
-
-    // Points on the unit circle
-    const cosT1 = Math.cos(t1);
-    const sinT1 = Math.sin(t1);
-    const cosT2 = Math.cos(t2);
-    const sinT2 = Math.sin(t2);
-
-    // End point on ellipse
-    const ex = cosPhi * rx * cosT2 - sinPhi * ry * sinT2 + cx;
-    const ey = sinPhi * rx * cosT2 + cosPhi * ry * sinT2 + cy;
-
-    // Control points (cubic bezier for this arc segment)
-    const cp1x = cx + cosPhi * rx * (cosT1 - alpha * sinT1) - sinPhi * ry * (sinT1 + alpha * cosT1) - cx;
-    const cp1y = cy + sinPhi * rx * (cosT1 - alpha * sinT1) + cosPhi * ry * (sinT1 + alpha * cosT1) - cy;
-    const cp2x = cx + cosPhi * rx * (cosT2 + alpha * sinT2) - sinPhi * ry * (sinT2 - alpha * cosT2) - cx;
-    const cp2y = cy + sinPhi * rx * (cosT2 + alpha * sinT2) + cosPhi * ry * (sinT2 - alpha * cosT2) - cy;
-
-    // Use cubic-to-quadratic conversion for each arc segment
-    const cubicCp1x = curX + (2 / 3) * (cx + cp1x - curX);
-    const cubicCp1y = curY + (2 / 3) * (cy + cp1y - curY);
-    const cubicCp2x = ex + (2 / 3) * (cx + cp2x - ex);
-    const cubicCp2y = ey + (2 / 3) * (cy + cp2y - ey);
-
-    // Simpler approach: use a single quadratic with the midpoint control
-    const midAngle = (t1 + t2) / 2;
-    const tanHalf = Math.tan((t2 - t1) / 2);
-    // Control point for quadratic approximation of arc
-    const qcx = cosPhi * rx * (Math.cos(midAngle) / Math.cos((t2 - t1) / 2)) - sinPhi * ry * (Math.sin(midAngle) / Math.cos((t2 - t1) / 2)) + cx;
-    const qcy = sinPhi * rx * (Math.cos(midAngle) / Math.cos((t2 - t1) / 2)) + cosPhi * ry * (Math.sin(midAngle) / Math.cos((t2 - t1) / 2)) + cy;
-
-    segments.push(
-      quadSegment(curX, curY, ex, ey, { x: qcx, y: qcy }, color, isFill)
-    );
+/** Fill-region metadata: how a filled element's outline splits into contours */
+export interface FillRegion {
+  paletteIndex: number;
+  fillRule: FillRule;
+  /** Fill opacity after compositing; 0 when the fill is hidden */
+  alpha: number;
+  contours: FillContour[];
+}
 
-    curX = ex;
-    curY = ey;
-  }
+/** Castle segments for one element, with its fill contours (indices into segments) */
+export interface ConvertedElement {
+  segments: CastlePathData[];
+  fillRegion: FillRegion | null;
+}
 
-  return segments;
+/** Castle segments for a whole drawing, with fill-region metadata */
+export interface ConvertedPaths {
+  pathDataList: CastlePathData[];
+  fillRegions: FillRegion[];
+  /** Index of the element each entry of pathDataList came from */
+  elementIndices: number[];
 }
 
 /**
  * Convert a single parsed SVG element to Castle path segments.
+ *
+ * Fill outlines are reduced to the edges that actually bound the filled
+ * area under the element's fill rule (so overlapping subpaths drawn with
+ * nonzero don't leave interior edges) and grouped into outer contours
+ * and holes.
  */
 export function convertElement(
   element: ParsedElement,
   viewBox: [number, number, number, number],
   colorMap: Map<string, ColorMapping>,
   tolerance: number = DEFAULT_TOLERANCE
-): CastlePathData[] {
+): ConvertedElement {
   const vbTransform = viewBoxToCastleTransform(viewBox);
   const segments: CastlePathData[] = [];
-  const { d, fill, stroke, transform } = element;
+  const { d, fill, stroke, transform, fillRule } = element;
+  let fillRegion: FillRegion | null = null;
 
   // Determine Castle color
   const fillMapping = fill ? colorMap.get(fill) : undefined;
   const strokeMapping = stroke ? colorMap.get(stroke) : undefined;
 
-  // We emit segments for fill (isFill=true) and stroke (isFill=false) separately
-  const colorSets: Array<{
-    color: number[] | undefined;
-    isFill: boolean;
-  }> = [];
+  const outline = pathSegments(d, transform, vbTransform, tolerance);
+  let fillArea: Area = areaFromSegments(outline, fillRule);
+  let strokeOutline = outline;
+
+  // Clipping: the fill outline becomes the boundary of (shape ∩ clips),
+  // while stroke centerlines are simply trimmed to the clip area.
+  if (element.clipPaths && element.clipPaths.length > 0) {
+    const clips = element.clipPaths.map((clip) => clipArea(clip, vbTransform, tolerance));
+    const insideClips = (x: number, y: number) => clips.every((c) => c.contains(x, y));
 
+    if (fillMapping) {
+      fillArea = intersectAreas([fillArea, ...clips]);
+    }
+    strokeOutline = filterSegments(outline, insideClips);
+  } else if (fillMapping) {
+    fillArea = {
+      segments: boundarySegments(outline, fillArea.contains),
+      contains: fillArea.contains,
+    };
+  }
+
+  // We emit segments for fill (isFill=true) and stroke (isFill=false) separately.
+  // Effectively invisible paints keep their geometry but are marked transparent.
   if (fillMapping) {
     const c = fillMapping.castleColor;
-    colorSets.push({ color: [c.r, c.g, c.b, c.a], isFill: true });
+    const alpha = fillAlpha(element);
+    const hidden = alpha < MIN_VISIBLE_ALPHA || !!fillMapping.transparent;
+    fillRegion = {
+      paletteIndex: fillMapping.paletteIndex,
+      fillRule,
+      alpha: hidden ? 0 : alpha,
+      contours: [],
+    };
+
+    for (const contour of traceContours(fillArea.segments, fillArea.contains)) {
+      const start = segments.length;
+      segments.push(...paint(contour.segments, [c.r, c.g, c.b, c.a], true, hidden));
+      fillRegion.contours.push({ start, end: segments.length, hole: contour.hole });
+    }
   }
   if (strokeMapping) {
     const c = strokeMapping.castleColor;
-    colorSets.push({ color: [c.r, c.g, c.b, c.a], isFill: false });
+    const hidden = strokeAlpha(element) < MIN_VISIBLE_ALPHA || !!strokeMapping.transparent;
+    segments.push(...paint(strokeOutline, [c.r, c.g, c.b, c.a], false, hidden));
   }
 
   // If neither fill nor stroke, use default black fill
-  if (colorSets.length === 0) {
-    colorSets.push({ color: undefined, isFill: false });
+  if (!fillMapping && !strokeMapping) {
+    segments.push(...paint(strokeOutline, undefined, false));
   }
 
-  // Parse path d string using svg-pathdata
-  let commands: SVGCommand[];
-  try {
-    const pathData = new SVGPathData(d);
-    // Normalize to absolute coordinates
-    commands = pathData.toAbs().commands;
-  } catch {
-    return segments;
-  }
-
-  for (const { color, isFill } of colorSets) {
-    let curX = 0,
-      curY = 0;
-    let startX = 0,
-      startY = 0;
-
-    for (const cmd of commands) {
-      switch (cmd.type) {
-        case SVGPathData.MOVE_TO: {
-          const [cx, cy] = tocastle(cmd.x, cmd.y, transform, vbTransform);
-          curX = cx;
-          curY = cy;
-          startX = cx;
-          startY = cy;
-          break;
-        }
-
-        case SVGPathData.LINE_TO: {
-          const [nx, ny] = tocastle(cmd.x, cmd.y, transform, vbTransform);
-          segments.push(straightSegment(curX, curY, nx, ny, color, isFill));
-          curX = nx;
-          curY = ny;
-          break;
-        }
-
-        case SVGPathData.HORIZ_LINE_TO: {
-          const [nx, ny] = tocastle(cmd.x, curY / vbTransform.scale - vbTransform.offsetY / vbTransform.scale, transform, vbTransform);
-          // For H command, we need the y in SVG space. Since curY is already in Castle space,
-          // just use the Castle-space y directly.
-          segments.push(straightSegment(curX, curY, nx, curY, color, isFill));
-          curX = nx;
-          break;
-        }
-
-        case SVGPathData.VERT_LINE_TO: {
-          const [nx, ny] = tocastle(curX / vbTransform.scale - vbTransform.offsetX / vbTransform.scale, cmd.y, transform, vbTransform);
-          segments.push(straightSegment(curX, curY, curX, ny, color, isFill));
-          curY = ny;
-          break;
-        }
-
-        case SVGPathData.QUAD_TO: {
-          const [nx, ny] = tocastle(cmd.x, cmd.y, transform, vbTransform);
-          const [bx, by] = tocastle(cmd.x1, cmd.y1, transform, vbTransform);
-          segments.push(
-            quadSegment(curX, curY, nx, ny, { x: bx, y: by }, color, isFill)
-          );
-          curX = nx;
-          curY = ny;
-          break;
-        }
-
-        case SVGPathData.CURVE_TO: {
-          // Cubic bezier → quadratic approximation
-          const [cp1x, cp1y] = tocastle(cmd.x1, cmd.y1, transform, vbTransform);
-          const [cp2x, cp2y] = tocastle(cmd.x2, cmd.y2, transform, vbTransform);
-          const [nx, ny] = tocastle(cmd.x, cmd.y, transform, vbTransform);
-
-          const cubicSegs = cubicToQuadratic(
-            curX, curY, cp1x, cp1y, cp2x, cp2y, nx, ny,
-            tolerance, color, isFill
-          );
-          segments.push(...cubicSegs);
-          curX = nx;
-          curY = ny;
-          break;
-        }
-
-        case SVGPathData.ARC: {
-          // Transform the endpoint
-          const [nx, ny] = tocastle(cmd.x, cmd.y, transform, vbTransform);
-
-          // Scale radii by viewBox transform
-          const scaledRx = cmd.rX * vbTransform.scale;
-          const scaledRy = cmd.rY * vbTransform.scale;
-
-          const arcSegs = arcToQuadratic(
-            curX, curY,
-            scaledRx, scaledRy,
-            cmd.xRot,
-            cmd.lArcFlag === 1,
-            cmd.sweepFlag === 1,
-            nx, ny,
-            color, isFill
-          );
-          segments.push(...arcSegs);
-          curX = nx;
-          curY = ny;
-          break;
-        }
-
-        case SVGPathData.CLOSE_PATH: {
-          if (Math.abs(curX - startX) > 0.001 || Math.abs(curY - startY) > 0.001) {
-            segments.push(straightSegment(curX, curY, startX, startY, color, isFill));
-          }
-          curX = startX;
-          curY = startY;
-          break;
-        }
-
-        case SVGPathData.SMOOTH_CURVE_TO: {
-          // S command: reflected control point from previous cubic
-          const [cp2x, cp2y] = tocastle(cmd.x2, cmd.y2, transform, vbTransform);
-          const [nx, ny] = tocastle(cmd.x, cmd.y, transform, vbTransform);
-          // Reflection: use curX,curY as cp1 (no previous cubic info in absolute conversion)
-          const cubicSegs = cubicToQuadratic(
-            curX, curY, curX, curY, cp2x, cp2y, nx, ny,
-            tolerance, color, isFill
-          );
-          segments.push(...cubicSegs);
-          curX = nx;
-          curY = ny;
-          break;
-        }
-
-        case SVGPathData.SMOOTH_QUAD_TO: {
-          // T command: reflected control point
-          const [nx, ny] = tocastle(cmd.x, cmd.y, transform, vbTransform);
-          // Without tracking previous Q control, just do straight line
-          segments.push(straightSegment(curX, curY, nx, ny, color, isFill));
-          curX = nx;
-          curY = ny;
-          break;
-        }
-      }
-    }
-  }
-
-  return segments;
+  return { segments, fillRegion };
 }
 
 /**
- * Convert all parsed SVG elements to Castle path segments.
+ * Convert all parsed SVG elements to Castle path segments, collecting
+ * the fill regions with contour indices into the combined list.
+ *
+ * @param tolerance - One tolerance for every element, or one per element
  */
 export function convertAllPaths(
   elements: ParsedElement[],
   viewBox: [number, number, number, number],
   colorMap: Map<string, ColorMapping>,
-  tolerance: number = DEFAULT_TOLERANCE
-): CastlePathData[] {
+  tolerance: number | number[] = DEFAULT_TOLERANCE
+): ConvertedPaths {
   const allSegments: CastlePathData[] = [];
-
-  for (const element of elements) {
-    const segs = convertElement(element, viewBox, colorMap, tolerance);
-    allSegments.push(...segs);
+  const fillRegions: FillRegion[] = [];
+  const elementIndices: number[] = [];
+
+  for (const [i, element] of elements.entries()) {
+    const { segments, fillRegion } = convertElement(
+      element,
+      viewBox,
+      colorMap,
+      Array.isArray(tolerance) ? tolerance[i] : tolerance
+    );
+    if (fillRegion) {
+      // Re-base contour indices onto the combined list
+      const offset = allSegments.length;
+      fillRegions.push({
+        ...fillRegion,
+        contours: fillRegion.contours.map((c) => ({
+          ...c,
+          start: c.start + offset,
+          end: c.end + offset,
+        })),
+      });
+    }
+    allSegments.push(...segments);
+    for (let k = 0; k < segments.length; k++) elementIndices.push(i);
   }
 
-  return allSegments;
+  return { pathDataList: allSegments, fillRegions, elementIndices };
+}
+
+/**
+ * Replace each segment of converted paths with a list of pieces (none to
+ * drop it), re-indexing fill contours and dropping those left empty.
+ */
+export function replaceSegments(paths: ConvertedPaths, pieces: CastlePathData[][]): ConvertedPaths {
+  const pathDataList: CastlePathData[] = [];
+  const elementIndices: number[] = [];
+  // Position in the new list of each old index
+  const offsets: number[] = [];
+
+  pieces.forEach((list, i) => {
+    offsets.push(pathDataList.length);
+    pathDataList.push(...list);
+    for (let k = 0; k < list.length; k++) elementIndices.push(paths.elementIndices[i]);
+  });
+  offsets.push(pathDataList.length);
+
+  const fillRegions = paths.fillRegions
+    .map((region) => ({
+      ...region,
+      contours: region.contours
+        .map((c): FillContour => ({ ...c, start: offsets[c.start], end: offsets[c.end] }))
+        .filter((c) => c.end > c.start),
+    }))
+    .filter((region) => region.contours.length > 0);
+
+  return { pathDataList, fillRegions, elementIndices };
 }
@@ -0,0 +1,382 @@
+/**
+ * Minimal CSS cascade for SVG styling.
+ *
+ * Supports what design tools actually emit into `<style>` blocks:
+ * type, class, id and universal selectors, compound selectors
+ * (`path.cls-1`), descendant and child combinators, selector lists,
+ * and `!important`. Selectors using anything else (pseudo-classes,
+ * attribute selectors, sibling combinators) never match.
+ */
+
+import type { XmlElement } from "./xml";
+
+/** A single `property: value` declaration */
+export interface CssDeclaration {
+  property: string;
+  value: string;
+  important: boolean;
+}
+
+interface CompoundSelector {
+  tag: string | null;
+  id: string | null;
+  classes: string[];
+}
+
+interface ComplexSelector {
+  /** Compounds from left to right */
+  compounds: CompoundSelector[];
+  /** Combinator preceding each compound (first entry is unused) */
+  combinators: Array<" " | ">">;
+  specificity: number;
+}
+
+/** A style rule with a single (already split) selector */
+export interface CssRule {
+  selector: ComplexSelector;
+  declarations: CssDeclaration[];
+  /** Source order, used to break specificity ties */
+  order: number;
+}
+
+/** An `@font-face` rule */
+export interface FontFaceRule {
+  /** Unquoted font-family name */
+  family: string;
+  weight: string;
+  style: string;
+  /** Every `url(...)` in src, in order of preference */
+  urls: string[];
+}
+
+/** Computed property values for an element, keyed by property name */
+export type ComputedStyle = Record<string, string>;
+
+/** Properties that inherit from the parent when not specified */
+const INHERITED_PROPERTIES = new Set([
+  "color",
+  "fill",
+  "fill-opacity",
+  "fill-rule",
+  "stroke",
+  "stroke-width",
+  "stroke-opacity",
+  "stroke-linecap",
+  "stroke-linejoin",
+  "stroke-miterlimit",
+  "stroke-dasharray",
+  "stroke-dashoffset",
+  "clip-rule",
+  "visibility",
+  "font-family",
+  "font-size",
+  "font-style",
+  "font-weight",
+  "text-anchor",
+  "letter-spacing",
+]);
+
+/** Default font-size in user units, as in browsers */
+export const DEFAULT_FONT_SIZE = 16;
+
+/** Presentation attributes that participate in the cascade */
+const PRESENTATION_ATTRIBUTES = [
+  ...INHERITED_PROPERTIES,
+  "opacity",
+  "display",
+  "clip-path",
+  "mask",
+  "stop-color",
+  "stop-opacity",
+];
+
+/** Strip comments from a stylesheet or declaration block */
+function stripComments(css: string): string {
+  return css.replace(/\/\*[\s\S]*?\*\//g, "");
+}
+
+/**
+ * Parse a declaration block (`fill: red; stroke: blue !important`).
+ * Used for both stylesheet rules and inline `style` attributes.
+ */
+export function parseDeclarations(text: string): CssDeclaration[] {
+  const declarations: CssDeclaration[] = [];
+
+  for (const part of stripComments(text).split(";")) {
+    const colon = part.indexOf(":");
+    if (colon < 0) continue;
+
+    const property = part.slice(0, colon).trim().toLowerCase();
+    let value = part.slice(colon + 1).trim();
+    if (!property || !value) continue;
+
+    let important = false;
+    const importantMatch = value.match(/!\s*important\s*$/i);
+    if (importantMatch) {
+      important = true;
+      value = value.slice(0, importantMatch.index).trim();
+    }
+
+    declarations.push({ property, value, important });
+  }
+
+  return declarations;
+}
+
+function parseCompound(text: string): CompoundSelector | null {
+  const compound: CompoundSelector = { tag: null, id: null, classes: [] };
+  const re = /([.#]?)(-?[_a-zA-Z\u00a0-\uffff][\w\u00a0-\uffff-]*|\*)/y;
+  let pos = 0;
+
+  while (pos < text.length) {
+    re.lastIndex = pos;
+    const match = re.exec(text);
+    if (!match) return null; // unsupported syntax
+
+    const [, prefix, name] = match;
+    if (prefix === ".") {
+      compound.classes.push(name);
+    } else if (prefix === "#") {
+      compound.id = name;
+    } else if (name !== "*") {
+      if (pos !== 0) return null;
+      compound.tag = name.toLowerCase();
+    }
+    pos = re.lastIndex;
+  }
+
+  return compound;
+}
+
+function parseSelector(text: string): ComplexSelector | null {
+  const tokens = text.trim().replace(/\s*>\s*/g, " > ").split(/\s+/);
+  const compounds: CompoundSelector[] = [];
+  const combinators: Array<" " | ">"> = [];
+  let pending: " " | ">" = " ";
+
+  for (const token of tokens) {
+    if (!token) continue;
+    if (token === ">") {
+      if (compounds.length === 0) return null;
+      pending = ">";
+      continue;
+    }
+    const compound = parseCompound(token);
+    if (!compound) return null;
+    compounds.push(compound);
+    combinators.push(pending);
+    pending = " ";
+  }
+
+  if (compounds.length === 0) return null;
+
+  let ids = 0,
+    classes = 0,
+    tags = 0;
+  for (const c of compounds) {
+    if (c.id) ids++;
+    classes += c.classes.length;
+    if (c.tag) tags++;
+  }
+
+  return { compounds, combinators, specificity: ids * 10000 + classes * 100 + tags };
+}
+
+/**
+ * Parse a stylesheet into rules, one per selector in each selector list.
+ * At-rules (`@media`, `@font-face`, ...) are skipped.
+ */
+export function parseStylesheet(css: string, startOrder: number = 0): CssRule[] {
+  const rules: CssRule[] = [];
+  const text = stripComments(css).replace(/<!\[CDATA\[|\]\]>/g, "");
+  let order = startOrder;
+  let pos = 0;
+
+  while (pos < text.length) {
+    const open = text.indexOf("{", pos);
+    if (open < 0) break;
+
+    const prelude = text.slice(pos, open).trim();
+
+    // Find the matching close brace (at-rules may nest blocks)
+    let depth = 1;
+    let close = open + 1;
+    while (close < text.length && depth > 0) {
+      if (text[close] === "{") depth++;
+      else if (text[close] === "}") depth--;
+      close++;
+    }
+    const body = text.slice(open + 1, close - 1);
+    pos = close;
+
+    if (prelude.startsWith("@")) continue;
+
+    const declarations = parseDeclarations(body);
+    for (const selectorText of prelude.split(",")) {
+      const selector = parseSelector(selectorText);
+      if (selector) {
+        rules.push({ selector, declarations, order: order++ });
+      }
+    }
+  }
+
+  return rules;
+}
+
+/** Collect `@font-face` rules from a stylesheet */
+export function parseFontFaces(css: string): FontFaceRule[] {
+  const faces: FontFaceRule[] = [];
+  const text = stripComments(css).replace(/<!\[CDATA\[|\]\]>/g, "");
+  const re = /@font-face\s*\{([^}]*)\}/gi;
+
+  for (let match = re.exec(text); match; match = re.exec(text)) {
+    const props: Record<string, string> = {};
+    // Split on ";" outside url(...): data URIs contain semicolons
+    for (const decl of match[1].match(/[^;(]*(?:\([^)]*\)[^;(]*)*/g) || []) {
+      const colon = decl.indexOf(":");
+      if (colon < 0) continue;
+      props[decl.slice(0, colon).trim().toLowerCase()] = decl.slice(colon + 1).trim();
+    }
+
+    const family = (props["font-family"] || "").replace(/^["']|["']$/g, "").trim();
+    if (!family) continue;
+
+    const urls = Array.from((props.src || "").matchAll(/url\(\s*(["']?)(.*?)\1\s*\)/g), (m) => m[2]);
+    faces.push({
+      family,
+      weight: props["font-weight"] || "normal",
+      style: props["font-style"] || "normal",
+      urls,
+    });
+  }
+
+  return faces;
+}
+
+function matchesCompound(el: XmlElement, compound: CompoundSelector): boolean {
+  if (compound.tag && el.tagName.toLowerCase() !== compound.tag) return false;
+  if (compound.id && el.getAttribute("id") !== compound.id) return false;
+  if (compound.classes.length > 0) {
+    const classList = (el.getAttribute("class") || "").split(/\s+/);
+    for (const cls of compound.classes) {
+      if (!classList.includes(cls)) return false;
+    }
+  }
+  return true;
+}
+
+/** Test whether an element matches a complex selector, right to left */
+function matchesSelector(el: XmlElement, selector: ComplexSelector): boolean {
+  const { compounds, combinators } = selector;
+
+  function matchFrom(node: XmlElement, index: number): boolean {
+    if (!matchesCompound(node, compounds[index])) return false;
+    if (index === 0) return true;
+
+    if (combinators[index] === ">") {
+      const parent = node.parentElement;
+      return !!parent && matchFrom(parent, index - 1);
+    }
+
+    for (let anc = node.parentElement; anc; anc = anc.parentElement) {
+      if (matchFrom(anc, index - 1)) return true;
+    }
+    return false;
+  }
+
+  return matchFrom(el, compounds.length - 1);
+}
+
+/**
+ * Compute an element's style from presentation attributes, stylesheet
+ * rules, inline `style`, and inheritance from the parent's computed style.
+ *
+ * Cascade order (lowest to highest): presentation attributes, rules by
+ * specificity then source order, inline style, `!important` rules,
+ * `!important` inline declarations.
+ */
+/** A computed font-size in user units, or the default */
+function fontSizeOf(style: ComputedStyle | null): number {
+  const size = parseFloat(style?.["font-size"] ?? "");
+  return isNaN(size) ? DEFAULT_FONT_SIZE : size;
+}
+
+/**
+ * Resolve an em, rem or % length against a font size, leaving other
+ * values as they are
+ */
+function resolveFontRelative(value: string, fontSize: number): string {
+  const n = parseFloat(value);
+  if (isNaN(n)) return value;
+  if (value.endsWith("rem")) return String(n * DEFAULT_FONT_SIZE);
+  if (value.endsWith("em")) return String(n * fontSize);
+  if (value.endsWith("%")) return String((n / 100) * fontSize);
+  return value;
+}
+
+export function computeStyle(
+  el: XmlElement,
+  rules: CssRule[],
+  parentStyle: ComputedStyle | null
+): ComputedStyle {
+  const specified: ComputedStyle = {};
+
+  for (const attr of PRESENTATION_ATTRIBUTES) {
+    const val = el.getAttribute(attr);
+    if (val !== null && val.trim() !== "") specified[attr] = val.trim();
+  }
+
+  const matched = rules
+    .filter((rule) => matchesSelector(el, rule.selector))
+    .sort((a, b) => a.selector.specificity - b.selector.specificity || a.order - b.order);
+
+  const inline = parseDeclarations(el.getAttribute("style") || "");
+
+  for (const important of [false, true]) {
+    for (const rule of matched) {
+      for (const decl of rule.declarations) {
+        if (decl.important === important) specified[decl.property] = decl.value;
+      }
+    }
+    for (const decl of inline) {
+      if (decl.important === important) specified[decl.property] = decl.value;
+    }
+  }
+
+  const computed: ComputedStyle = {};
+
+  if (parentStyle) {
+    for (const prop of INHERITED_PROPERTIES) {
+      if (prop in parentStyle) computed[prop] = parentStyle[prop];
+    }
+  }
+
+  for (const [prop, value] of Object.entries(specified)) {
+    // `color: currentColor` means the parent's color
+    const inherits =
+      value === "inherit" || (prop === "color" && value.toLowerCase() === "currentcolor");
+    if (inherits) {
+      if (parentStyle && prop in parentStyle) computed[prop] = parentStyle[prop];
+      else delete computed[prop];
+    } else {
+      computed[prop] = value;
+    }
+  }
+
+  // Font-relative lengths compute to absolute ones where they are
+  // specified, so descendants inherit the size rather than the ratio:
+  // font-size against the parent's size, letter-spacing against the
+  // element's own
+  const own = (prop: string) => prop in specified && specified[prop] !== "inherit";
+  if (own("font-size")) {
+    computed["font-size"] = resolveFontRelative(computed["font-size"], fontSizeOf(parentStyle));
+  }
+  if (own("letter-spacing")) {
+    computed["letter-spacing"] = resolveFontRelative(
+      computed["letter-spacing"],
+      fontSizeOf(computed)
+    );
+  }
+
+  return computed;
+}
@@ -0,0 +1,215 @@
+/**
+ * CSS color values: hex, rgb()/rgba(), hsl()/hsla() and hwb() in both
+ * the comma and the space-separated CSS Color 4 syntax, the 148 named
+ * colors, `transparent` and `currentColor`.
+ */
+
+/** A parsed color: sRGB as 6-digit hex plus alpha */
+export interface CssColor {
+  /** Lowercase #rrggbb */
+  hex: string;
+  /** Alpha, 0-1 */
+  alpha: number;
+}
+
+/** The CSS named colors (CSS Color 4) */
+const NAMED_COLORS = new Map<string, string>(Object.entries({
+  aliceblue: "#f0f8ff", antiquewhite: "#faebd7", aqua: "#00ffff",
+  aquamarine: "#7fffd4", azure: "#f0ffff", beige: "#f5f5dc",
+  bisque: "#ffe4c4", black: "#000000", blanchedalmond: "#ffebcd",
+  blue: "#0000ff", blueviolet: "#8a2be2", brown: "#a52a2a",
+  burlywood: "#deb887", cadetblue: "#5f9ea0", chartreuse: "#7fff00",
+  chocolate: "#d2691e", coral: "#ff7f50", cornflowerblue: "#6495ed",
+  cornsilk: "#fff8dc", crimson: "#dc143c", cyan: "#00ffff",
+  darkblue: "#00008b", darkcyan: "#008b8b", darkgoldenrod: "#b8860b",
+  darkgray: "#a9a9a9", darkgreen: "#006400", darkgrey: "#a9a9a9",
+  darkkhaki: "#bdb76b", darkmagenta: "#8b008b", darkolivegreen: "#556b2f",
+  darkorange: "#ff8c00", darkorchid: "#9932cc", darkred: "#8b0000",
+  darksalmon: "#e9967a", darkseagreen: "#8fbc8f", darkslateblue: "#483d8b",
+  darkslategray: "#2f4f4f", darkslategrey: "#2f4f4f", darkturquoise: "#00ced1",
+  darkviolet: "#9400d3", deeppink: "#ff1493", deepskyblue: "#00bfff",
+  dimgray: "#696969", dimgrey: "#696969", dodgerblue: "#1e90ff",
+  firebrick: "#b22222", floralwhite: "#fffaf0", forestgreen: "#228b22",
+  fuchsia: "#ff00ff", gainsboro: "#dcdcdc", ghostwhite: "#f8f8ff",
+  gold: "#ffd700", goldenrod: "#daa520", gray: "#808080",
+  green: "#008000", greenyellow: "#adff2f", grey: "#808080",
+  honeydew: "#f0fff0", hotpink: "#ff69b4", indianred: "#cd5c5c",
+  indigo: "#4b0082", ivory: "#fffff0", khaki: "#f0e68c",
+  lavender: "#e6e6fa", lavenderblush: "#fff0f5", lawngreen: "#7cfc00",
+  lemonchiffon: "#fffacd", lightblue: "#add8e6", lightcoral: "#f08080",
+  lightcyan: "#e0ffff", lightgoldenrodyellow: "#fafad2", lightgray: "#d3d3d3",
+  lightgreen: "#90ee90", lightgrey: "#d3d3d3", lightpink: "#ffb6c1",
+  lightsalmon: "#ffa07a", lightseagreen: "#20b2aa", lightskyblue: "#87cefa",
+  lightslategray: "#778899", lightslategrey: "#778899", lightsteelblue: "#b0c4de",
+  lightyellow: "#ffffe0", lime: "#00ff00", limegreen: "#32cd32",
+  linen: "#faf0e6", magenta: "#ff00ff", maroon: "#800000",
+  mediumaquamarine: "#66cdaa", mediumblue: "#0000cd", mediumorchid: "#ba55d3",
+  mediumpurple: "#9370db", mediumseagreen: "#3cb371", mediumslateblue: "#7b68ee",
+  mediumspringgreen: "#00fa9a", mediumturquoise: "#48d1cc", mediumvioletred: "#c71585",
+  midnightblue: "#191970", mintcream: "#f5fffa", mistyrose: "#ffe4e1",
+  moccasin: "#ffe4b5", navajowhite: "#ffdead", navy: "#000080",
+  oldlace: "#fdf5e6", olive: "#808000", olivedrab: "#6b8e23",
+  orange: "#ffa500", orangered: "#ff4500", orchid: "#da70d6",
+  palegoldenrod: "#eee8aa", palegreen: "#98fb98", paleturquoise: "#afeeee",
+  palevioletred: "#db7093", papayawhip: "#ffefd5", peachpuff: "#ffdab9",
+  peru: "#cd853f", pink: "#ffc0cb", plum: "#dda0dd",
+  powderblue: "#b0e0e6", purple: "#800080", rebeccapurple: "#663399",
+  red: "#ff0000", rosybrown: "#bc8f8f", royalblue: "#4169e1",
+  saddlebrown: "#8b4513", salmon: "#fa8072", sandybrown: "#f4a460",
+  seagreen: "#2e8b57", seashell: "#fff5ee", sienna: "#a0522d",
+  silver: "#c0c0c0", skyblue: "#87ceeb", slateblue: "#6a5acd",
+  slategray: "#708090", slategrey: "#708090", snow: "#fffafa",
+  springgreen: "#00ff7f", steelblue: "#4682b4", tan: "#d2b48c",
+  teal: "#008080", thistle: "#d8bfd8", tomato: "#ff6347",
+  turquoise: "#40e0d0", violet: "#ee82ee", wheat: "#f5deb3",
+  white: "#ffffff", whitesmoke: "#f5f5f5", yellow: "#ffff00",
+  yellowgreen: "#9acd32",
+}));
+
+/** Hex value of a CSS color name, or null if it isn't one */
+export function namedColor(name: string): string | null {
+  return NAMED_COLORS.get(name.toLowerCase()) ?? null;
+}
+
+function toHex(r: number, g: number, b: number): string {
+  const channel = (v: number) =>
+    Math.max(0, Math.min(255, Math.round(v))).toString(16).padStart(2, "0");
+  return "#" + channel(r) + channel(g) + channel(b);
+}
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
+
+/**
+ * Split a function's arguments: "1, 2, 3, 0.5" or "1 2 3 / 0.5".
+ * Returns the channels and the alpha token, if any.
+ */
+function splitArgs(body: string): { channels: string[]; alpha?: string } | null {
+  const trimmed = body.trim();
+  if (trimmed.includes(",")) {
+    const parts = trimmed.split(",").map((p) => p.trim());
+    if (parts.length !== 3 && parts.length !== 4) return null;
+    return { channels: parts.slice(0, 3), alpha: parts[3] };
+  }
+  const [main, alpha, extra] = trimmed.split("/").map((p) => p.trim());
+  if (extra !== undefined) return null;
+  const channels = main.split(/\s+/).filter(Boolean);
+  if (channels.length !== 3) return null;
+  return { channels, alpha };
+}
+
+/** A number or percentage; `percentScale` is what 100% equals. "none" is 0. */
+function parseNumber(token: string, percentScale: number): number | null {
+  if (token === "none") return 0;
+  const match = token.match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%?)$/);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return match[2] ? (value / 100) * percentScale : value;
+}
+
+/** A hue in degrees, from a bare number or deg/rad/grad/turn */
+function parseHue(token: string): number | null {
+  if (token === "none") return 0;
+  const match = token.match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(deg|rad|grad|turn)?$/);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  switch (match[2]) {
+    case "rad":
+      return (value * 180) / Math.PI;
+    case "grad":
+      return value * 0.9;
+    case "turn":
+      return value * 360;
+    default:
+      return value;
+  }
+}
+
+function parseAlpha(token: string | undefined): number | null {
+  if (token === undefined) return 1;
+  const alpha = parseNumber(token, 1);
+  return alpha === null ? null : clamp01(alpha);
+}
+
+/** HSL (hue in degrees, s and l 0-1) to sRGB 0-255 */
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const hue = (((h % 360) + 360) % 360) / 30;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + hue) % 12;
+    return 255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1)));
+  };
+  return [f(0), f(8), f(4)];
+}
+
+function parseFunction(name: string, body: string): CssColor | null {
+  const args = splitArgs(body);
+  if (!args) return null;
+  const alpha = parseAlpha(args.alpha);
+  if (alpha === null) return null;
+  const [c1, c2, c3] = args.channels;
+
+  if (name === "rgb" || name === "rgba") {
+    const rgb = [c1, c2, c3].map((c) => parseNumber(c, 255));
+    if (rgb.some((v) => v === null)) return null;
+    const [r, g, b] = rgb as number[];
+    return { hex: toHex(r, g, b), alpha };
+  }
+
+  const hue = parseHue(c1);
+  const x = parseNumber(c2, 100);
+  const y = parseNumber(c3, 100);
+  if (hue === null || x === null || y === null) return null;
+
+  if (name === "hsl" || name === "hsla") {
+    return { hex: toHex(...hslToRgb(hue, clamp01(x / 100), clamp01(y / 100))), alpha };
+  }
+
+  // hwb: whiteness and blackness summing past 100% make a gray
+  const white = clamp01(x / 100);
+  const black = clamp01(y / 100);
+  if (white + black >= 1) {
+    const gray = (255 * white) / (white + black);
+    return { hex: toHex(gray, gray, gray), alpha };
+  }
+  const [r, g, b] = hslToRgb(hue, 1, 0.5).map((v) => v * (1 - white - black) + 255 * white);
+  return { hex: toHex(r, g, b), alpha };
+}
+
+/**
+ * Parse a CSS color value. `currentColor` resolves to `currentColor`
+ * (the element's computed `color`, black when unset). Returns null for
+ * `none`, paint servers and anything unparseable.
+ */
+export function parseCssColor(value: string, currentColor: string = "black"): CssColor | null {
+  const c = value.trim().toLowerCase();
+
+  if (c === "currentcolor") {
+    const resolved = currentColor.trim().toLowerCase();
+    return resolved === "currentcolor" ? null : parseCssColor(resolved);
+  }
+  if (c === "transparent") return { hex: "#000000", alpha: 0 };
+  const named = NAMED_COLORS.get(c);
+  if (named) return { hex: named, alpha: 1 };
+
+  if (c.startsWith("#")) {
+    const h = c.slice(1);
+    if (!/^[0-9a-f]+$/.test(h)) return null;
+    if (h.length === 3 || h.length === 4) {
+      const full = Array.from(h, (d) => d + d).join("");
+      return {
+        hex: "#" + full.slice(0, 6),
+        alpha: h.length === 4 ? parseInt(full.slice(6), 16) / 255 : 1,
+      };
+    }
+    if (h.length === 6) return { hex: "#" + h, alpha: 1 };
+    if (h.length === 8) return { hex: "#" + h.slice(0, 6), alpha: parseInt(h.slice(6), 16) / 255 };
+    return null;
+  }
+
+  const fn = c.match(/^(rgba?|hsla?|hwb)\(\s*(.*)\)$/);
+  if (fn) return parseFunction(fn[1], fn[2]);
+
+  return null;
+}
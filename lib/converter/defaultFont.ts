@@ -0,0 +1,296 @@
+/**
+ * Bundled fallback font for text-to-outline conversion: Roboto Regular,
+ * Latin subset (WOFF), from @fontsource/roboto 5.3.0.
+ *
+ * Copyright 2011 The Roboto Project Authors
+ * (https://github.com/googlefonts/roboto-classic). Licensed under the
+ * SIL Open Font License, Version 1.1 (https://openfontlicense.org).
+ */
+
+/** Family name text falls back to when no @font-face matches */
+export const DEFAULT_FONT_FAMILY = "Roboto";
+
+/** Base64 WOFF data (whitespace is ignored when decoding) */
+export const DEFAULT_FONT_BASE64 = `
+d09GRgABAAAAAFJEAA8AAAAAhHgAAQABAAAAAAAAAAAAAAAAAAAAAAAAAABHREVGAAABWAAAAGYAAACYC98LykdQT1MAAAHAAAAP
+RAAAHUot7N6OR1NVQgAAEQQAAAPiAAAIOtMvv2xPUy8yAAAU6AAAAE8AAABgdNoBiVNUQVQAABU4AAAASwAAAF5fnUM1Y21hcAAA
+FYQAAAEnAAABwhIWFN5nYXNwAAAWrAAAAAwAAAAMAAgAGWdseWYAABa4AAAz/wAAT0iuqckWaGVhZAAASrgAAAA2AAAANgz5sE5o
+aGVhAABK8AAAACAAAAAkCroPC2htdHgAAEsQAAADNwAABazIRHHzbG9jYQAATkgAAAKmAAAC2Oa6+dttYXhwAABQ8AAAABwAAAAg
+AYsBIW5hbWUAAFEMAAABIgAAAmI2jl6RcG9zdAAAUjAAAAATAAAAIP9tAGR42g3DAQbCABgG0PdtAKQAhoBOEYGdowMMBBFAIpKk
+0S4R3aKgS/V7nmjMAAeNhZWN6G3FUGJXYl/iWOJU4lziUuLqJu4eYjRpvbw1Pr7il06yzFrSZ5DSosNc1YjREynTH4U+Eq8AAHja
+TJYFcJxHEoUbZv9dr3QuM+w5zJyIzQzlCzOaSRBmZubEuFakNVTOFGbmxBRmZmaSeffevKNU13x69aan+5+u2imJikhWqmSchGEj
+9j5YchPPPKlJclNPmtwouabxpxwnOQnIkVJJXAT5Jt44+aTjZNtjx5/UKL2ObTy2Ubpgx5CX4l9jprF2kp2fTZJEpsgIaS+JdICb
+jXupL1JfgA9LOc71km7SAb5uujt5CPw6GQCuTOrBn8D/nhPRdne2uxNciHMqAftLiy38QpUM6l2X2hychN3XUuWpJCVhffgD8VP4
+JnwWPghvhVfCyvBseDyVhAfD3WFZuDUUQj5MD9eFK8JF4ZxwWjghNIRJYUw4PBwY9g4jwqDQJ1SF3cOOYevQK3QLHUI2BC/6Wv/N
+f/Cv/BN/z9/wl3y5P+2P+v2+PKz3OxFLfKG3+OyU+E2Ia/wyvwBxlp/ix/k0xAQ/2g/1/RGjfZgP8DpEhe/q2/uW4QTPIbp4e88g
+zDZam/2C+M6+sI/sHcRrttqetyftYbvXbg972yKbb802026wq+wSO8/OsJOsyabYODvSDrZ9bZQNicsH4FQ/q0mVh3NsT9sZs5lk
+29rm1sM6WbklmNLe4fGwo4mux2SC/qE/hSv8B/1GP9MP9C19RVfGPpjfaZhtA+Z6oD6rj2OygzDbPphuFea7e3hcH9S7MeFumHEH
+TDkbCrpMbw15L4bpvjZchMktF9W1SZ2oXZe+BDw1GQuOSS8Ft0svAY9J58Fdk3qwkH4S+RuSIdD16TOgNyYroBvSJbCWem5GwIHU
+z2RMVDYmLyCze6YMThXPNrBXNXMa6Y+gLsSzfn3s5WelC3A2UDdT90ymgavS38I5KmkAl/I7nd82jTk1rJ9PnwlW0D8uPR/dZ1NP
+YE5/6reilnWxo2bSc8Fu/Kqu3F3Em25MdoqkUxs1ODmSzkA6A9ARGj5Iv190cOsdyInkVN53J3IyWc9bL4qkPzyegp5M1nNKreDc
+9DiymSyAz6QngE+nz6ZuIeeDb+LWmHO6kfxnJOfTCAeEA9IppD+OZOXWeAq6mUR9zYZPRf2uVBZ8KBkavz+VifNPtYuTT5VBr0qu
+ivNP9ob2mKkb/0OBs4F6HXUtdV1qBXQF9WwQ1chTmTOQun+kXx8p65J5cLZL/gH9cTII3BCpf0bHdmWdtuS9OEloZPJLulKfxZwR
+1NOSwWBDPGvXxhxvpnM98+dST+LucfGmNoHOo3SeofNWdPysSM0k/eIvIukL5+BkYJww6ywnC8l4sJF6PLmIzhjqAiqYlMl2MkBE
+hssYycmFiCq5GFEtlyFq5EpErVwt10qdPCfPS19ZpTnpr5trX7lWh2mDLOVbuy3W5lg9sDrFVzusB78O34ArU1nwJ9BE5SaZIfL/
+9xkv5t3gV1IuK73geZ+OdZ1f4Rf5OX6an+ANPsnH+OF+oO/tI3yQ9/Eq39139K29l3dDbgfPerCirbXf7Af7yj6x9+wN8CVbbk/b
+o3a/3WlLbKG12Gy7ya6xy+wC7J5lpyDvE5wv/D/sOHRmoDODff8T6MpA1w7/D5uGzgxUZbDvf6PFGOh6GW4W/DT0nIR1uC33QXan
+97Elvru1eN4u8K3tJq5uyB2D759gR3sBHQ61/f06W8uF8zbahtkAq/MDUb/Cdo3nbXvbMp7jush+iPUtZ12w2lvGzBvsDd2obfqL
+DdPv9Av9SN+JE7VH9TVdrc/rk/qw3hvnarP1dl2k87XZcjrThola++IisBjp+UhdS+d66ueKLdBTyIridPCU4i2i0lZcDD2RmZXk
+K5F+IXkunSayY/FLcHpxLbg3nZVkPWseypqT6SwvCji12Iq+m7ibJ0fFjvZM1LKOX9W9GF+XOu420mmjvp3sWhwALor0u0ol8CGR
+eFPJxi6lCcgvURcjdS11pUi8LzMrSm3xjlKGs9OL9dBfR9ooVIuZ2XhTELeTkdh9vFgNrqOzN7lzMf6CR1PXsWY92TVWtkMjtU14
+X1HwUtbMM/96Ms/dKeQp7DuR/sOs0In6Ge6+wrPn0mkip8uRoLBLd2kXZ07/vdIasDN1I7mI1SZT3y4iJpm/vhl8G6r4NtTibegg
+vbWr5uR8vhCX8oVYIIrsJP5nFr8GMZNVTC6RLNiDr8HhUiOGkNIMrEOR9TdJMN8O0klukRZplYLMk/myUP+uvZCXkgShUoZQZigz
+lPvKjA4IxflOYCtCcX4+uBChiPLYmRmK6BxXaUt+m5X9FL8t9XDM+Bcr5bBtRxRF0RXbditO2sFXxN8RG53YtntpxbZt29dG983U
+OONV7n7JiTNLc68ydjUaWv+QuqmTQlrrK3zio1rpF5A0/pjPJEwdZ7OtJcpyUKLMHbLsZo6rF7r5STffI6lpmFnIGz9dcZuRDivS
+ZIk4bavfhqLxQmg2++lVTSUpAzkFWeWo5MmrJi1CYZ0nS+g/wEZ/xlk+8ozdHA3sOSl2qrVaqRlXJOLkAhcD1ZpbfAjWBRDhPXFn
+n4nzTH7EOXmhbPwjeRmCKsjkwZsbiBANv8ZgeC8/zXkQKtv4xBr2syKwXRyTXEeJpRIHyamFRC+1pCOXCHKJyxIpFnKHizKwTx5Y
+p59A2Z+RksPZb8JZSW2cPWIGN2hVlTZrx7n5cJO8r+7Ut7wn3LK5LGKexKVKhxOR1MxZms/6zzCm0rU8I1XzL6SW5qpMxiOKEod5
+EAyfKMsDPSReml409ndwnc/fZbFv/x5Mpkyx0sf2iyRSdaraBv/8u2Kd97uqrb5fyLCH8EjTMArD5/wom2E7asROY9MK27bt7s3Y
+tu1lVrOe7di2bZsn76iRp/ClrrpK3/0TAQVEFZFSDjLKRRXq4GEyWhFGJ6brsVmYg1L0qgoMqEoswGKMwlI1DivVeKzGWkzARaoG
+t+Iu1OIeVY9H8RUa8D1+wRL8SRer6NPHegYZwgZGGMEmxhnHZiaZwhbmmcc2FlnEdpZyInZwMifjZNazGaewla04k+3swVmczT5c
+wAEO4VLO53xcwYVciCu5mCtxFVdzNW7kOq7DTdzArbiZ27kDd8LBLgRUAlGVQEplkVZ5ZFQWVcpDjXIwSTmoV0W0KAdtykGHSqFT
+RdGlwuhWOfSoNKaqGKapCKbDfkHlYw56QfQrYgEWwsUiFcBi5WKJIpapOFaoIFaqEFarJNaoENaqAs5WDi5RDi5VxM24BXnbyidw
+u8ratj6Bu1TWZiKLR1Qej+FpeHhGOXgNb+n2bbyHMN5XEXyAT+HjM80Z8b1y8YNmLoBf8QeCmj8gRJJwqECGGILLKKNIMcYY4lQI
+M8EEgkwyiQxTTKHALLNwbHbTNrtplrIUEZaxDCHbJ0mwkpUo4WiOhssxHAOPYzkWPsdxnMbjOV7jKlaBrGENyDrWgZJRD4cNbECA
+jWzUuIlNGjdLTJgtbEHQ3ITZxjaN29mOCDvYgRA72alxF7s07ma3xj3s0XgO58BlP/tBLuESjZdxmW6XczkcruEapLiWaxE3YVEJ
+24AwN3IjctzETQhxMzdrvIVbNN4qf2n5244Md0hhAQ4OmMKUKUxZBfNXMH8OqlWZKYyjVhF1yjOLITSoKBpV1lwSraocnSppIkMm
+ssRE5kxk4iiReRPpYraKYY5Ko1f5GFBh0xk+SmcMS1XRRAZNZMZEBk1kKS5SMfOXMn8F85cyfwXzV8CjiubPMX9xPIsX4JlCmsLQ
+UQpdfKbS+FwWfbMYhlk0hUFTGDeFaVujZM1i2NYoRVMYMn9581dq8nImL3eUvKDJS5m8CpMXNnmOyXNNnmPyXE7gBHjmz2c1q+GZ
+Qp+1rIVnFn2zyKMs8iiLIVMYOspf8Ch/waP8Bc1fmHM5F2XsZS9i7GMfyEEOIswhDiFq67yorfOyZjRsRsNmlFzBFSjnSq5EzNaF
+RZOaNKkhk1piUoMmtcSkBk1qzqTmTWopiO/gATgSmB/oU7lAwP/J/8b/yHvGe8x7wP/Gu887zZvv1XsVXsR9yv37LEWtjtg/0L3S
+mdd7nWHnOl13B/r4zsir+N8EjvrT6330T98oS69004npNYb9n7wHRl7VfcSLjLyjM6xXVO5N9lofuTf9d/3m7+vIc/672iPeY0qv
+ov/0+Z2XRj69M2zXiPsIiCPw7OgqhirUoBZ1mIgGNKIFrWhDOzrRjR5Mw3TMQC/6MIB5tswswlIsx0qswhqss+VBy4HcP4bH8QSe
+xFPS/4zcP4fnZf81vI438Kb8vy/nX+BLWf9eyn/ET/hZ1iWdpC/ZEVnOS2+p1EqsvI6W03EyWSWLNayVv3q5a5S3dtnqlKlu9shR
+n8wMcb6cLJGP5XKxWhI2chM3c4vmezvG4a+W62GxrjAKw/D3nxqxatu2bdttMMsV1GZwAXEyrTmrbdtuj+p49Q0Gz8Z/FvbaxxPt
+oiZhMqZimlppJmZhrm3SfNYWWjpTNVAKx1744EcAQfwl7h8KUYRi2+Q8dtE1tHTXnn1HdEZP1nuDPryWW7mZmI0V1K+vHubVYLzF
+O7zHB/O6EPRBP6xmjf+utk2RyEYeCuA0RSHic4uILEl/2f9DIYpQTHZP9Oa4BrFhWqQ+TBWhcE1kbRImYyrmIwVe+OBHAEHyPWiP
+jugM4tWs6tMcIYrWaEVS8YsmYTKmYj5WK0op7DOJy0IOcuFlzQc/AgjaF+dBU4VXfT6hPecd0RnUk1OWHaq8Z34Nxlu8w3t8ML8L
+QR/0w2rWnJbaR4Wqvr2rvMZQu115nVPsmxbYEy1iz/Up2Q5ond3UZsvRDjur3XZG+XZfNckKI6Mh0d+JDGWlatYIVt5V5tZVTXvC
+2XF6XVZy+SkqdaLSdCqlUimXOzSIqx5iPg23O/pod1xjDMAgDMFKO+TWmM8lEBNG9EOiP2ioecl4ScZLF8M9j0NjjgdgEIZgpT0k
+84NLQBLxHi1SKN2zK2cvEFvmGa9w47sW7W2BepQXahBTjLdXmshckzAZUzEX87HAPmkxd2cJd305UljLJj8PBbhBnZu4hdu4g7v4
+RM3P+IKv+Ibv8JLvgx8BBPEX/1CIIhSjhJ6lKEM5zL44wWPfXah9c004bmULXGt75dqwb8u+PY91RGf0RG/0JbY/BhI/GEPBfG6l
++LXCcSIzeXgd+LWULk6b7bVqKISpR9tvrbYAZ23tvBZxtJTHQqp/60ZquGL1UbGO384uDo05HoBBGII1dEhAErFOfH7QZ5A9cSvt
+yX+pXZANeNpllAOsNUsQhL+e3cvftm3b1rVt+9m2bQbPtm3btm2/PZWTzf656eycnurq6pqZ5GBAKufbaPyNm9Py2Ld2n13b2Ldx
+1/pW9m2r3r2D4WzHX1eyaSwLN+TkBevmnHVjGZmXsyPI4b//SAEMh08CiSSRTIrw5DjuBXh31A9RH1RJQpUQT62tbe9i37qOznZ2
+b9i1upaWtubGauq0lrV17NFOQVtnbRtZQbor27tiyMbdY+tqaUmRRK29tXpakyHuAEyrF5tHT+17AU5fn8T7E6+2y+10a7HN1pdn
+uZqzqWM9Y/VZXM1RQCp3sy+7sTv3cC/3cT8P8GCEsZBUbuJGbuBmbuFWbuN27uBOEuMMD2MkRn/toQcOYyCj5MRxWRAE3XdioaqR
+yOnaD4hM6o1va20dw6Xn6/chHo4wRtNTyAgGMZghDGWYWKMYiNFT+WM8bittla22NTE1W28bdlYI9hEGj8U46nQ45FszUvFDt2vj
+3T1J5GocWVyLx3ayIpyREc5VONK5Rpx0nXM70bOb4mzCbv9C5vm7+y1+lV/gz/TH+0O9b723vSe9270zvRqvyNvsLfSmu1/dx+5J
+d7E70dW5EpflNruRrr9Ltn/ta3vTHrdLbX/b1aoswzbacEvmWx7mRi7nQk7nWJrwGclg+pJqM3CcYT4uqPyI4zR+wHEqhm8DtY9l
+/cNsQJj1U6ZzWjOOM62vkAQmMpqh9KenrYjp2jLNWCLOcKn/J6bHQHqTbI2qDI1hNlh1qVq98Fp5i6oukt4CVXur+rf0/gqdV8Vq
+cZUK8XpG3JYJSQ1PUtLN9zxNmCOVPzThN3F+1YTw9qxQSltiqCWL8YvYmmP5qo6JTM4VkhhBsoVkhl5mxfbK0sNsUzd/03SvU+Ry
+knjfivNNeAM7wm4Xam8TFtWZIIVxwr+Q88/E/jTyCk1y2Kebh+XysFQKi8UZpq5PiL5tgypD9LaDIqp1wms0M5GZTGYsw2M9tlCK
+81XvpfqHUvxAt1yNx+nx81RGXrlc/B6Rmy0VkhKevljZzrPmatZs6bynWe+I9bZmFaFZkfcukOZmVZPEfCvy3nmqjo54yBGSEEGy
+hGR0u82ZwqfLjyfN18V5LXzRtPBFN3brnqq3mKzuieK9LM5LYff2sNvCG9kqLKozXgpjhT8nF8+I/bR0HH2YxDRgBrNIYA4LSWYx
+K+jNKlYzkE1sYzA7SGcEmeQxmgJKA/1yKpjOIUHM5LAgZnFkELM5Jog5HBfE3Mh/cwUej/KItZAYYtvZHHAm4wMDFabcUChzGKdy
+hjKP9CCMjCCczbJZeDjAVMmwWf8DOlYEQgAAeNolxbERREAAAMC9c/dfxl8Pn4lkZiS6oA2ZVCzRglYUBIFNVkpzWGTymv+E33t1
+GCIigIkRHQq0fd9quM+Pi+G7RkXYINV5R1E9RnoMzgB42g3HsQEBQBAAsNw9aGEBAKhMBAA6sIaBDEe6CKGhoKNgId+7xymGvI+n
+R0zE+bG+xVKqaekJZIztUISMRXzIL4r8fwKCH8OeCG8AeNqdjDNgXVEYgL9zb20bp263YmqWcqvbrVOxdqq22DbGZI65xLbG2LZ5
+3smLMeY3P8AATOCMNYqVvEfEAR95zl5OrFwcxY5IYoglmyKq6WYELR6JL0aGUWTUG42mME3zoHlLGvKgPCzPyEvymrwp78on0ka+
+ljE3bt48ZdFaaQ1rREkkUcQSRw7F1NDDqJX4eYPINuJpeUFeWSE+lk93EAXoad3JA53HVZ0LHAb2gv6qbSzfValKU6kqSAUqH/Wn
+NbTV36oera6tLq2OrXatfa2/Wn+2LLa4N0eIBJIRwHu2ykvgLfCf3YlBBZVUUU0NtThSTgONNNFMC6044Uwb7XTQSRcuuNJND730
+0c8AbrgzxTQzzDLHPB54ssAiCgsaL8ESoYh+rgAAAQACAAgACP//AA942rR7B1xTV/vwPefeJIAKQggRlBECCRtCFgQSwkoIEPaS
+vRFli4AMBRVEcU8cQO1wtpU6qti+rV2+2mW31dbu9u0e7+hQcvnOyQ3D1v//2z+9JPfe5z73WeeZJwSLqCQI0oc1TpAEm7Am5hN2
+BAHsBfYsALytSYE1JH1MkXAb/ROwNx0HC+h/AT+ahqTJBCAArPE7aazxLFO3qXs+7IAdpjjTgyx0wGKCgMSRqX+DbozZjJMUkqRM
+IQ114jmyhZ4iULvgmC1bqZCHh8sVStb43e8o3p3HAjWaQH+NBj+9ieJCLzZBUIgqAvBIob0A/wFObo3gkFsjmxikD4EfzH8QdDsC
+fBu9azHhThACrlAu4ArQISXxIeUJzYeQKyC56Abgp/0M5sXRJuCWviMdWKVvT3/lq/hP7qZtT6N/T1sBrOLp38HBzaBsCDxAl+Jj
+iB7bTFeDg3Q19AJlBCAapkIoB/ZhIgrT5sR3gzyhLAgKPdlsnqMTPkdcctgcnlAuEgdBudTRDUpDFQq5TGQ+lymUCqUcPhgektYY
+cdFDWxiZVS+T9TT0nSturU0s2BsamjmQdkmSUSHJ74lRdC9bc6FieVl8DvvwhxwH947HW2KbMgNVtfHaUqO3b+OR9r4ngjxsnn2W
+ZcuvfWxNdmP04vDl+sjSNE9x09G2rjMhnjYfEEjTtVPfsdazXiLsCSEhJ/REEkFwESVYJ048RC9Wi0iJ6TeTimnFDIH/BRguEIPa
+hIHC4v4EfX9R0caEIWGCQqHzFOoVcr0QqmZvDRjMt/TolhLdes0Uvgz+nUoyZg5mZAxmGtPxx6gxKEMqzQgyBmdKpZmTaSkZ+GoG
+8/FASlAmuhmcEoxhSOPdbTFUC7Kx6qnvqX+xXiQCCBWRiLQCkIiR3LEW+EIx+sCUM4IXifE3hinMkx20hQxL6CZQmtVkUSXfCTaB
+OHtb76MisaPLGx+VxuY3NOx8uyVVF5Ho6BARW/Bww4pDWaFLI37zS4jhataWZqWFS+gXaqLiC7NUaT4BYnuSpLs9vCtWV4wniYR/
+rFQLfJdf6ijcopbJnfmGzYktIxnZQ5m6xsKAi+7y0kQnfZtevDgQbjT45yZHlCmWygNLZXzEDrGM8iRoNtYjweUhU5bTvD7AJhro
+HaBkLbo/QPvBfewVBN+sVQcHhZJvCyHSmQOyR45IBOFA+fBxvThidZVGU7U6Qqw/PlwOdTa3QBmwOS3uDBz9in7jGdtn6OtfPxTS
+JD4NrEE5fq8Y4VUyeAHPEUI2R6yBDkjzEJmy0snJwQEqGcQd1ZqY2nY5gzjN5gN6lP7ttLgp8Mh3QIoQA+m3RwKaxafpX+kxhHcJ
+LCdzWE8QtoherreSRUpJbz6LyyHJvmv0W8EgyHrYBvgF0a+91D1xHr4IHPP3NYI8+sHGAwX0L0XAg/4Hpi6F2EXJqCeJeZg6gT1y
+EnKBvdSektHLJ+hasH+CXPA4LQWvPQ5O0LkI3pW+DeTEh4QNQXgj1WNe5HIgL8ys9Qjgf7i34JU4Q0BBmWIY4xZBd2QYFwjSjFsO
+belF8MLwMLqzA3m2NuIt/FblHJ+2IyIsLAIf5cHR0cFBWi3Gwp1aT9pjL4htUghIe9ORMVjKGv/jbXYg9nMrkd3OY72I5BtslrAt
+8iJBJJKvBnkMN5K0lwWRQk9koPaObqQ0VAOpedqOE8uztjWn+UV3nKjN3t6U6neJHxCbq4ipjvfiB8XkyuOq4z3J5I/O/rov1q9o
+33vbPzr7z91a36W736FXgcXle5fHuEuWP9pFf1m+r14nkDWexnSeQsTcZF0k2OgEyZEl94Y3J+ghaM+6eCeBenPw2FUMhRw7JUXU
+umP5CeRAA6ddAE84s6JsIQdQ0kk9uJ1XJo5oSS/r007UvXNo84u1/kkVYXTn8HA/5JZvqg9PWKVLGsjtenV12elV2vXr1qjppegd
+JVPfk3fQO5TohdjL3OcNeFVjL2sRF3awTk4IFEMKwcYNZWujwppyUtpjJ5peGdhwpUEqlySyWAW1/vE9xytKjvUmTMT2nOyKTR4q
+3kBKo5v1WS0qdVNy45N1RRcGlT0KiQBAQcP66OrRhjBFzf6y5JaoiI4nV4VjfcmRBNKRPm2w5QKe0GxzQIo+ENPpr0yYlsEtL03w
+6XTw7TD9OMioJ3+ZVMFXfE3FWH4HkbaD0NO+6ETMFfAEJGZplhGxFAcKJFUmmoCKPQb4nelMgE9XWtUDzZHhLY+tyhvpMtqMz09Y
+lRJTrfMWJdXpikrgeRF89xTdyveJ7z3XWDu+PkFStb86oyk8KKczOb4tTxKKKO9H73ZlnSE8GcnyEH4sR4XyXhLkyHsovJAlzqUE
+AZJRCxfuvtLqvJBtZx++Pa1+tFqiWnm8sW28VaU5ABbSbwelVSm1lfFeHjEVccZ+PyfWmZGSsYpIjb1daHDGplP5NecGk8sevFKd
+exD4/Lxt8oSubG+1TLK00xC9ukSZFOnOrGeCEiH5sLFsgRAI5JTI9MgLMH/ye9b4sjsXWYuG0UpqRpzYsV5EnEjMERj5cI8Z5y6Z
+69yx30dO3IkzbUOMnZDodPaMsut6k77zVmesRqIF5Q2Nz3f3PN/YVAagjU3t6ku6NZnZXXGxPY92xwo0Dbvq1Wr0RwM290+Ulk70
+5+5U+C8BkpPL154pLj6zdvlJCWBRsnNN6T06XU96VntUVDv83dAUrW4yJjVpNE1ID5VTNPk7ol5IIIPyRhaOyUaEsrH0LeseO25b
+EtkyI35byKgDgwIJ94GrdY52FMVSHS6sG62SqFpONPaMN8pc0w/+dp4L7QJTK8O0VWZFxGrqs13gofzhUkMyixWTmrXlsaXLnhxK
+qTz+VmNs8zfvHCsjDYaKg8sU0sJuQ3RnebgkW8GamiL6kYero+IJEeHwH4LgEA5Tv5Ir0XVf5D+z0HUxuvIRuRLpaeF8rLcE4kWy
+k0o06w2weEAOyE7TDtg0+ToZSg7QU6YXQddO0Im4HwbbyVvkdaRFDuNX8UHemnyGjEHH9SNH6LIjRxDGjcRL5G0qGWPkAoCgwEa4
+z7SczJk8CTYADoDP0gO76H6EMWnq32Q7kqcHEYAwCjVQOeuVOOjUYglYwnMzUOh+CQiSo4KMIZISnWqZFkzA+ksr154tNrRolaLn
+w+SKsDCFPAwcLO2qjg7OLIuLr1T45eqaH8wpPLUqf/+GSGkvvXo6YYVEPR3Bvs7aT2QQtYgKpDtPlGaILWpFJFHoxXySzSwqpcLs
+1EkOG/t0FKoZKHTdQaHwwvp3YGFQxjZkSi7Cha2AfZUKKT1QF1/jwV/gIQqskhka4hZbW4dl1rZp6rrDpGyuj3RRZHG0F8XxLTv8
+/tCad0+sjmdzgmpG3+jNO68W6d4sGr77XG8kh5O95zUA9h+887fu8Lu/cmx9ogNctZrFtvNAEMUK1ipLjTLwW+HEwSJJkMAvVOjn
+H9V6pKL2zJZyaZS/6T1DocQhqnF31t47zw/ojDteNu3ad/elTXo/r5bAgMyxz4Hnow8Dz+9PFWaNfkF/MqVrSBa7akKd3Vks8CsJ
+F4U1PYLk5UoQLDe00jk4FgtIASkEUgBIksobMo1tfgn6n4CBdNtvv4Eeej2uM+BieMy0lEB2cwL5iEH0JI/RuEBgL0ACmw4KjK5J
+fJEJHd4zMURgD4/RENxuGu/SFqY78lSBBmP7+5voS0Bd2Ben6qa3/pDZHa/uKaW/YI0Hluyqzt8ZNM/azl16uHjwqTJ4wvRv7aq0
+9DbtobBaQ1pVMB2KLb8D+aL3kfWJsU+d8aCM1fGFlsU7vXqpRZfter893fvmvvT0A+9vfOSLtXaXbZO3NJftrggNLNxW1rUrCVzf
+fGtt6RN/HNh54I8zpd0f7KjenZY4+Ezr7hVPb0tP2UVAM/9/R/wvIFxmucfem+HU7DGEUEq3gcPbkRIKH/sXPXbt8Bu1ka3H6j5g
+jZecNY3mjprOlIys/2Fsac8LG3UEMOPUIZzzcFxHKC0HpZusIHebgmCbafPICGt8lA4YMU1a4IMRvPVM3oX+kq+aRp8jB0wRpGDU
+1IOh7bCEOpGEbiMJ+ePMAktIJGKCjOK+MlKieErdXtx2/aH+jx9aatx3a+uxT9c6PLfAuK2pak9pcETDgaKa3gQufRq+a/rOp8JQ
+dBaAh5ofAsTZopUv96WuS03c/GLXyjVXhhKEEiegO8xQy7JiuMO1rRTTiw6wHH50+bLJ8znWuGkbbEE2dsRUgsDQExfQnw5L1oYh
+O57DNsjck6P85FX0lYtOEC5LUSSXWooicv7ltusDA2+0PRe3OiV5tQ6coDh3/9hxpabw6e2FbWHRfYSFIhbCMR/jUGLLFwKOmaRR
+8M3Xphfhsq9MpjOYsNDHoYepZ/JteHSC5qInGNkvQd9YjK5QtrtkcutzWD13frDgZmeg+zizRogxt1yEnmsvPPE7uA0+/P0ylxbs
+oj25l1HZXUQ9hPgOg2V3a6hDphHT1WnqrBntIu6xAKTAnmX9vEn43HPwEywJquLuCHr6IFVN4Op76nuWDdIwj/BnqgQ2+09adiBn
+Atl0YsGyyTh4o7/vxkhO9uEbff03DmU+K6/eXZS/syYsrHZnfvGuKhnJLnyYnnyytPRJQD1c+DAgL5SWXqBNU0TxuquDOt3g1XXF
+669t0uk2XSMs6+I5s0xxrWI2Sovn9xbMuAD4PH38Oej8yBdtbV/QJMhr3hIdvaWZPg4jTC+xxluu9W25UjOS0JuRtCEd42yYsmGx
+EWcuRAjDGfIxLI73/wp7IMPoLwPkOvo1ffoMl+8fxFzuKl66cxnictfSWS4LpN6vdfzb4X+BVYbTlxGn9sQSpGPBTEqM0lHMN3eW
+3RPgs4c/b09PkseBnNfpF+mTzz0HxMs262K2NtIfs8YrX9hW+Ui4r4tp33yYYjoDvzN0J2Wticc2kI5W7UrEeTg6QbyJg8hpr8YT
+ziRTbpDvRs4m4ZYVTD7hbtxYU/d4d4xu/ZNND3/ZcVm3rb5mIFqc2ZfffW5VeMLAUyurXhgruayq6tNVbTGAJmmqVuXmkVq9ITt7
+x4rInmstGWsNmuVxQUlahbMwZ8XG7KU7qpUobtQnrdAJwpZh+kKRDPbj+DFb+VH76YBn6EDkeO78yHIYxVBbEBcncaxAJ7NLFa9a
+SweD/Pbyrl+27vlp6Nms/ZVV+7NY45Pih2/V1996mLw5KW7Zk5CwpwXXjehtJoSHyUakQAh+BCPgyJumL0+ZvkILIY1i3AMg1Gj1
+/YC+ORAEBuQruRhazEF/pFw+9AGCI8DZ1/3T5+gHTtPv8Pn0tdP02OWvXMFF8vdJqyeukJ+j1eXd2Hj3A0TKkucQRhV69+uM97KG
+Zk+B/wMRKAbFn9IycONz+gB94HNwg5Yhf/EWDDIFmwQw3PR3+DF8kwC4+0Y9jZ63stCO3cz3oBN0fUDbPEfboGe84QeTTaZPoAe5
+A8HnIvhOvPotNR4qqXmA6rx7m3Sb/In8dfKTkZEd1LrRLXdXYwnvpq/CeexeRg/IUSBdwHnPPksPsnuH/+gY5lxEML6oBg5nvCkL
+EQA3mR4Yh6U97MA/3kZ3beirYAODgSsXID1K7W1AJz1wmfX18O8Jw+xBBKOFN0mepS4gzakCrH3m2UeBfy/wgzfB57QrvGHyxfRQ
+U8vIAwSB3yXAmeWByRXmmj2cugVusc3XARfJz/m5MZpmE/QtIMLZG/Lp31IpyH9FIK7ZHIuhYIuXztaf0wsAWQ+fJ0Q5GVOZM7aE
+EjXSboGtbGtewyMFcagMuyCtTtLVRkxENo+Vt52v4XKfs7WC7AOp3VkBQUVx2evEttYtCxYEq3N25uf2Lw3K0ZbIQlICVS1FyrQj
+q2krRWfAQg+FLTjpHJoUKs2SJMi4XAKaLVqA+OATgdi/26P3Tsd/JuXkTBcN2CPY44QIu6Mtl+TJxldHV4SF1R2uqjkkJ6HNSfiB
+W0xdqq7Gy4PHtvLqKkhaEevBJkwvxXgJU3e90s1ru7YnQx9LUj3Qnpe+vT4qxMcrgPZfMD86Q123Dcu6CEntByQ1MZIZjtz/bf4D
+NTFNCaxxVvvllZ3n2yMi2s93rn2mHl2IbkzMXhnruiR25QZFibr0kaqcfS/U+9W/sC+n5omm2Lro2GaUWuo3N8US0Nwb+GWGe+Y9
+fCc+WtC4x8ek2vhljD7scacPE1Cibh4pqzbqpJdOWiM51JSMNKsvCXR1SYXtXiyK6+JVo0tGrRDEZ/cru1KFgkgYeodojRZ6Zey5
+NsRL31anTtFaWYOfvNx9QqLqt+PIgHn/F+LdHcc81izXWBcCJz5DAmrBoeVjVgaiDqY0X1ivSxk4WdB6ok5m8oKOvMz25PJBaZOw
+boSuhK6UtKEkankyz8bRuOVyi9+G6zsS07Y/15IZr46rVqXFLpWXRsI9tgmDefJlSV6Mr4GvsHmEM7J11IiQSy2FL59jsVgeqvLB
+kYlTp7IfaPCIdrfhyV0isgO++op8dFvLqiOZVlb7WVRwfkzLNsxRGZ1N/tOsTfVcbylWTjd7EQtz1ct35IH7yJpMPN56fWPY/p2S
+sri9hrxevTTBWFM20hQR0ThaUX1AYbopiEeC7/BisbiLvZYhwccLKNXd29tfrhVm6hoytDF9xSWRAiz6NrM69LEA0JUWLdjYgG9F
+01oAxFa0oD9B9uCCM5WZTgbycMyaxSsAeTsdAKoj5Wm9BSGXQkt18c0+ixwmkKFPAKAz+hfvXWGKgH/PrglWSd2Ek5NsLAts3rWs
+Fy2zC4TjntlFziXb6ckFovwKpQLu5kJQjRUy9QydBPLRs/Y4anAtcpwV41xMuy5F9ZQ4x/IBN8TBN8yVO110IqzxFZv1Npy9FMst
+Rsm6ZUHPcEwtYBN/zRz1FSDtMzof3LhFb1p1iU1MlraBSlpt2gR+XU2vZ2NpHUZ/ciw+ED+Sg8DuIJ+K7w2huLUaaT+EuSflK5SY
+TrS4/ipWRq4zMgbxl8ZZcmNGXXJvsBd/vp3igZrcjUUhl8Jr9Opi7cJ51ET4Ml1Gg8CWdJ78B6Vq03qJ/IOEEnt7bVJQyZ5qUzi8
+VlDl62cIdheYQuDV7GqkCd6MdhFNLjM03UfDQDdxmk2Sf1IwSU1OUqqNFPVnDWPtFiIfKqdSmHyVO7flAmc9CO59TWd1hXG9Tza3
+XOiLi+s739LyZF/chMjYakxemSwWG1eiT6MI2vNXXdubmbn32ir+qqv4y9Ut/PTtDVFRDdvT+WnbG7XaRrPf2EKXUu5UCvZgM/1e
+5LXN7IUg9hAhnPv4b8o9bAVy3KmJcuTCgOLwq6N1ykue+oZk5L6dHUjKq6MgqV7vCUVmr+3pEWH6jXWrHcTqkSffafHeSwSmSTZb
+k4RIwpSU0KXkz4gSJ8IPy3fu6sY+VSm1n1nes4tbERqTWlM51hihahp7NUUvtzpp8vXU1ycVdnnb87xrdckNek+6FJJyt9kFLBSo
+6++IyCs8LI+0GOiwZJGvRNu4g9EwHDZrggCc2SWLZCEzq9oJDgO+r4u23NODO3GOAr5r8xxllPZRFunj5Rk4OUWpugGMSbImLH3j
+pxEuOTpBxvFfZ6yWVieu2SwJKylcsSJ/Z5UivHZPwbqL5RPyKoOxxJ+nKE/ufzQrovFAyfYr1ZeotNbw5BoFcPeJD+dxZYmVsdqW
+vNDCA0WB2WHBCT5uwWJPe7eszlx9W3Zw9YP5yUu9fXSYLuup72EuK5pwZjIkS7bAt6QY2G2j8AUzXvZUuPOlC4CTPjSuJfbKlQlK
+tc1UqgxzsCb3cxYo1tbBsW2AQ/+BMG5CnN6mVGaMc0OfObHFLCkVpPDSE1RwQnpr6vpi6YQgXC9qi9cCMcm9e2VFmEAUVHqwDl4y
+xRlKlE5BWP2EAK21pxDO2Qz3Y8AF8/9Gd22lOyjV5AukGns6Apjj3dvoG/JAi6EUcDEs+v/Fu5N7AfHmRfrKPvqPKWI/jaAn3yd9
+Jv9Oht+9QkonXzM/jV5GvoK+4Vqcy8XuC+dzANj88PNNehTUv3fnzg1QR49RKroNbDZ9a/oQ7KOXQy/ohKl0opPIcfQ0OuHiNzN9
+NjHjWpVK8Amwu3uFTrGTJK9IdIqzBVZCTlSe2smHXoOIeY/0u+vuU5Qln0/tA6TAGNtABSGcuKl0llLdm++SZyePwizTOVJuOjo8
+PEg6H1g/+SmmQEvvgmNsNeGFTpAOkdNg2k7oCx60BUFmKCoPVchxNIYd4vZ8H5+cHB8fcUGqePBQdEBRUnNF9CG2usX72a7rlenp
+wSFpGVWvZ2ypcV4p3nyh9nXD8oidvfXXay8M4feN0/8E8XM6EfF70ewohv0MvueIaFmJaBEjaSjNDgwJgueJiWJbZluzA09MlqN4
+0yEtIqCpUntokzi1QJyex2KzWXnpogLWKy2ioQu11xNWqHb21b9ee2GzeKVzzZaM16tGgyBJkoFjldczttagt64Hu6mfSCGeAQGl
+Je20LC+OJTNg9EHlDgfntutz+1OkOaHSBPGR4Jx2fd4mgzJTIjP6k9bAOFgToYsLlknyo2DKQKUyMTpUoijFvmmI3g+qKSMTf5GZ
+cLnmeCk3x84R2zlbB+j9FO/udyxjgEYTEGCOkLVT89D8SERImNn8/VpMUvbc6TzCyszjR5OjSu7NSHOYnLWjJDLuUmRoAUpbOwok
+kSzRR/MFsnuTU3PqGuox/+tvbRb5WxJY/0U2ZpspIAhqGdMjFKDyBulFjFY9iV57r3fCAyG+E6JMQC27+5tR6GtvdfSIdeu1tesv
+ll+OrdPErIiyBlH0FSuwxNYRfjhinVkX8NEIIDe/sKz8dGtWdVB0Tz5tGrldnO6D4xySxJesAuoXwgfXkFwZ4lGsxDHU7N752GoX
+4vE4B/sPHIQ4YmwqSiQly+AHCW1L8GLR7vW7wmLqfq2LDd+7YZ+3S1AQ32PbhkFNErpkUA+sHxIsCn40pvXA+IHW6GjzRwws7W+J
+Cd83uNffNTjYLWB404EwbQv9a0t46I5NQ1JBSIhAMji4VRrR0l98tEev7zlaXPIwnpg8bKlXvVjjzMRZwOEJpge7+B+QYudEPkU/
+DUA8/dRl+nmgQQeb3nkTXZe9S++Gn/bAh7vpZ0BM99EeeN1UC/ebJFgae9BKMiK8zORBiHwlXk/GiYkJ+p/kIvKoyQb+iuEKaHtq
+NdonYSSqkEfABjTT4VDO7ONgOiIzq+u/7o3gDAUdzAWcTFmeFpHPzrOO0MT3nm0svbR/6URkRXtE6Ua9Z9pgVf3jHdrIMDcvK04k
+un+u6cCHbRP6wYragWj35E21TY93REWp3EzvLHFSyNxThlYsNThxVRphxubqghEOJ3hDUe5gsSSg8uhqmFqvdQ0rjQyOD1e4uelL
+NxYltvs5oUAf3F+UubFUVnl5yLg2SVWqCk0Ik7q660sGipI7fHkwgj3PJV8ValDJ3JwXs6xdClXB+giluzOSTRX1C/yJdYWYh7XD
+nZPJes/5XjUzOzk9s8GnwJLB+lo+kRYK0X6Uf5hnyVJCjysORyYiMkUMFiUjSUt97X3PQBLNmPGYUhpKOTnghiMl9PQSQfL1XWcP
+LD+UnX1o+YFzu0oKY/KDgvJjCotNoPDh97u6bjxUWPjQja6u9x8uXNnwIgC7dwPwQkPDC/TU7t301IsNMGdkpPzxlStXPl5+eKQi
+J2ZVUmvyqpicf/R/9Whp6aNf9Q98caqk5NQXA2Ng4SvNza/QP4+N0T+/1tLyGliIZLMbniMXIrvxwr0pYOkhYGZmWgg8MTqb6SAI
+RSRjKeZ8IFQO8ynSoyKuoy9pf3P9YqVffOoR41BRTl/CfNtH5i2oi0wVqbX+ua6AnEdRnoFdNYk1Crl/pLtctiCuNlLTWUhfkeQF
+eAEfD5mHf6h4CSCmppAF7yOryDOEiHjkDxOy+0dA3JSJAMRa0EE+QwpwDxmYFxf5zISpkxTQuYDzIEERBUg3XyHd2BECQot3Cjkg
+YXsgWS9EovZAkr7XSbCEs93W2XCIeiRM3BFLLRM5YQEWOxBNi52+hcW+EinnV0Y3vyLVwIqHtwJexY6U0JAFdr6Lwqysd9qQsf8e
+8TMEeqbGDZId09Knn5+W/tifNPQG/TiZFtaco8hxt+YsXBxTqfCO5S90KXWSGeJ7wRK5OFTlgqSwncUng1iPTO/wIINMZaxHtm1D
+ulxPXoY9SJd2xGJs54zWZvY/YY1ZNgmt17XGx7fExbXEx7fquo0KhcGgUBip59A+Hvx/VXz8Kr0yMVEZlpxsrrEJQP6H+hdaP3b3
+7lgxv/8/9N5j9Bqw7hiInvwbmTtMl4PRYXCYrjRF79+P6I2Bh+Ap1lO46wtmdl9guxLOoZDDgadMJ4FHoIyvjUjSjyYMFOf3xgXn
+RJwmF/fWATu/GLlTiCY5PKFNr6o1yAsL5btwjIqCO+AhhDvUsuvir5hnx2szAw8EyOgV2GRJtAJtfHjSSPK6tNwNidFqipxno9Wk
+DeUmbcoZSYvRGcR6SRZVvUTiERAZ6h9XoZBWGuRLXSAgqUX5WsMyhWRZeqBaI/GT8jE9XdQtuISpVXGa2PX8x/S/KdSso2/hu4dQ
+7fIjpcLaATMJsKWMsp/pSZDyiWNWvurY4uQIhc/Fi57qtKClKz1s5+GifaVGKHa096IDWLdMu2rW6VyUoXxsE3HoldHMZAb3VDCj
+WAQCMvpS7tiHzc0fjgF7aLX6nY0D73RiSvbAOrCaNBDz7vWHe1TMXiAVvGneDBQVhWBbaSM4SSBAgpBKOZa4Ip7eFzjcP19VIk5u
+TuIEJQV66sPkNsm5wUal2wrHAKFAxKXMUoGHwE+WPijeciL3Bj8dfh+Uo17xd3BpeF8rARHMWVLM7PP7X9vh15V1oHb5gczM4drl
+B7MeEqerI1PFPqnqyDQxxU2vGSsoGKtBH/n5YxfT1aVhYaXq9Ej8gf1LDXGAXE2eR/7l6AK8T+AoWE7g69kEwdrFeowQE2embsFh
+9HkMLCKsEMR5+J4ZIg1BXDNDHCO+R3cw5LsIkkM8QbqZIZoQxI/IIvGz+80Q58lQAr/lHCGBhxCncfQaEvcsBEQgM33l2MIZ7tDp
+tPaUGjg3fwS70eTfoPFLDpFVJkRUR0+A+onWdRfKDE2RXmK7mck/PF7aXhkbmFUZb6iUBhTENz+Sl3+yo+BQv0pozAMNloQTd3x+
+QUTlIa3YEQ64hmCm2Sht4eKDJAEnb3KLnenV1z4nm8mLJqMjmrVc5L/sTucOD4Myeow1Pkz7DZt+BB3wtklorkheJz+iKs37y8QA
+KAHgA8ABb7SDRHqiHRhAQjs9ARLb6fOvd4F0kNJNPwFSu+kz9OkukEGQaB73EMuV9T2KRHJsz4BZt5a5nLlFzCQt0/MrnA4CMF3j
+I0B0BTWRESRA38zTLNdRB/tQBZ7Y1eSrpGXbdwZ7yZR4pLX8fAIENSY2VMybF9KdhMd3XsL58Hl7W2fTB17+6gQ84mJ9Tzsvzvlg
+PTPOc3f0OPx1sDobn+NBlyYCgofvqsnB+TYBgeZRV+3J6EWgrnhZdnzY5FYXO75lwneMIKgi82TTGXfWZuZ7Qjz0mhn4C49NAKfR
+m01NN0fpbyfQ97p+tbq/jjVOf9BwuavzcgN9hfy36XZqd5xuTZplRrSc7UCEM2tqOpNzxLaEMrg/t0FlTF9hZnts3MXwZTvy6k+U
+i0PFumW1uorHmxQdFS5+wn5dSlkAvuKn8AvNUcaXy6i8u8cpNB5oDEvY25q2Ij1FqsxNy28xtuwz8AQOh5wUIWmS8Nz0/Lb0yML0
+peGxS4M0fdgDpk59x+6hUlEkTsW1BIvZWnL/IYXYTL8l0+T/tR0tx1AzIwuuQD7T0qN+6npaO3+es3fEhbUtYxnhzccbPpKUxic2
+RF7UNI+Uti3NlnA4muMVdY80hZt8yIXctJ7c9l2h0U5lB027P8xtiwws0CmaQ0Q3oHNoU3H8cgPXhpdmWGDn4REam7a7PLUrOzAr
+oUYpy5E56NryQvz90q2sElJB7NpzTW3xkfoVkQbPQfuIYMD/UblUFmIM9BW4gIPuyWuMkct1Xkj7a/DeOXYgWutxuN51miliHGY6
+dzMDASSgmXpm1rBn23pT4SeGwqRPG47zuFX18WtOVdeeXhsfu/qhsuaCQC8b29BcW7tbhstCUQv4t4O7V12CoSXFV4wabNHVBhFr
+6wOiDIFPb0WLE7+TvvK38q5X96QlDTxR3frUxgT5YqGfaEOJne2eynXOPLUpQeDq4RNatCFT016mUtfvzql0xRrVE49SgdQlc327
+2BLN50QP+znfqcBJF7BxOpxMf5ILL14EqhCtNgSFlkl6esMpzqpXUzJqgnBHcoqYWfuMgGYXPiMnJTAvdT4wi8cbOFmkg2DIG1We
+S7Rxcb3nW2pzEruqfATRcbgJ2lxgME2IxNbzQK4q2dz4tKUfk8eZW6EiFjXxmosgydICFe57zVWceHWVuTHqu8fUiPqhStv58EkP
+1Ap915TmbGmNhnHw2t6L+qI+KKw5mXdx3TvWYgL7/cZaIFVuSMG90JnuKLw50xXlLRFWxeOuKOr1v6LxZIZaM+1RzgOT9rON0Tte
+rqIARJClS55NqWY6LtkTTJOfqai/41ij2LrYvFsXeU7B7G4ZywY+7EBYlv1avOl2nBLuMe6LJeOZrTTww8knYvcYu1/bk5a2+1WQ
+5eaRlJq9qUwqK9+UnZLk7sZ6aYEVs9VmhGObO/bBBhCy4YOx3GMUxQlHQ3D69fqjzeFWJIUtqQxRRCDfICF0RMZc3zB3UnN/b4Cc
+F14Scxvd3nP8Aaui6bzW2ZHLizr7xdmemJieM80rz0XxuU5LtMcKmo7WK0xS5ASMLUkNe0MNkkt3vb0MTQebDF5eic3G5CaDkHSD
+tormpeqqREdr5AiWeLi6JFka5LhTnrjEXeiO1r++b3x5p3n9RwWuCcmBamQmjVFRjbNtc3sXQw92ArjhNHWOTgLVSBn295utPDZh
+3FHlLnO1tYu39VfjsVJ90+E0js0eVPPm4d7QSepLksMm8CwccHlCtCDkXGj3+8F9e4f/wybon2xOnJgHFmJNr6bOQzE7nVhAOM9U
+AJZYMDf/Xx1epi7oNv+piJZKo/HB6lMVh3XmqIrkrXkB+vigYL3ektGSUayvMT7Ad2SsZbYoNOsEPt+jKlNLY2Thfn7hPeHlkf7R
+Ko2Pn4r19TxDQ6Srt6s2mG1ojEJfohGSyWPULVo/O9M2DTw3OjPTBqYG6taU3fRdKTqfTaGnpiY3o7spiBoOsXMS1SIIvghh281u
+JRzRiVBsKbSVlq11pt/7gVTr5hIU6clB+hWXqqhbw6SduwvPlWu13CU03i85HgvVFEY/SHOnVuHchTXHi5nCplsBv87Osh6EQ9QW
+Ujhdf1FbJp1IIbPDHg6xrs7eYV29c9Vyp4ySgA62I2FjyW2V5iZsmW+KsjYolJKsVvd3BRpihtK7EWwI5QQS2ASGBUxLFGe9IAEB
+Lw+WsIneyP6uIAy8HuvHi/4SRBJPYmjvOdCRZuiQJ2swcELMlvTlKDetpSTwKUSFiBixwhnpCIg156yRlBPcyCbQ9dH5+PooiEKy
+hQj3W7CS+BXh5t2DXfDXF4FPmc9fj2m39IUY9HtyTs5+M0/q4CIoJF8hFmAJMCJmZDxUX1zSUF9S3AA/9M1pasrxzW5sRDTtmfo3
+9TrxFt7LSxF45y6YIDBtDmQegfHVEQegAOXwiGxrKARyAAU0DeA2+iYQk+fpFroF9HPBBgSZjyDtGEglbsPxQD6ANL0NiOmbB8A2
+sI3u4tLdGGck0UiuYDH6A2JArmB+5/Mp82sdPKvBe9FfJKRIGrPDEOS58BAbHThlnzPIxi1R3AdknBcZrGoIdQzr1LRf2SEWwTNn
+zpylPMU7XuqIWqV2lDSp0voKFjmSYC3dC3rpXshfVNg36LDwAduFhp31VQPdgz09pfW7DPa2RxZyZcvS4vJ6BrvLDGnLZEhPy8j9
+VBiu/syrwJ4Ukrii5CJPw2z1F8rJj4ZkW/KbdmxvMp3ZU7Cb3A+G6FVgM90GnZGgtpn+AZ3T6TBwNR1xeRwOkd/NWjH5HarqsRVD
+wgMty9fQ5H4RseS+s3tmdO+Nw88GNL4vPdOZsNngHrQ6ob329m1omEAD/OKuk3lCl8MOghV1xdu2WWYzaoT3W4TX9U9YnfgIlUj8
+p10BuY+0BfTvT5gQeSbLo5cGzuwLcFhid8eHVcFmWTObAyDGy5YivEFE6H+510BwHw5wfwNz8ddNCGBHyZlOw2aDR2CnHjM1QTdR
+uyb+vDHhHiYns9BtJhKDGYqk/x099+cdE3U/gv4iDkTTnwm6j3gwWcjZEYWmdzk3rFYibbsRnoQIT7q41pCU4iaxJVpwpNNxBFWq
+XLmQx5VLeSQ6CsmnyWcno9tfdvaNKz+2d+0T8BWoEYeFy32C1a7XXl5LsSm4nrw+KZmUwI+kmsXefRm9+3u2KkO0MpnRRaBKoZ86
+edKUQFE2BykKd4oIAp4iPbB1ef8fdIp6/6tGEYpiSPg/kby/dCBI3mwHIn3qP3CU9GA6EGCmYTStD3KmWJku1uGoYUPe0v5EQ3/e
+0g2Jox5qVFl7eEQFBES6gzeGWvYaDHtbmA/616Ox2b6+2bFHY3P8/HLMnSv0tkOkx//nzhV45X+tcwUJBfrzNMmb+YUQGjMJxMwv
+hEj4NNrps5kDOh8YWXgdBKw7ebIasmg+cF9MT2JeChEvx9GzAmQ75t8Hce5tPYqlTrO5x489EvAx/RCfmxSUvTpau64ycUMWdYiV
+rDJEpRiUYaDSA+xcf8rKSdOaru9KklcnSEMy1JqUJYjGHPSeR0l35CcCLb8FYn4KNPdlTJlAYh1ZpIqBINdpXvmAwJnjLJQnZDeH
+6dfnF29KCm8+elYUk6Xx1Mf563hs0n19eESA2sXRXdeRaOzSG7eWKpc91BJJe3qGJYtEWh9NksDFigC4QoFHSd6c3/vAo/SDR0Ex
+HUHy8k3xcE8frn8RtWOkB6YWP+GN6DMXvszwBZuVmWpGzXN/6mMe7jPnllM4Zhw4PpAq9oqSuXnpex7oSRB6SDXeosNeUb5+Gk/P
+KD/fKCHPVe6t1LoqvJVR7ydVSaVVSXGSYBdn3yCNvlwqLddrgnydFwdJwoSSxYslQs/QxYtDQYd7oIsixC3IJQzbQOLUH3CvmeIg
+FCuZbuTsb1CxlC01GYq3c+jFcG/aVna78th8V2lsVmsEEm/RBp2s7uFmO+DjjXJBtcBdkx/DpTpkCh+l08Ilse0pxrVGlPZKa480
+hoOrEcoEL794Xx+tyNOFTcDJh6i/0a+y9xB8YvFM3nnvMALPVpRSDr060z9RoohWBXiGZPklSQLjYvwEofTP6089ydq7KCRDIhJJ
+RbyQTKnIWxrz2Wc420mHW+Eo6yL8H5WcA5QkSRCGI2u6um9t27Yxs5q1bZ+ttW302rZtvne2n87G2qy6yD9jcnrm6vS0L7/5909H
+K6IidFDncTCp6SxzTrm7mRwW0oc120COCOnGZJd7lMlRIfX4f22B5piQ9qxZC+fjQlo5UWcxyAlD8H0AF5lRmPLeJW5LVZgT5qjH
+bftJIUxzdTvpcx3/fRaROXtxn6aoNYv79OGZk07DhyWk1kz30p3ImYK6yBy7tItUhbJLFryzK0EU+gm52EVRjaHTOWxFRhx/Mowp
+ysjidPSGbthg6zKaez/bwgxn+TJnnK3NiKuyzAsl1Wd4hXzf1MtEajkldY8UoURVSdUK4EPU2UA+j96O4cUsj9Jrql4SDz+0/Gm6
+G6NfaPl81UE11nUvXhPUvdQnUubn9L98oc2X81+LYYYMmJo2xbfeBXu0euqfq2MaVE9bIdVX4xPSFq389yUzvm/qWyKNeRZlzOrR
+PdU4gPM7uUA+jxbF8Ecsf5pe09z/hkiNh76C8fe3QL+fyOkUw4dQTeh/Z95cOPz9huCfM+8Pf8Of9l+EDyoysGtVZdfuYddQeRGp
+w7yanIpOqk4AH6K+D+Tz6EIML2E4/H9R8Uk87Fv+tMoPPfLqcbrqSL9lVa0APkSdCOTz6LVkHn5o+dN0Axw565GazOPFZ4aqyRx5
+2mFi3lT2kVcsNYf+sQAepnkvWOpesDT6dMjSN0DNWNbGePSxfD7donQ6+9lrguzn+pL9/P9vgU2JHtBlUMpbUAjJJn+fI121gls+
+1R2YiryT4MRp3zf5yliJlrJyr1EQH6K6BHBeuX6Wum9Y9dMmtvrspR5zPeazoE6c5bF6CZFTK4YOycfU/5BpeaHm7JfwNT/BPNF9
+zfKn/a6amyxQ7FYns1sDQ0yRw4nxdZb5fEAUwIeofgGc5/OkpfA2NDo4ZOkboGaWy+CBvDt49JQ+3wjkQ1S3AM59DrAU7kzhPh9q
+5LZB3Vdc8iVzrQcP09NdNUXdYaQ701KiflN1lx26CJfmwqtjh/Sr78hIRRtZon491Yz5Sub93d/NqoMXJod9Nugqs0hV5pUlcpVS
+VZkvZH31yFLmHYTnVktthKqFCAWubuImS4a22T3wPpgVapigryl8QpLe+RT6buJ/FHrUIyFy1RL9HEQiZH1C3114RyIbcYrZyBKl
+s6qeXf0Ldk+ivUNMUfOC0SSIyzSMBrmBcO8nvChWE7/4IX5PMNx5B3Eav9SEFfOpwkeSYo5f5CLjmU8Sn9/VeOb4tt71mc8QXpvd
+fVNFhPHUA090ymE8yL3EeHobrmYSBeiHOCeD9MzzEgXE10S6q2qmPoPgs6CXp484YUqHNp7Og3YYbXzThvYatFGDiPFUkX6XYzzI
+Mod/R+F7oC/gbdDVwPZdxhI3zsReb4Ouy0HsBQ+1BjfvSk5a/eLQJdXcxurJRg++iDLr8Xi7Qs3gX0Z8zlFafVvY/zr8WwqfQ8nv
+F96A3vgcV51sVJxs9OCTjD/0Fa0+SvNUMxsvL9goGu3Jpw3VpXfgXsG4xD0G91XMvwpPxF00vBVlZL7J26nGYfRGvyTuWUrDfKq3
+S1cpMG8rvB1mNYxXMy14NcPd3CYGeut13jviGnhote/bV//TVr/YzaJa2pg5GXrw0BzMdra3QVfV4W4Zn8vmVHgbdF4y7pbhnWLu
+4kmjh89vqrmNj5ONHnwK/DN5G0On4B8vPqdI4XSGdPYvTie4W8AfZE/zCaOHzzHVzJ7myUYP3sr4Q1/U6qM0V9W1kfYC9NitwiGm
+8swTJ6yzjiXi3EM7F9ryRBBuY5XNMz7QzoP2cm5XMZ9Tsuv2FG4Xc1/jdn608TwItAtAP43/Xgjt7Pg76qcR6cvZd/jdmaNeB3ep
+tXD+NyASJ6rHAiNxIr1HJHdjOla7pKz2CUqLXV4WKgJ9M+E7/VuifxP60in0/Xn3r0LfQviZJH/3EejLG+4Wgn6Ot0vG00b068FR
+Gx2pwrySzGu0qsIclS+RRszbC09UjeD/QNdSGz18fqNe8P9NV8oYPfjj1FzGnx/6ysLPU1q5TQOh7xBzm6APd4K+ioz/E/BZzEfg
+NnUU/kWS3k0DfVXhJZLnC30n6Xc6uLl9v9rbd9JNr7pITDmP15jqMt8xeI1BBYl7i3kX4YvsvryDfmuK/zH4T/J2O8vQbzeZV2tK
+x7wjR4NXECVqif5t38c+Los7BX134dPgX5Vv/VL41xZ+Evubxtug6xuY9xCeN+bW/2xv/cnQj4hyqKVFrKwrt+8gbisqENzvmfcy
+t6/APa32dunKW6OG+4+UVqu9XbpewajB24LH865chL6e4e5l8HK8K59C31t4Z/Du7D8S+oQUp7kn+x+Evp/wwcmnBHxW8in5E9Ju
+KrEAAAEAAAADA9fUDFmwXw889QAbCAAAAAAAxPARLgAAAADljVAD+hr91QkxCHMAAAAJAAIAAAAAAAB42mNgZGBgz/nHw8DA6fVL
+6p8XpyEHAypgzAYAcH8E3HjadZQDsCVNDIXPdKefftu2ubZt27Zt27Zt27ZKy+La5t2Trjd3PVVfnXEn6ZPY3qiMxCN44IF5GxNM
+f/SQi2gm7VDXHUMNuYeqQVVUN2vQ1ezAT7YhPpeeyBsMwhcmKX40n6O/zYP3+H4jMouUJeVIEjKSdCF5SQNSObiCLsEC/CLvILtU
+xnD5C93sduSK/Qt1XHJ8IQ8wwyVBc5ceM6Q3qc3rRmjplmCG+QPLpCaSOMf7+TAjhu/qfdcBzdzrXuvKJT5bjwKyFf+6v9HbfYwv
+Yj9BGidIKXvxluxCMfMVBtkc+IWaYIsjvR0NMS2QQkqijrRFb/kbZaQTc0iLMmY70vBeBamOPsE19A3ORdbKm/58dKygl9RCH+mP
+0vod4y1nlvL6G+pYxEsN9LCn8E2MxW/2Dn61O/AhtYRZgvTBDcynvu8aoBPPe0kF1noaSrkl1P/xVnABg+UMStkSqBKTA6XtYMa8
+AVWkLtrF5OT9WehnHqKTZEMFcxkZSTrTEa2kB0bZc8hsPsJg7mlj3m9lJ5P1qMb9LBKTBPljUqC+3YnMsS0jVyULSmj9ZCWmyUb0
+jtmIfLIAbWUgskkP5jUaQ4L7zHUCasRm5loSWWw3Y6aZixZ2K1oBD6YBD+tSe1LLkOTyPhBMJPAHuJcTY9KhfzASFcjfwXB8bw6j
+hjmG1GYjzxehlyuJwaYaapOSdhJSq4dcgOoyCNOlHr6WXkgTcxgeAIhLgtKJebciBTR/kpTo/aIkFclHcjK2SfrOq55zrbbqTxMT
+Way5cv9S2RYoxvpBPe7K4gf15kuhV71Po6hPIyfp1QXUc+RI1KPPQ38+jfcnPfhS1JNpnyW4H9nMeIdS95GVUS8+D334NN6HxMfO
+/zLGpfx+lOTDRPp6kMbr/8VeUj/7fqKnfYz8XntIfaz+Ub9oLuoV7TP1eqiaj67j5wfniu699qz2jdZO8wrV1445Pa/a87on1MmM
+ratfizmFGsYUarjm8/rCXBqEETINXaiVqd10xmifR3NnnNrTfg5xFvj7nAHOUd9EVHUOaVxhXuH34UzSfyTWsVNYR51NOh/C+aQz
+ItSwdmGNmXvXx3hRZSEAeNo8wTOAGEEAAMCz7d2NbTWxbdu2bdu2bZt1mrdt2/7uZzAMa193FLYQu4kV4YvwQDyR0IhexFxiK3Ga
+uEG8I/6RFOmSw8lr5FeyiBpKzaC+0yLt0k3pbvQoej79iOnFTGfuMWEsySK2M7uBPcleZ3+yYWwaJ3BNuMXcWS6cl/hZ/Fr+Iv+M
+9+PzBF5oJHQR+gsThWXCJuGgECo2EKeKt8RoiZbmSiel51KoVCxT8hh5h/xNrlL6KouV90q4SqlA7aZOVfer11RfNVoD2khtufZB
+y9aH65v144Zr9DYeGzlGhSmae8yT5lcz2KKsUdZM65h1z/pihVhpdkO7rd3LHm3PsR/Y/+10Z4qz3/F3J7s/3VRvkHfcu+rFgmlg
+KzgFPoNokAUqIQ1bwT51R8JpcA08DG/Cp/AjDIN5CEcOaot6oqPoDfqJUurVNgQPgIHEQAAA37Z1t8kqb9u2bdu2bdu2bdu2batu
+Z5Kma5xuTcRPXiovo9fC2+Cd84L8Yn5Nf5P/HXxwkB0KQEmoBLWhCbSBLtAHhsB0mB9xOdyG5/AZ/ptoJpFJZ3qZYWaSmWdWmW3m
+kDlnbpln5pP5Z6PahDatdTaXLWYr2Xq2le1mB9oxdoZdYn9jJIyHKZEwKxbAMlgDG2N77I3DcCLOxZW4FQ/gGbyBj/E9/qZIFI9S
+EVN2KkzlqTY1p87Un0bRNFpE62gXHaNLdI9e0TcK4piclNMycSbOx6W4GjfidtyLh/EknsereBsf5LN8k5/yR/4rUSSBpBGVnFJU
+KkpdaSldZaCMlRmyQFbIBtkhB+SEXJAb8kQ+yB+NrPE1tYrm0CJaQetoC+2iA3SMztAlukH36Am9og/0jf7QEBfbJXfWZXEFXBlX
+3TV27V1vN9xNdvPd6nCs4c+5AAB42mNgZGBgzGZYySDKUMbADuQhA2YGRgAoVgGueNosxjUBwwAARcEX5qzFrcxcRRVSK0UBkRBN
+2YP/pgMS3lgYdgBkRqobxIapm6QUusWZXLcZ89cd5jx1lzEPPeXOvrsxI2SqL4jp68v6sb6t+iCLrAiCIAoGN+kd7g4b3F234+4+
+tyeAcXvlkb/S+rHmtqRwS40wOdJE+SbumSQle6JIhTza+JbGqMm1OEpUOWLdUfQep0DCW4Fax49ERZw1aYUkb54RV8216isuq6sN
+a/3yVVGdRg8EbPtrg012Ofa15X2LvSEPwbCHoR/XPDuuvc2IOfwaUp67SrSlnT50cth0BHxI4p7D2bxQ8cxoiaKeU+qeKZl1+V4Y
+61pS7yqo62WNqMo8UoqOJDnivX5W5ZWhSqLaw3I75n3xB1Z7WlsAAHjaY2BmAIP/WQwpDFgAACofAdEA
+`;
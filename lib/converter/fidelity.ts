@@ -0,0 +1,433 @@
+import { SVGPathData } from "svg-pathdata";
+import type { CastlePathData } from "../castle/format";
+import type { ParsedElement } from "./parseSvg";
+import { transformPoint, type Matrix } from "./matrix";
+import { approxLength, segmentPoint, type Point } from "./geometry";
+import { pathSegments, type ConvertedPaths, type VbTransform } from "./convertPaths";
+
+/**
+ * Geometric fidelity: how far the emitted Castle segments deviate from
+ * the SVG geometry they approximate.
+ *
+ * Both sides are sampled densely and compared in both directions, so the
+ * max error is a (discretized) Hausdorff distance: it catches curves that
+ * bulge away from the source as well as source detail the output skips.
+ * The source is evaluated independently of the converter, with smooth
+ * curves, quadratics and arcs normalized by svg-pathdata.
+ *
+ * Errors are measured on each element's outline before fill-rule
+ * reduction and clipping, which change geometry on purpose; what
+ * simplification changes afterwards is added on top.
+ */
+
+/** Fidelity of one converted element, in Castle units */
+export interface ElementFidelity {
+  /** Index into the converted element list (after stroke outlining and compositing) */
+  elementIndex: number;
+  /** Largest distance between the source and emitted geometry */
+  maxError: number;
+  /** Mean distance over all samples, both directions */
+  meanError: number;
+  /** Segments emitted for the element's outline */
+  segmentCount: number;
+  /** Curve approximation tolerance the element was converted with */
+  tolerance: number;
+}
+
+/** Fidelity of a whole conversion */
+export interface FidelityReport {
+  elements: ElementFidelity[];
+  maxError: number;
+  /** Mean of the element means, weighted by segment count (at least 1) */
+  meanError: number;
+  segmentCount: number;
+}
+
+/** Default target for "auto" tolerance: 0.1% of Castle's 20-unit canvas */
+export const DEFAULT_TARGET_ERROR = 0.02;
+
+/** Tolerances tried by "auto" mode, coarsest first */
+const AUTO_TOLERANCES = [0.4, 0.2, 0.1, 0.05, 0.025, 0.0125, 0.006, 0.003];
+
+/** Spacing of comparison samples along curves, in Castle units */
+const SAMPLE_SPACING = 0.02;
+
+/** Sample count limits per curve */
+const MIN_CURVE_SAMPLES = 4;
+const MAX_CURVE_SAMPLES = 256;
+
+/** Connectivity tolerance when chaining emitted segments into polylines */
+const JOIN_EPSILON = 1e-6;
+
+function sampleCount(controlLength: number): number {
+  return Math.max(
+    MIN_CURVE_SAMPLES,
+    Math.min(MAX_CURVE_SAMPLES, Math.ceil(controlLength / SAMPLE_SPACING))
+  );
+}
+
+/**
+ * Sample an SVG path in Castle space, one polyline per subpath.
+ * Curves are transformed by their control points, which is exact for
+ * affine transforms.
+ */
+export function sampleSourcePath(d: string, transform: Matrix, vbTransform: VbTransform): Point[][] {
+  let pathData: SVGPathData;
+  try {
+    pathData = new SVGPathData(d).toAbs().normalizeHVZ().normalizeST().qtToC().aToC();
+  } catch {
+    return [];
+  }
+
+  const toCastle = (x: number, y: number): Point => {
+    const [tx, ty] = transformPoint(transform, x, y);
+    return [tx * vbTransform.scale + vbTransform.offsetX, ty * vbTransform.scale + vbTransform.offsetY];
+  };
+
+  const polylines: Point[][] = [];
+  let current: Point[] = [];
+  let last: Point = [0, 0];
+
+  for (const cmd of pathData.commands) {
+    if (cmd.type === SVGPathData.MOVE_TO) {
+      if (current.length > 1) polylines.push(current);
+      last = toCastle(cmd.x, cmd.y);
+      current = [last];
+    } else if (cmd.type === SVGPathData.LINE_TO) {
+      const end = toCastle(cmd.x, cmd.y);
+      const n = sampleCount(Math.hypot(end[0] - last[0], end[1] - last[1]));
+      for (let i = 1; i <= n; i++) {
+        const t = i / n;
+        current.push([last[0] + (end[0] - last[0]) * t, last[1] + (end[1] - last[1]) * t]);
+      }
+      last = end;
+    } else if (cmd.type === SVGPathData.CURVE_TO) {
+      const [x1, y1] = toCastle(cmd.x1, cmd.y1);
+      const [x2, y2] = toCastle(cmd.x2, cmd.y2);
+      const [x3, y3] = toCastle(cmd.x, cmd.y);
+      const [x0, y0] = last;
+      const n = sampleCount(
+        Math.hypot(x1 - x0, y1 - y0) + Math.hypot(x2 - x1, y2 - y1) + Math.hypot(x3 - x2, y3 - y2)
+      );
+      for (let i = 1; i <= n; i++) {
+        const t = i / n;
+        const mt = 1 - t;
+        const a = mt * mt * mt,
+          b = 3 * mt * mt * t,
+          c = 3 * mt * t * t,
+          e = t * t * t;
+        current.push([a * x0 + b * x1 + c * x2 + e * x3, a * y0 + b * y1 + c * y2 + e * y3]);
+      }
+      last = [x3, y3];
+    }
+  }
+  if (current.length > 1) polylines.push(current);
+
+  return polylines;
+}
+
+/** Sample Castle segments, one polyline per run of connected segments */
+export function sampleSegments(segments: CastlePathData[]): Point[][] {
+  const polylines: Point[][] = [];
+  let current: Point[] = [];
+  let lastX = NaN,
+    lastY = NaN;
+
+  for (const seg of segments) {
+    const [x0, y0, x1, y1] = seg.p;
+    if (current.length === 0 || Math.abs(x0 - lastX) > JOIN_EPSILON || Math.abs(y0 - lastY) > JOIN_EPSILON) {
+      if (current.length > 1) polylines.push(current);
+      current = [[x0, y0]];
+    }
+    const n = sampleCount(approxLength(seg));
+    for (let i = 1; i <= n; i++) current.push(segmentPoint(seg, i / n));
+    lastX = x1;
+    lastY = y1;
+  }
+  if (current.length > 1) polylines.push(current);
+
+  return polylines;
+}
+
+/** Uniform grid of polyline edges for nearest-distance queries */
+interface EdgeIndex {
+  /** Edges as flat [ax, ay, bx, by] runs */
+  edges: Float64Array;
+  cells: number[][];
+  minX: number;
+  minY: number;
+  cellSize: number;
+  cols: number;
+  rows: number;
+}
+
+function buildEdgeIndex(polylines: Point[][]): EdgeIndex | null {
+  let count = 0;
+  let minX = Infinity,
+    minY = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity;
+  for (const line of polylines) {
+    count += line.length - 1;
+    for (const [x, y] of line) {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  if (count === 0) return null;
+
+  const edges = new Float64Array(count * 4);
+  let k = 0;
+  for (const line of polylines) {
+    for (let i = 1; i < line.length; i++) {
+      edges[k++] = line[i - 1][0];
+      edges[k++] = line[i - 1][1];
+      edges[k++] = line[i][0];
+      edges[k++] = line[i][1];
+    }
+  }
+
+  // About one edge per cell on average
+  const extent = Math.max(maxX - minX, maxY - minY);
+  const cellSize = Math.max(extent / Math.ceil(Math.sqrt(count)), 1e-3);
+  const cols = Math.floor((maxX - minX) / cellSize) + 1;
+  const rows = Math.floor((maxY - minY) / cellSize) + 1;
+  const cells: number[][] = Array.from({ length: cols * rows }, () => []);
+
+  for (let e = 0; e < count; e++) {
+    const ax = edges[e * 4],
+      ay = edges[e * 4 + 1],
+      bx = edges[e * 4 + 2],
+      by = edges[e * 4 + 3];
+    const c0 = Math.floor((Math.min(ax, bx) - minX) / cellSize);
+    const c1 = Math.floor((Math.max(ax, bx) - minX) / cellSize);
+    const r0 = Math.floor((Math.min(ay, by) - minY) / cellSize);
+    const r1 = Math.floor((Math.max(ay, by) - minY) / cellSize);
+    for (let r = r0; r <= r1; r++) {
+      for (let c = c0; c <= c1; c++) cells[r * cols + c].push(e);
+    }
+  }
+
+  return { edges, cells, minX, minY, cellSize, cols, rows };
+}
+
+function edgeDistance(edges: Float64Array, e: number, x: number, y: number): number {
+  const ax = edges[e * 4],
+    ay = edges[e * 4 + 1];
+  const dx = edges[e * 4 + 2] - ax,
+    dy = edges[e * 4 + 3] - ay;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq > 0 ? Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / lenSq)) : 0;
+  return Math.hypot(ax + dx * t - x, ay + dy * t - y);
+}
+
+/** Distance from a point to the nearest indexed edge, searching outward ring by ring */
+function nearestDistance(index: EdgeIndex, x: number, y: number): number {
+  const { cells, cols, rows, cellSize, minX, minY } = index;
+  const col = Math.max(0, Math.min(cols - 1, Math.floor((x - minX) / cellSize)));
+  const row = Math.max(0, Math.min(rows - 1, Math.floor((y - minY) / cellSize)));
+  let best = Infinity;
+
+  for (let ring = 0; ; ring++) {
+    for (let r = row - ring; r <= row + ring; r++) {
+      if (r < 0 || r >= rows) continue;
+      const onEdgeRow = r === row - ring || r === row + ring;
+      for (let c = col - ring; c <= col + ring; c++) {
+        if (c < 0 || c >= cols) continue;
+        if (!onEdgeRow && c !== col - ring && c !== col + ring) continue;
+        for (const e of cells[r * cols + c]) {
+          best = Math.min(best, edgeDistance(index.edges, e, x, y));
+        }
+      }
+    }
+
+    // Anything outside the searched block is at least this far away
+    const left = minX + (col - ring) * cellSize;
+    const top = minY + (row - ring) * cellSize;
+    const size = (2 * ring + 1) * cellSize;
+    const bound = Math.min(x - left, left + size - x, y - top, top + size - y);
+    const coversGrid = col - ring <= 0 && row - ring <= 0 && col + ring >= cols - 1 && row + ring >= rows - 1;
+    if (best <= bound || coversGrid) return best;
+  }
+}
+
+/**
+ * Compare two sampled shapes. The max is the discretized Hausdorff
+ * distance; the mean averages every sample's distance to the other shape.
+ * Shapes without geometry measure as exact.
+ */
+export function compareSamples(
+  source: Point[][],
+  emitted: Point[][]
+): { maxError: number; meanError: number } {
+  const sourceIndex = buildEdgeIndex(source);
+  const emittedIndex = buildEdgeIndex(emitted);
+  if (!sourceIndex || !emittedIndex) return { maxError: 0, meanError: 0 };
+
+  let maxError = 0;
+  let total = 0;
+  let samples = 0;
+  const measure = (lines: Point[][], other: EdgeIndex) => {
+    for (const line of lines) {
+      for (const [x, y] of line) {
+        const dist = nearestDistance(other, x, y);
+        maxError = Math.max(maxError, dist);
+        total += dist;
+        samples++;
+      }
+    }
+  };
+  measure(source, emittedIndex);
+  measure(emitted, sourceIndex);
+
+  return { maxError, meanError: total / samples };
+}
+
+/** Measure one element's outline at a given tolerance */
+function measureElement(
+  element: ParsedElement,
+  elementIndex: number,
+  source: Point[][],
+  vbTransform: VbTransform,
+  tolerance: number
+): ElementFidelity {
+  const segments = pathSegments(element.d, element.transform, vbTransform, tolerance);
+  return {
+    elementIndex,
+    ...compareSamples(source, sampleSegments(segments)),
+    segmentCount: segments.length,
+    tolerance,
+  };
+}
+
+function summarize(elements: ElementFidelity[]): FidelityReport {
+  let maxError = 0;
+  let weighted = 0;
+  let totalWeight = 0;
+  let segmentCount = 0;
+  for (const el of elements) {
+    // Elements without segments (dropped ones) still count once
+    const weight = Math.max(el.segmentCount, 1);
+    maxError = Math.max(maxError, el.maxError);
+    weighted += el.meanError * weight;
+    totalWeight += weight;
+    segmentCount += el.segmentCount;
+  }
+  return {
+    elements,
+    maxError,
+    meanError: totalWeight > 0 ? weighted / totalWeight : 0,
+    segmentCount,
+  };
+}
+
+/** Measure every element at a fixed tolerance */
+export function measureFidelity(
+  elements: ParsedElement[],
+  vbTransform: VbTransform,
+  tolerance: number
+): FidelityReport {
+  return summarize(
+    elements.map((el, i) =>
+      measureElement(el, i, sampleSourcePath(el.d, el.transform, vbTransform), vbTransform, tolerance)
+    )
+  );
+}
+
+/**
+ * Pick a tolerance per element: the coarsest one whose max error meets
+ * the target, which is the one with the fewest segments. Error grows with
+ * tolerance, so the tolerances are bisected rather than all measured.
+ * Elements that miss the target even at the finest tolerance keep the
+ * finest.
+ */
+export function autoTolerances(
+  elements: ParsedElement[],
+  vbTransform: VbTransform,
+  targetError: number
+): FidelityReport {
+  return summarize(
+    elements.map((el, i) => {
+      const source = sampleSourcePath(el.d, el.transform, vbTransform);
+      let best: ElementFidelity | null = null;
+      let finest: ElementFidelity | null = null;
+
+      // AUTO_TOLERANCES runs coarsest first
+      let lo = 0;
+      let hi = AUTO_TOLERANCES.length - 1;
+      while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const measured = measureElement(el, i, source, vbTransform, AUTO_TOLERANCES[mid]);
+        if (mid === AUTO_TOLERANCES.length - 1) finest = measured;
+        if (measured.maxError <= targetError) {
+          best = measured;
+          hi = mid - 1;
+        } else {
+          lo = mid + 1;
+        }
+      }
+      return best ?? finest!;
+    })
+  );
+}
+
+/**
+ * Re-measure after simplification. Each element's error grows by how far
+ * its simplified segments deviate from the converted ones, an upper bound
+ * by the triangle inequality. An element whose segments were all dropped
+ * measures as the diagonal of its converted outline.
+ */
+export function addSimplificationError(
+  report: FidelityReport,
+  before: ConvertedPaths,
+  after: ConvertedPaths
+): FidelityReport {
+  const byElement = (paths: ConvertedPaths) => {
+    const groups = new Map<number, CastlePathData[]>();
+    paths.pathDataList.forEach((seg, i) => {
+      const element = paths.elementIndices[i];
+      const group = groups.get(element);
+      if (group) group.push(seg);
+      else groups.set(element, [seg]);
+    });
+    return groups;
+  };
+  const beforeSegments = byElement(before);
+  const afterSegments = byElement(after);
+
+  return summarize(
+    report.elements.map((el) => {
+      const original = beforeSegments.get(el.elementIndex);
+      if (!original) return el;
+      const simplified = afterSegments.get(el.elementIndex) ?? [];
+      const sampled = sampleSegments(original);
+
+      let added: { maxError: number; meanError: number };
+      if (simplified.length === 0) {
+        let minX = Infinity,
+          minY = Infinity,
+          maxX = -Infinity,
+          maxY = -Infinity;
+        for (const [x, y] of sampled.flat()) {
+          minX = Math.min(minX, x);
+          minY = Math.min(minY, y);
+          maxX = Math.max(maxX, x);
+          maxY = Math.max(maxY, y);
+        }
+        const diagonal = sampled.length > 0 ? Math.hypot(maxX - minX, maxY - minY) : 0;
+        added = { maxError: diagonal, meanError: diagonal };
+      } else {
+        added = compareSamples(sampled, sampleSegments(simplified));
+      }
+
+      return {
+        ...el,
+        maxError: el.maxError + added.maxError,
+        meanError: el.meanError + added.meanError,
+        segmentCount: simplified.length,
+      };
+    })
+  );
+}
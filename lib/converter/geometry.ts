@@ -0,0 +1,586 @@
+import type { CastlePathData } from "../castle/format";
+import {
+  arcGeometry,
+  isArcSegment,
+  STYLE_ARC_CCW,
+  STYLE_ARC_CW,
+  STYLE_LINE,
+} from "../castle/arcs";
+
+/**
+ * Planar geometry on Castle path segments: evaluation, splitting,
+ * flattening into regions, and region-based trimming of outlines.
+ *
+ * Regions are flattened to polylines for inside/outside tests, but the
+ * segments we keep are always sub-curves of the original segments, so
+ * trimming never degrades curves into polylines. Castle arcs can only be
+ * whole quarter circles, so arcs cut short become quadratics.
+ */
+
+export type Point = [number, number];
+
+/** SVG fill-rule / clip-rule */
+export type FillRule = "nonzero" | "evenodd";
+
+/** A fillable area: flattened closed contours plus the rule deciding insideness */
+export interface Region {
+  rings: Point[][];
+  fillRule: FillRule;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/** Max deviation of flattened region contours from the true curves */
+const FLATTEN_TOLERANCE = 0.002;
+
+/**
+ * Distance either side of a boundary at which fill status is probed.
+ * Must comfortably exceed FLATTEN_TOLERANCE.
+ */
+const SIDE_EPSILON = 0.01;
+
+/** Spacing of classification samples along a segment, in Castle units */
+const SAMPLE_STEP = 0.05;
+
+/** Connectivity tolerance when chaining segments into contours */
+const JOIN_EPSILON = 1e-6;
+
+/** Max deviation of the quadratics replacing part of an arc */
+const ARC_PIECE_TOLERANCE = 0.002;
+
+/** Evaluate a segment at parameter t ∈ [0, 1] */
+export function segmentPoint(seg: CastlePathData, t: number): Point {
+  const [x0, y0, x1, y1] = seg.p;
+  if (isArcSegment(seg)) {
+    const { cx, cy, r, startAngle, sweep } = arcGeometry(seg);
+    const a = startAngle + sweep * t;
+    return [cx + r * Math.cos(a), cy + r * Math.sin(a)];
+  }
+  if (seg.bp) {
+    const mt = 1 - t;
+    return [
+      mt * mt * x0 + 2 * mt * t * seg.bp.x + t * t * x1,
+      mt * mt * y0 + 2 * mt * t * seg.bp.y + t * t * y1,
+    ];
+  }
+  return [x0 + (x1 - x0) * t, y0 + (y1 - y0) * t];
+}
+
+/** Derivative of a segment with respect to t */
+export function segmentTangent(seg: CastlePathData, t: number): Point {
+  const [x0, y0, x1, y1] = seg.p;
+  if (isArcSegment(seg)) {
+    const { r, startAngle, sweep } = arcGeometry(seg);
+    const a = startAngle + sweep * t;
+    return [-r * sweep * Math.sin(a), r * sweep * Math.cos(a)];
+  }
+  if (seg.bp) {
+    return [
+      2 * (1 - t) * (seg.bp.x - x0) + 2 * t * (x1 - seg.bp.x),
+      2 * (1 - t) * (seg.bp.y - y0) + 2 * t * (y1 - seg.bp.y),
+    ];
+  }
+  return [x1 - x0, y1 - y0];
+}
+
+/**
+ * Extract the part of a segment between parameters t0 and t1. Part of an
+ * arc becomes a single quadratic through the tangent intersection; use
+ * subSegments where accuracy matters.
+ */
+export function subSegment(seg: CastlePathData, t0: number, t1: number): CastlePathData {
+  const [sx, sy] = segmentPoint(seg, t0);
+  const [ex, ey] = segmentPoint(seg, t1);
+  const piece: CastlePathData = { ...seg, p: [sx, sy, ex, ey] };
+
+  if (isArcSegment(seg)) {
+    if (t0 === 0 && t1 === 1) return seg;
+    const { cx, cy, r, startAngle, sweep } = arcGeometry(seg);
+    const half = (sweep * (t1 - t0)) / 2;
+    const mid = startAngle + sweep * (t0 + t1) / 2;
+    piece.s = STYLE_LINE;
+    piece.bp = {
+      x: cx + (r / Math.cos(half)) * Math.cos(mid),
+      y: cy + (r / Math.cos(half)) * Math.sin(mid),
+    };
+  } else if (seg.bp) {
+    // Blossom of the quadratic at (t0, t1) is the sub-curve's control point
+    const [x0, y0, x2, y2] = seg.p;
+    const a = (1 - t0) * (1 - t1);
+    const b = (1 - t0) * t1 + t0 * (1 - t1);
+    const c = t0 * t1;
+    piece.bp = {
+      x: a * x0 + b * seg.bp.x + c * x2,
+      y: a * y0 + b * seg.bp.y + c * y2,
+    };
+  }
+
+  return piece;
+}
+
+/**
+ * Like subSegment, but part of an arc is split into as many quadratics
+ * as it takes to stay within ARC_PIECE_TOLERANCE of the circle.
+ */
+export function subSegments(seg: CastlePathData, t0: number, t1: number): CastlePathData[] {
+  if (!isArcSegment(seg) || (t0 === 0 && t1 === 1)) return [subSegment(seg, t0, t1)];
+
+  // A quadratic spanning 2h of a circle bulges r·((cos h + sec h)/2 − 1)
+  const { r } = arcGeometry(seg);
+  let n = 1;
+  for (;;) {
+    const h = (Math.PI / 2) * ((t1 - t0) / (2 * n));
+    if (r * ((Math.cos(h) + 1 / Math.cos(h)) / 2 - 1) <= ARC_PIECE_TOLERANCE || n >= 64) break;
+    n *= 2;
+  }
+
+  const pieces: CastlePathData[] = [];
+  for (let i = 0; i < n; i++) {
+    pieces.push(subSegment(seg, t0 + ((t1 - t0) * i) / n, t0 + ((t1 - t0) * (i + 1)) / n));
+  }
+  return pieces;
+}
+
+/** Rough arc length, used to pick sample counts */
+export function approxLength(seg: CastlePathData): number {
+  const [x0, y0, x1, y1] = seg.p;
+  if (isArcSegment(seg)) return arcGeometry(seg).r * (Math.PI / 2);
+  if (seg.bp) {
+    return (
+      Math.hypot(seg.bp.x - x0, seg.bp.y - y0) + Math.hypot(x1 - seg.bp.x, y1 - seg.bp.y)
+    );
+  }
+  return Math.hypot(x1 - x0, y1 - y0);
+}
+
+/** Flatten a segment to points (excluding its start point) */
+export function flattenSegment(seg: CastlePathData, out: Point[]): void {
+  if (isArcSegment(seg)) {
+    // Sagitta of each chord: r·(1 − cos(θ/2)) for θ = π/2n
+    const { r } = arcGeometry(seg);
+    let n = 1;
+    while (r * (1 - Math.cos(Math.PI / (4 * n))) > FLATTEN_TOLERANCE && n < 256) n *= 2;
+    for (let i = 1; i <= n; i++) out.push(segmentPoint(seg, i / n));
+    return;
+  }
+  if (!seg.bp) {
+    out.push([seg.p[2], seg.p[3]]);
+    return;
+  }
+  // Quadratic flatness: deviation ≤ |P0 - 2P1 + P2| / 4 / n² for n pieces
+  const [x0, y0, x1, y1] = seg.p;
+  const ddx = x0 - 2 * seg.bp.x + x1;
+  const ddy = y0 - 2 * seg.bp.y + y1;
+  const dd = Math.hypot(ddx, ddy);
+  const n = Math.max(1, Math.min(256, Math.ceil(Math.sqrt(dd / (4 * FLATTEN_TOLERANCE)))));
+  for (let i = 1; i <= n; i++) {
+    out.push(segmentPoint(seg, i / n));
+  }
+}
+
+/**
+ * Build a region from a list of segments. Consecutive connected segments
+ * form one contour; a gap starts a new contour. Contours are closed
+ * implicitly, as SVG does when filling open subpaths.
+ */
+export function buildRegion(segments: CastlePathData[], fillRule: FillRule): Region {
+  const rings: Point[][] = [];
+  let ring: Point[] | null = null;
+  let lastX = NaN,
+    lastY = NaN;
+
+  for (const seg of segments) {
+    const [x0, y0] = seg.p;
+    if (!ring || Math.abs(x0 - lastX) > JOIN_EPSILON || Math.abs(y0 - lastY) > JOIN_EPSILON) {
+      ring = [[x0, y0]];
+      rings.push(ring);
+    }
+    flattenSegment(seg, ring);
+    lastX = seg.p[2];
+    lastY = seg.p[3];
+  }
+
+  let minX = Infinity,
+    minY = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity;
+  for (const r of rings) {
+    for (const [x, y] of r) {
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+
+  return { rings: rings.filter((r) => r.length > 2), fillRule, minX, minY, maxX, maxY };
+}
+
+/** Winding number of a region's contours around a point */
+export function windingNumber(region: Region, x: number, y: number): number {
+  let winding = 0;
+  for (const ring of region.rings) {
+    const n = ring.length;
+    for (let i = 0, j = n - 1; i < n; j = i++) {
+      const [xi, yi] = ring[j];
+      const [xj, yj] = ring[i];
+      if (yi <= y) {
+        if (yj > y && (xj - xi) * (y - yi) - (x - xi) * (yj - yi) > 0) winding++;
+      } else if (yj <= y && (xj - xi) * (y - yi) - (x - xi) * (yj - yi) < 0) {
+        winding--;
+      }
+    }
+  }
+  return winding;
+}
+
+/** Test whether a point is inside a region under its fill rule */
+export function regionContains(region: Region, x: number, y: number): boolean {
+  if (x < region.minX || x > region.maxX || y < region.minY || y > region.maxY) {
+    return false;
+  }
+  const w = windingNumber(region, x, y);
+  return region.fillRule === "evenodd" ? (w & 1) !== 0 : w !== 0;
+}
+
+/**
+ * Split a segment where a classification along it changes and return the
+ * pieces classified true. Transitions are located by sampling, then
+ * refined by bisection.
+ */
+export function splitWhere(
+  seg: CastlePathData,
+  classify: (t: number) => boolean
+): CastlePathData[] {
+  const n = Math.max(2, Math.min(64, Math.ceil(approxLength(seg) / SAMPLE_STEP)));
+
+  // Classify interior sample points (endpoints are often exactly on a boundary)
+  const ts: number[] = [];
+  const flags: boolean[] = [];
+  for (let i = 0; i < n; i++) {
+    const t = (i + 0.5) / n;
+    ts.push(t);
+    flags.push(classify(t));
+  }
+
+  const pieces: CastlePathData[] = [];
+  let start = flags[0] ? 0 : -1;
+
+  for (let i = 1; i <= n; i++) {
+    if (i < n && flags[i] === flags[i - 1]) continue;
+
+    let boundary = 1;
+    if (i < n) {
+      // Bisect between samples i-1 and i
+      let lo = ts[i - 1],
+        hi = ts[i];
+      for (let k = 0; k < 20; k++) {
+        const mid = (lo + hi) / 2;
+        if (classify(mid) === flags[i - 1]) lo = mid;
+        else hi = mid;
+      }
+      boundary = (lo + hi) / 2;
+    }
+
+    if (flags[i - 1] && start >= 0 && boundary > start) {
+      pieces.push(...(start === 0 && boundary === 1 ? [seg] : subSegments(seg, start, boundary)));
+    }
+    start = i < n && flags[i] ? boundary : -1;
+  }
+
+  return pieces;
+}
+
+/** Keep only the parts of segments whose points satisfy a predicate */
+export function filterSegments(
+  segments: CastlePathData[],
+  keep: (x: number, y: number) => boolean
+): CastlePathData[] {
+  const result: CastlePathData[] = [];
+  for (const seg of segments) {
+    result.push(
+      ...splitWhere(seg, (t) => {
+        const [x, y] = segmentPoint(seg, t);
+        return keep(x, y);
+      })
+    );
+  }
+  return result;
+}
+
+/** Probe points just either side of a segment at parameter t */
+function sidePoints(seg: CastlePathData, t: number): [Point, Point] | null {
+  const [x, y] = segmentPoint(seg, t);
+  const [dx, dy] = segmentTangent(seg, t);
+  const len = Math.hypot(dx, dy);
+  if (len === 0) return null;
+  const nx = (-dy / len) * SIDE_EPSILON;
+  const ny = (dx / len) * SIDE_EPSILON;
+  return [
+    [x + nx, y + ny],
+    [x - nx, y - ny],
+  ];
+}
+
+/**
+ * Keep only the parts of segments that separate inside from outside:
+ * the probe points either side of the segment must disagree on `inside`.
+ * Parts lying on the boundary of any area in `claimed` are dropped, so
+ * an edge shared by several contributing shapes is emitted once.
+ */
+export function boundarySegments(
+  segments: CastlePathData[],
+  inside: (x: number, y: number) => boolean,
+  claimed: Array<(x: number, y: number) => boolean> = []
+): CastlePathData[] {
+  const result: CastlePathData[] = [];
+  for (const seg of segments) {
+    const pieces = splitWhere(seg, (t) => {
+      const sides = sidePoints(seg, t);
+      if (!sides) return false;
+      const [[ax, ay], [bx, by]] = sides;
+      if (inside(ax, ay) === inside(bx, by)) return false;
+      for (const contains of claimed) {
+        if (contains(ax, ay) !== contains(bx, by)) return false;
+      }
+      return true;
+    });
+    // Near a crossing the side probes straddle the other edge, which
+    // leaves slivers shorter than the probe distance; drop them
+    result.push(...pieces.filter((p) => p === seg || approxLength(p) >= SIDE_EPSILON));
+  }
+  return result;
+}
+
+/** A filled area: its outline segments plus an inside test */
+export interface Area {
+  segments: CastlePathData[];
+  contains: (x: number, y: number) => boolean;
+}
+
+/** Area enclosed by a list of segments under a fill rule */
+export function areaFromSegments(segments: CastlePathData[], fillRule: FillRule): Area {
+  const region = buildRegion(segments, fillRule);
+  return { segments, contains: (x, y) => regionContains(region, x, y) };
+}
+
+/**
+ * Combine areas, keeping only the outline parts that bound the result.
+ * Edges shared between inputs are emitted once, from the earliest input.
+ */
+function combineAreas(areas: Area[], contains: (x: number, y: number) => boolean): Area {
+  if (areas.length === 1) return areas[0];
+
+  const segments: CastlePathData[] = [];
+  areas.forEach((area, i) => {
+    const claimed = areas.slice(0, i).map((a) => a.contains);
+    segments.push(...boundarySegments(area.segments, contains, claimed));
+  });
+  return { segments, contains };
+}
+
+/** Union of areas */
+export function unionAreas(areas: Area[]): Area {
+  return combineAreas(areas, (x, y) => areas.some((a) => a.contains(x, y)));
+}
+
+/** Intersection of areas */
+export function intersectAreas(areas: Area[]): Area {
+  return combineAreas(areas, (x, y) => areas.every((a) => a.contains(x, y)));
+}
+
+/** Endpoint tolerance when reassembling trimmed boundary pieces into loops */
+const TRACE_EPSILON = 1e-3;
+
+/** Parameter margin within which a crossing counts as being at an endpoint */
+const CROSSING_T_EPSILON = 1e-4;
+
+/** A closed (or, if the input had gaps, open) chain of boundary segments */
+export interface Contour {
+  segments: CastlePathData[];
+  closed: boolean;
+  /** True when the contour bounds a hole rather than filled material */
+  hole: boolean;
+}
+
+/** A segment traversed in the opposite direction */
+function reverseSegment(seg: CastlePathData): CastlePathData {
+  const [x0, y0, x1, y1] = seg.p;
+  const reversed: CastlePathData = { ...seg, p: [x1, y1, x0, y0] };
+  if (isArcSegment(seg)) reversed.s = seg.s === STYLE_ARC_CW ? STYLE_ARC_CCW : STYLE_ARC_CW;
+  return reversed;
+}
+
+/** Shoelace signed area of a flattened contour (positive = counter-clockwise) */
+function signedArea(segments: CastlePathData[]): number {
+  const pts: Point[] = [[segments[0].p[0], segments[0].p[1]]];
+  for (const seg of segments) flattenSegment(seg, pts);
+  let area = 0;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    area += (pts[j][0] - pts[i][0]) * (pts[j][1] + pts[i][1]);
+  }
+  return area / 2;
+}
+
+/** Flatten a segment to points paired with their curve parameters */
+function flattenWithParams(seg: CastlePathData): Array<[number, number, number]> {
+  const pts: Point[] = [[seg.p[0], seg.p[1]]];
+  flattenSegment(seg, pts);
+  const n = pts.length - 1;
+  return pts.map(([x, y], i) => [x, y, i / n]);
+}
+
+/**
+ * Split segments where they cross each other, so that every crossing
+ * becomes a shared endpoint. Pieces meeting at a crossing get exactly
+ * the same endpoint coordinates.
+ */
+export function splitAtCrossings(segments: CastlePathData[]): CastlePathData[] {
+  const polylines = segments.map(flattenWithParams);
+  const boxes = polylines.map((pts) => {
+    let minX = Infinity,
+      minY = Infinity,
+      maxX = -Infinity,
+      maxY = -Infinity;
+    for (const [x, y] of pts) {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+    return { minX, minY, maxX, maxY };
+  });
+
+  // Crossing parameters and points collected per segment
+  const cuts: Array<Array<{ t: number; x: number; y: number }>> = segments.map(() => []);
+  const addCut = (i: number, t: number, x: number, y: number) => {
+    if (t > CROSSING_T_EPSILON && t < 1 - CROSSING_T_EPSILON) cuts[i].push({ t, x, y });
+  };
+
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      const a = boxes[i],
+        b = boxes[j];
+      if (a.minX > b.maxX || b.minX > a.maxX || a.minY > b.maxY || b.minY > a.maxY) continue;
+
+      const pa = polylines[i],
+        pb = polylines[j];
+      for (let k = 1; k < pa.length; k++) {
+        const [ax0, ay0, at0] = pa[k - 1];
+        const [ax1, ay1, at1] = pa[k];
+        for (let m = 1; m < pb.length; m++) {
+          const [bx0, by0, bt0] = pb[m - 1];
+          const [bx1, by1, bt1] = pb[m];
+          const dax = ax1 - ax0,
+            day = ay1 - ay0,
+            dbx = bx1 - bx0,
+            dby = by1 - by0;
+          const denom = dax * dby - day * dbx;
+          if (denom === 0) continue; // parallel or collinear: no single crossing
+          const u = ((bx0 - ax0) * dby - (by0 - ay0) * dbx) / denom;
+          const v = ((bx0 - ax0) * day - (by0 - ay0) * dax) / denom;
+          if (u < 0 || u > 1 || v < 0 || v > 1) continue;
+
+          const x = ax0 + dax * u;
+          const y = ay0 + day * u;
+          addCut(i, at0 + (at1 - at0) * u, x, y);
+          addCut(j, bt0 + (bt1 - bt0) * v, x, y);
+        }
+      }
+    }
+  }
+
+  const result: CastlePathData[] = [];
+  segments.forEach((seg, i) => {
+    if (cuts[i].length === 0) {
+      result.push(seg);
+      return;
+    }
+    const sorted = cuts[i].sort((p, q) => p.t - q.t);
+    let prev: { t: number; x: number; y: number } = { t: 0, x: seg.p[0], y: seg.p[1] };
+    for (const cut of [...sorted, { t: 1, x: seg.p[2], y: seg.p[3] }]) {
+      if (cut.t - prev.t <= CROSSING_T_EPSILON) continue;
+      const pieces = subSegments(seg, prev.t, cut.t);
+      pieces[0].p = [prev.x, prev.y, pieces[0].p[2], pieces[0].p[3]];
+      const last = pieces[pieces.length - 1];
+      last.p = [last.p[0], last.p[1], cut.x, cut.y];
+      result.push(...pieces);
+      prev = cut;
+    }
+  });
+  return result;
+}
+
+/** Signed turn angle from one direction to the next (positive = left) */
+function turnAngle(din: Point, dout: Point): number {
+  return Math.atan2(din[0] * dout[1] - din[1] * dout[0], din[0] * dout[0] + din[1] * dout[1]);
+}
+
+/**
+ * Reassemble boundary segments into contours and classify each one as an
+ * outer contour or a hole.
+ *
+ * Segments are split where they cross and oriented so that the filled
+ * side lies on their left; each contour is then traced taking the
+ * sharpest right turn at junctions, which keeps contours from crossing.
+ * Oriented this way, outer contours run counter-clockwise and holes
+ * clockwise, whatever direction or fill rule the source path used.
+ */
+export function traceContours(
+  segments: CastlePathData[],
+  inside: (x: number, y: number) => boolean
+): Contour[] {
+  const remaining = splitAtCrossings(segments).map((seg) => {
+    const sides = sidePoints(seg, 0.5);
+    return sides && !inside(sides[0][0], sides[0][1]) ? reverseSegment(seg) : seg;
+  });
+  const contours: Contour[] = [];
+  const near = (ax: number, ay: number, bx: number, by: number) =>
+    Math.abs(ax - bx) <= TRACE_EPSILON && Math.abs(ay - by) <= TRACE_EPSILON;
+
+  while (remaining.length > 0) {
+    const chain = [remaining.shift()!];
+    const [sx, sy] = chain[0].p;
+    let closed = false;
+
+    for (;;) {
+      const last = chain[chain.length - 1];
+      const [ex, ey] = [last.p[2], last.p[3]];
+      const din = segmentTangent(last, 1);
+
+      // Candidates continue from the end point; closing the loop is one of them
+      let best = -1;
+      let bestAngle = Infinity;
+      if (near(ex, ey, sx, sy)) {
+        best = remaining.length;
+        bestAngle = turnAngle(din, segmentTangent(chain[0], 0));
+      }
+      remaining.forEach((seg, k) => {
+        if (!near(seg.p[0], seg.p[1], ex, ey)) return;
+        const angle = turnAngle(din, segmentTangent(seg, 0));
+        if (angle < bestAngle) {
+          best = k;
+          bestAngle = angle;
+        }
+      });
+
+      if (best < 0) break;
+      if (best === remaining.length) {
+        closed = true;
+        break;
+      }
+      chain.push(remaining.splice(best, 1)[0]);
+    }
+
+    // Boundary pieces can overshoot a crossing by up to the probe
+    // distance; once split off, the overshoots are short open stubs
+    const length = chain.reduce((sum, seg) => sum + approxLength(seg), 0);
+    if (!closed && length < 2 * SIDE_EPSILON) continue;
+
+    contours.push({ segments: chain, closed, hole: closed && signedArea(chain) < 0 });
+  }
+
+  return contours;
+}
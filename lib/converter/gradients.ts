@@ -0,0 +1,396 @@
+import { SVGPathData } from "svg-pathdata";
+import { Matrix, multiply, invert, transformPoint } from "./matrix";
+import {
+  hexToRgb,
+  mapColorToPalette,
+  DEFAULT_COLOR_METRIC,
+  type ColorMetric,
+} from "./mapColors";
+import type { ParsedElement, ClipShape } from "./parseSvg";
+
+/** A gradient color stop */
+export interface GradientStop {
+  /** Offset along the gradient, 0-1 */
+  offset: number;
+  /** Stop color as normalized hex */
+  color: string;
+}
+
+/** A resolved linear or radial gradient paint server */
+export interface Gradient {
+  /** id of the gradient element referenced by the fill */
+  id: string;
+  type: "linear" | "radial";
+  stops: GradientStop[];
+  spread: "pad" | "reflect" | "repeat";
+  /**
+   * Maps gradient coordinates to root SVG space: the element transform,
+   * the bounding-box mapping for objectBoundingBox units, and
+   * gradientTransform.
+   */
+  transform: Matrix;
+  /** Linear: start (x1, y1) and end (x2, y2) of the gradient vector */
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  /** Radial: end circle (cx, cy, r) and focal point (fx, fy) */
+  cx: number;
+  cy: number;
+  r: number;
+  fx: number;
+  fy: number;
+}
+
+/** A run of the gradient, in [0, 1], that snaps to a single palette color */
+export interface GradientBand {
+  start: number;
+  end: number;
+  /** Source color within the band, as normalized hex */
+  color: string;
+  /** Palette index the band snaps to */
+  index: number;
+}
+
+/** Samples per gradient when searching for palette transitions */
+const QUANTIZE_SAMPLES = 64;
+
+/** Maximum repeat/reflect periods expanded across one shape */
+const MAX_PERIODS = 32;
+
+function toHex(r: number, g: number, b: number): string {
+  return (
+    "#" +
+    [r, g, b]
+      .map((v) => Math.round(Math.max(0, Math.min(255, v))).toString(16).padStart(2, "0"))
+      .join("")
+  );
+}
+
+/** Interpolated gradient color at offset t ∈ [0, 1] (sRGB interpolation) */
+export function gradientColorAt(gradient: Gradient, t: number): string {
+  const { stops } = gradient;
+  if (stops.length === 0) return "#000000";
+  if (t <= stops[0].offset) return stops[0].color;
+
+  for (let i = 1; i < stops.length; i++) {
+    const a = stops[i - 1];
+    const b = stops[i];
+    if (t <= b.offset) {
+      const span = b.offset - a.offset;
+      const k = span > 0 ? (t - a.offset) / span : 1;
+      const [r1, g1, b1] = hexToRgb(a.color);
+      const [r2, g2, b2] = hexToRgb(b.color);
+      return toHex(r1 + (r2 - r1) * k, g1 + (g2 - g1) * k, b1 + (b2 - b1) * k);
+    }
+  }
+
+  return stops[stops.length - 1].color;
+}
+
+/**
+ * Split a gradient's [0, 1] range into bands that each snap to one
+ * palette color. Transitions are found by sampling and refined by
+ * bisection, so band edges land where the nearest palette color changes.
+ */
+export function quantizeGradient(
+  gradient: Gradient,
+  paletteHex: string[],
+  metric: ColorMetric = DEFAULT_COLOR_METRIC
+): GradientBand[] {
+  const indexAt = (t: number) =>
+    mapColorToPalette(gradientColorAt(gradient, t), paletteHex, metric).index;
+
+  const bands: GradientBand[] = [];
+  let start = 0;
+  let startIndex = indexAt(0);
+  let prevT = 0;
+
+  for (let i = 1; i <= QUANTIZE_SAMPLES; i++) {
+    const t = i / QUANTIZE_SAMPLES;
+    const index = indexAt(t);
+    if (index !== startIndex) {
+      let lo = prevT,
+        hi = t;
+      for (let k = 0; k < 12; k++) {
+        const mid = (lo + hi) / 2;
+        if (indexAt(mid) === startIndex) lo = mid;
+        else hi = mid;
+      }
+      const edge = (lo + hi) / 2;
+      bands.push({ start, end: edge, color: gradientColorAt(gradient, (start + edge) / 2), index: startIndex });
+      start = edge;
+      startIndex = index;
+    }
+    prevT = t;
+  }
+  bands.push({ start, end: 1, color: gradientColorAt(gradient, (start + 1) / 2), index: startIndex });
+
+  return bands;
+}
+
+/**
+ * Gradient parameter t at a point in gradient coordinates (before
+ * applying the spread method).
+ */
+function gradientParam(gradient: Gradient, x: number, y: number): number {
+  if (gradient.type === "linear") {
+    const dx = gradient.x2 - gradient.x1;
+    const dy = gradient.y2 - gradient.y1;
+    const len2 = dx * dx + dy * dy;
+    if (len2 === 0) return 1;
+    return ((x - gradient.x1) * dx + (y - gradient.y1) * dy) / len2;
+  }
+
+  // Radial: the level set at t is the circle centered at F + t(C - F)
+  // with radius t·r. Solve |P - F - t(C - F)| = t·r for t ≥ 0.
+  const [fx, fy] = focalPoint(gradient);
+  const dx = x - fx,
+    dy = y - fy;
+  const ex = gradient.cx - fx,
+    ey = gradient.cy - fy;
+  const a = ex * ex + ey * ey - gradient.r * gradient.r;
+  const b = dx * ex + dy * ey;
+  const c = dx * dx + dy * dy;
+  if (a === 0) return b === 0 ? 0 : c / (2 * b);
+  const disc = Math.max(0, b * b - a * c);
+  return (b - Math.sqrt(disc)) / a;
+}
+
+/** Focal point, pulled just inside the end circle as SVG requires */
+function focalPoint(gradient: Gradient): [number, number] {
+  const dx = gradient.fx - gradient.cx;
+  const dy = gradient.fy - gradient.cy;
+  const dist = Math.hypot(dx, dy);
+  const max = gradient.r * 0.99;
+  if (dist <= max) return [gradient.fx, gradient.fy];
+  return [gradient.cx + (dx / dist) * max, gradient.cy + (dy / dist) * max];
+}
+
+/** Bounding box of an element in gradient coordinates */
+function boundsInGradientSpace(element: ParsedElement, gradient: Gradient) {
+  const b = new SVGPathData(element.d).toAbs().getBounds();
+  const m = multiply(invert(gradient.transform), element.transform);
+  let minX = Infinity,
+    minY = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity;
+  for (const [x, y] of [
+    [b.minX, b.minY],
+    [b.maxX, b.minY],
+    [b.minX, b.maxY],
+    [b.maxX, b.maxY],
+  ]) {
+    const [gx, gy] = transformPoint(m, x, y);
+    minX = Math.min(minX, gx);
+    minY = Math.min(minY, gy);
+    maxX = Math.max(maxX, gx);
+    maxY = Math.max(maxY, gy);
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+/**
+ * Lay the [0, 1] bands out over a range of raw gradient parameters,
+ * applying the spread method. Returns intervals with open ends at ±Infinity.
+ */
+function spreadBands(
+  bands: GradientBand[],
+  spread: Gradient["spread"],
+  tMin: number,
+  tMax: number
+): GradientBand[] {
+  const runs: GradientBand[] = [];
+
+  if (spread === "pad") {
+    for (const band of bands) runs.push({ ...band });
+    runs[0].start = -Infinity;
+    runs[runs.length - 1].end = Infinity;
+  } else {
+    const first = Math.max(Math.floor(tMin), Math.floor(tMax) - MAX_PERIODS + 1);
+    for (let k = first; k <= Math.floor(tMax); k++) {
+      const mirrored = spread === "reflect" && Math.abs(k % 2) === 1;
+      const ordered = mirrored ? [...bands].reverse() : bands;
+      for (const band of ordered) {
+        runs.push(
+          mirrored
+            ? { ...band, start: k + 1 - band.end, end: k + 1 - band.start }
+            : { ...band, start: k + band.start, end: k + band.end }
+        );
+      }
+    }
+    runs[0].start = -Infinity;
+    runs[runs.length - 1].end = Infinity;
+  }
+
+  // Keep the runs overlapping [tMin, tMax], merging neighbours that snap
+  // to the same palette color
+  const merged: GradientBand[] = [];
+  for (const run of runs) {
+    if (run.end < tMin || run.start > tMax) continue;
+    const last = merged[merged.length - 1];
+    if (last && last.index === run.index) last.end = run.end;
+    else merged.push({ ...run });
+  }
+  return merged;
+}
+
+function rectPath(x0: number, y0: number, x1: number, y1: number): string {
+  return `M${x0},${y0}L${x1},${y0}L${x1},${y1}L${x0},${y1}Z`;
+}
+
+/**
+ * Circle as four cubic Béziers. Unlike arc commands, Bézier control
+ * points stay exact under any affine transform (objectBoundingBox units
+ * routinely turn gradient circles into ellipses).
+ */
+function circlePath(cx: number, cy: number, r: number): string {
+  const k = 0.5522847498 * r;
+  return (
+    `M${cx + r},${cy}` +
+    `C${cx + r},${cy + k} ${cx + k},${cy + r} ${cx},${cy + r}` +
+    `C${cx - k},${cy + r} ${cx - r},${cy + k} ${cx - r},${cy}` +
+    `C${cx - r},${cy - k} ${cx - k},${cy - r} ${cx},${cy - r}` +
+    `C${cx + k},${cy - r} ${cx + r},${cy - k} ${cx + r},${cy}Z`
+  );
+}
+
+/**
+ * Clip shape covering the raw parameter interval [start, end] of a
+ * gradient, large enough to cover the given gradient-space bounds.
+ */
+function bandShape(
+  gradient: Gradient,
+  start: number,
+  end: number,
+  bounds: { minX: number; minY: number; maxX: number; maxY: number }
+): ClipShape {
+  const pad = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) + 1;
+
+  if (gradient.type === "linear") {
+    // Work in (u, v) space where u is the gradient parameter and v runs
+    // perpendicular to the gradient vector.
+    const dx = gradient.x2 - gradient.x1;
+    const dy = gradient.y2 - gradient.y1;
+    const len2 = dx * dx + dy * dy || 1;
+    const g: Matrix = [dx, dy, -dy / Math.sqrt(len2), dx / Math.sqrt(len2), gradient.x1, gradient.y1];
+    const toUV = invert(g);
+    let uMin = Infinity,
+      uMax = -Infinity,
+      vMin = Infinity,
+      vMax = -Infinity;
+    for (const [x, y] of [
+      [bounds.minX, bounds.minY],
+      [bounds.maxX, bounds.minY],
+      [bounds.minX, bounds.maxY],
+      [bounds.maxX, bounds.maxY],
+    ]) {
+      const [u, v] = transformPoint(toUV, x, y);
+      uMin = Math.min(uMin, u);
+      uMax = Math.max(uMax, u);
+      vMin = Math.min(vMin, v);
+      vMax = Math.max(vMax, v);
+    }
+    const u0 = Number.isFinite(start) ? start : uMin - 1;
+    const u1 = Number.isFinite(end) ? end : uMax + 1;
+    return {
+      d: rectPath(u0, vMin - pad, u1, vMax + pad),
+      transform: multiply(gradient.transform, g),
+      clipRule: "nonzero",
+    };
+  }
+
+  const [fx, fy] = focalPoint(gradient);
+  const circleAt = (t: number) =>
+    circlePath(fx + t * (gradient.cx - fx), fy + t * (gradient.cy - fy), t * gradient.r);
+
+  const outer = Number.isFinite(end)
+    ? circleAt(end)
+    : rectPath(bounds.minX - pad, bounds.minY - pad, bounds.maxX + pad, bounds.maxY + pad);
+  const inner = start > 0 ? circleAt(start) : "";
+
+  return { d: outer + inner, transform: gradient.transform, clipRule: "evenodd" };
+}
+
+/**
+ * Replace an element filled with a gradient by one solid-filled copy per
+ * palette band, each clipped to the part of the shape its band covers.
+ * A stroke, if any, is kept on a separate copy painted after the bands.
+ */
+function expandElement(
+  element: ParsedElement,
+  bands: GradientBand[]
+): ParsedElement[] {
+  const gradient = element.fillGradient!;
+  const bounds = boundsInGradientSpace(element, gradient);
+
+  // Range of the gradient parameter across the shape's bounding box
+  let tMin = Infinity,
+    tMax = -Infinity;
+  const steps = 16;
+  for (let i = 0; i <= steps; i++) {
+    for (let j = 0; j <= steps; j++) {
+      const x = bounds.minX + ((bounds.maxX - bounds.minX) * i) / steps;
+      const y = bounds.minY + ((bounds.maxY - bounds.minY) * j) / steps;
+      const t = gradientParam(gradient, x, y);
+      tMin = Math.min(tMin, t);
+      tMax = Math.max(tMax, t);
+    }
+  }
+  if (gradient.type === "radial") tMin = Math.max(0, tMin - 0.05);
+
+  const result: ParsedElement[] = [];
+  for (const run of spreadBands(bands, gradient.spread, tMin, tMax)) {
+    result.push({
+      ...element,
+      fill: run.color,
+      fillGradient: undefined,
+      stroke: null,
+      clipPaths: [...(element.clipPaths || []), [bandShape(gradient, run.start, run.end, bounds)]],
+    });
+  }
+
+  if (element.stroke) {
+    result.push({ ...element, fill: null, fillGradient: undefined });
+  }
+
+  return result;
+}
+
+/**
+ * Expand every gradient-filled element into palette bands.
+ *
+ * @returns the expanded element list, and the bands of each gradient by
+ *   gradient id
+ */
+export function expandGradients(
+  elements: ParsedElement[],
+  paletteHex: string[],
+  metric: ColorMetric = DEFAULT_COLOR_METRIC
+): { elements: ParsedElement[]; bands: Map<string, GradientBand[]> } {
+  const bands = new Map<string, GradientBand[]>();
+  const expanded: ParsedElement[] = [];
+
+  for (const element of elements) {
+    const gradient = element.fillGradient;
+    if (!gradient || gradient.stops.length === 0) {
+      expanded.push(element);
+      continue;
+    }
+
+    let gradientBands = bands.get(gradient.id);
+    if (!gradientBands) {
+      gradientBands = quantizeGradient(gradient, paletteHex, metric);
+      bands.set(gradient.id, gradientBands);
+    }
+
+    try {
+      expanded.push(...expandElement(element, gradientBands));
+    } catch {
+      // Unparseable geometry: fall back to the solid approximation
+      expanded.push({ ...element, fillGradient: undefined });
+    }
+  }
+
+  return { elements: expanded, bands };
+}
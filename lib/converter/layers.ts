@@ -0,0 +1,94 @@
+import type { CastlePathData } from "../castle/format";
+import type { ColorMapping } from "./mapColors";
+import type { ParsedElement, SvgGroup } from "./parseSvg";
+import type { ConvertedPaths, FillRegion } from "./convertPaths";
+
+/**
+ * How converted shapes are distributed over Castle layers: all on one
+ * layer, one layer per top-level SVG group, or one layer per palette color.
+ */
+export type LayerMode = "single" | "group" | "color";
+
+/** Layers of a drawing and which element goes on which */
+export interface LayerPlan {
+  layers: Array<{ title: string }>;
+  /** Layer index of each element */
+  layerOf: number[];
+}
+
+/** Title of the one layer in "single" mode */
+const SINGLE_LAYER_TITLE = "Imported";
+
+/**
+ * Assign elements to layers. Layers come in paint order of their first
+ * element, so the bottom layer is first; layers without elements are left out.
+ */
+export function planLayers(
+  elements: ParsedElement[],
+  groups: SvgGroup[],
+  colorMap: Map<string, ColorMapping>,
+  mode: LayerMode
+): LayerPlan {
+  if (mode === "single") {
+    return { layers: [{ title: SINGLE_LAYER_TITLE }], layerOf: elements.map(() => 0) };
+  }
+
+  const layers: LayerPlan["layers"] = [];
+  const indexByKey = new Map<string, number>();
+  const layerOf = elements.map((element) => {
+    let key: string;
+    let layer: LayerPlan["layers"][number];
+    if (mode === "group") {
+      const group = element.group;
+      key = String(group);
+      layer = { title: groups[group]?.title ?? SINGLE_LAYER_TITLE };
+    } else {
+      const color = element.fill ?? element.stroke;
+      const paletteHex = (color && colorMap.get(color)?.paletteHex) || "#000000";
+      key = paletteHex;
+      layer = { title: paletteHex };
+    }
+
+    let index = indexByKey.get(key);
+    if (index === undefined) {
+      index = layers.length;
+      indexByKey.set(key, index);
+      layers.push(layer);
+    }
+    return index;
+  });
+
+  if (layers.length === 0) layers.push({ title: SINGLE_LAYER_TITLE });
+  return { layers, layerOf };
+}
+
+/**
+ * Split converted paths into per-layer path lists. Fill contours are
+ * re-indexed into the layers' path lists concatenated in layer order.
+ */
+export function splitLayers(
+  paths: ConvertedPaths,
+  plan: LayerPlan
+): { pathLists: CastlePathData[][]; fillRegions: FillRegion[] } {
+  const pathLists: CastlePathData[][] = plan.layers.map(() => []);
+  const { pathDataList, elementIndices } = paths;
+  const layerAt = pathDataList.map((_, i) => plan.layerOf[elementIndices[i]] ?? 0);
+  pathDataList.forEach((seg, i) => pathLists[layerAt[i]].push(seg));
+
+  // Position of each segment in the concatenated lists
+  const offsets: number[] = [0];
+  for (const list of pathLists) offsets.push(offsets[offsets.length - 1] + list.length);
+  const seen = plan.layers.map(() => 0);
+  const newIndex = layerAt.map((layer) => offsets[layer] + seen[layer]++);
+
+  const fillRegions = paths.fillRegions.map((region) => ({
+    ...region,
+    contours: region.contours.map((c) => ({
+      ...c,
+      start: newIndex[c.start],
+      end: newIndex[c.end - 1] + 1,
+    })),
+  }));
+
+  return { pathLists, fillRegions };
+}
@@ -1,4 +1,5 @@
 import type { CastleColor } from "../castle/format";
+import { parseCssColor } from "./cssColors";
 
 /** Lab color space representation */
 interface Lab {
@@ -7,6 +8,23 @@ interface Lab {
   b: number;
 }
 
+/**
+ * Color difference formula used to find the nearest palette color:
+ * CIEDE2000, CIE94 (the default, as in Castle's Palettes.js), CIE76
+ * (plain Lab distance), or Euclidean distance in OKLab.
+ */
+export type ColorMetric = "ciede2000" | "cie94" | "cie76" | "oklab";
+
+export const DEFAULT_COLOR_METRIC: ColorMetric = "cie94";
+
+/** Display names of the metrics */
+export const COLOR_METRIC_LABELS: Record<ColorMetric, string> = {
+  ciede2000: "CIEDE2000",
+  cie94: "CIE94",
+  cie76: "CIE76",
+  oklab: "OKLab",
+};
+
 /** Result of mapping an SVG color to the nearest palette color */
 export interface ColorMapping {
   /** Original SVG color as hex */
@@ -17,8 +35,35 @@ export interface ColorMapping {
   paletteHex: string;
   /** Palette color as CastleColor */
   castleColor: CastleColor;
-  /** CIE94 Delta E distance */
+  /** Distance to the palette color under the metric used */
   deltaE: number;
+  /** Set when a palette color other than the nearest was chosen */
+  adjustment?: ColorAdjustment;
+  /** Set when the user picked the mapping by hand */
+  overridden?: boolean;
+  /**
+   * Drawn invisible: paths are marked transparent and the fill PNG
+   * leaves the color out. The palette fields keep the automatic choice.
+   */
+  transparent?: boolean;
+}
+
+/** A hand-picked mapping: a palette index, or "transparent" to hide the color */
+export type ColorOverride = number | "transparent";
+
+/** Why contrast-preserving assignment passed over the nearest color */
+export interface ColorAdjustment {
+  /** Index of the nearest palette color */
+  nearestIndex: number;
+  /** Distance to the nearest palette color */
+  nearestDeltaE: number;
+  /**
+   * "separation" when the nearest color would merge this color with a
+   * distinct one, "lightness" when it would flip their light/dark order
+   */
+  reason: "separation" | "lightness";
+  /** The source color whose contrast was kept */
+  against: string;
 }
 
 /**
@@ -83,6 +128,114 @@ export function deltaE(lab1: Lab, lab2: Lab): number {
   return Math.sqrt(Math.max(0, result));
 }
 
+/** CIE76 color difference: Euclidean distance in Lab */
+export function deltaE76(lab1: Lab, lab2: Lab): number {
+  return Math.hypot(lab1.L - lab2.L, lab1.a - lab2.a, lab1.b - lab2.b);
+}
+
+/**
+ * CIEDE2000 color difference (Sharma, Wu & Dalal 2005), with
+ * kL = kC = kH = 1.
+ */
+export function deltaE2000(lab1: Lab, lab2: Lab): number {
+  const rad = Math.PI / 180;
+  const c1 = Math.hypot(lab1.a, lab1.b);
+  const c2 = Math.hypot(lab2.a, lab2.b);
+  const cMean7 = ((c1 + c2) / 2) ** 7;
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + 25 ** 7)));
+
+  const a1 = (1 + g) * lab1.a;
+  const a2 = (1 + g) * lab2.a;
+  const cp1 = Math.hypot(a1, lab1.b);
+  const cp2 = Math.hypot(a2, lab2.b);
+  const hue = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = Math.atan2(b, a) / rad;
+    return h < 0 ? h + 360 : h;
+  };
+  const hp1 = hue(lab1.b, a1);
+  const hp2 = hue(lab2.b, a2);
+
+  const dL = lab2.L - lab1.L;
+  const dC = cp2 - cp1;
+  let dh = 0;
+  if (cp1 * cp2 !== 0) {
+    dh = hp2 - hp1;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  const dH = 2 * Math.sqrt(cp1 * cp2) * Math.sin((dh / 2) * rad);
+
+  const lMean = (lab1.L + lab2.L) / 2;
+  const cpMean = (cp1 + cp2) / 2;
+  let hMean = hp1 + hp2;
+  if (cp1 * cp2 !== 0) {
+    if (Math.abs(hp1 - hp2) <= 180) hMean /= 2;
+    else hMean = hMean < 360 ? (hMean + 360) / 2 : (hMean - 360) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos((hMean - 30) * rad) +
+    0.24 * Math.cos(2 * hMean * rad) +
+    0.32 * Math.cos((3 * hMean + 6) * rad) -
+    0.2 * Math.cos((4 * hMean - 63) * rad);
+  const dTheta = 30 * Math.exp(-(((hMean - 275) / 25) ** 2));
+  const cpMean7 = cpMean ** 7;
+  const rC = 2 * Math.sqrt(cpMean7 / (cpMean7 + 25 ** 7));
+  const sL = 1 + (0.015 * (lMean - 50) ** 2) / Math.sqrt(20 + (lMean - 50) ** 2);
+  const sC = 1 + 0.045 * cpMean;
+  const sH = 1 + 0.015 * cpMean * t;
+  const rT = -Math.sin(2 * dTheta * rad) * rC;
+
+  return Math.sqrt(
+    (dL / sL) ** 2 + (dC / sC) ** 2 + (dH / sH) ** 2 + rT * (dC / sC) * (dH / sH)
+  );
+}
+
+/** Convert sRGB (0-255 per channel) to OKLab */
+export function rgb2oklab(r: number, g: number, b: number): Lab {
+  const linear = (v: number) => {
+    const c = v / 255;
+    return c > 0.04045 ? Math.pow((c + 0.055) / 1.055, 2.4) : c / 12.92;
+  };
+  const rl = linear(r),
+    gl = linear(g),
+    bl = linear(b);
+
+  const l = Math.cbrt(0.4122214708 * rl + 0.5363325363 * gl + 0.0514459929 * bl);
+  const m = Math.cbrt(0.2119034982 * rl + 0.6806995451 * gl + 0.1073969566 * bl);
+  const s = Math.cbrt(0.0883024619 * rl + 0.2817188376 * gl + 0.6299787005 * bl);
+
+  return {
+    L: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  };
+}
+
+/**
+ * Distance between two RGB colors (0-255 per channel) under a metric.
+ * OKLab distances are scaled by 100 so all metrics read on roughly the
+ * same scale as Lab ΔE.
+ */
+export function colorDistance(
+  rgb1: [number, number, number],
+  rgb2: [number, number, number],
+  metric: ColorMetric = DEFAULT_COLOR_METRIC
+): number {
+  if (metric === "oklab") {
+    const a = rgb2oklab(...rgb1);
+    const b = rgb2oklab(...rgb2);
+    return 100 * Math.hypot(a.L - b.L, a.a - b.a, a.b - b.b);
+  }
+  const lab1 = rgb2lab(...rgb1);
+  const lab2 = rgb2lab(...rgb2);
+  if (metric === "ciede2000") return deltaE2000(lab1, lab2);
+  if (metric === "cie76") return deltaE76(lab1, lab2);
+  return deltaE(lab1, lab2);
+}
+
 /** Parse a hex color to RGB values (0-255) */
 export function hexToRgb(hex: string): [number, number, number] {
   const h = hex.replace("#", "");
@@ -93,71 +246,42 @@ export function hexToRgb(hex: string): [number, number, number] {
   ];
 }
 
-/** Normalize any CSS color string to 6-digit hex */
-export function normalizeColor(color: string): string | null {
-  const c = color.trim().toLowerCase();
-
-  // Already hex
-  if (c.startsWith("#")) {
-    const h = c.slice(1);
-    if (h.length === 3) {
-      return "#" + h[0] + h[0] + h[1] + h[1] + h[2] + h[2];
-    }
-    if (h.length === 6) return "#" + h;
-    if (h.length === 8) return "#" + h.substring(0, 6); // strip alpha
-    return null;
-  }
-
-  // rgb() / rgba()
-  const rgbMatch = c.match(/rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/);
-  if (rgbMatch) {
-    const r = parseInt(rgbMatch[1]);
-    const g = parseInt(rgbMatch[2]);
-    const b = parseInt(rgbMatch[3]);
-    return (
-      "#" +
-      r.toString(16).padStart(2, "0") +
-      g.toString(16).padStart(2, "0") +
-      b.toString(16).padStart(2, "0")
-    );
-  }
-
-  // Named CSS colors (common subset)
-  const named: Record<string, string | null> = {
-    black: "#000000", white: "#ffffff", red: "#ff0000",
-    green: "#008000", blue: "#0000ff", yellow: "#ffff00",
-    cyan: "#00ffff", magenta: "#ff00ff", orange: "#ffa500",
-    purple: "#800080", pink: "#ffc0cb", gray: "#808080",
-    grey: "#808080", silver: "#c0c0c0", maroon: "#800000",
-    olive: "#808000", lime: "#00ff00", aqua: "#00ffff",
-    teal: "#008080", navy: "#000080", fuchsia: "#ff00ff",
-    transparent: null,
-    none: null,
-  };
-
-  if (c in named) return named[c];
+/**
+ * Normalize any CSS color string to 6-digit hex. Returns null for
+ * "none", "transparent" and unparseable values; `currentColor` resolves
+ * to the given color.
+ */
+export function normalizeColor(color: string, currentColor?: string): string | null {
+  const parsed = parseCssColor(color, currentColor);
+  if (!parsed || color.trim().toLowerCase() === "transparent") return null;
+  return parsed.hex;
+}
 
-  return null;
+/**
+ * Alpha (0-1) carried by a CSS color string: 4/8-digit hex, the alpha
+ * of rgb()/hsl()/hwb(), or 0 for "transparent". Opaque and unparseable
+ * colors return 1.
+ */
+export function colorAlpha(color: string, currentColor?: string): number {
+  return parseCssColor(color, currentColor)?.alpha ?? 1;
 }
 
 /**
  * Find the nearest palette color for a given hex color.
- * Returns the palette index and delta E distance.
+ * Returns the palette index and its distance under `metric`.
  */
 export function mapColorToPalette(
   hex: string,
-  paletteHexColors: string[]
+  paletteHexColors: string[],
+  metric: ColorMetric = DEFAULT_COLOR_METRIC
 ): { index: number; deltaE: number } {
-  const [r, g, b] = hexToRgb(hex);
-  const lab = rgb2lab(r, g, b);
+  const rgb = hexToRgb(hex);
 
   let bestIndex = 0;
   let bestDist = Infinity;
 
   for (let i = 0; i < paletteHexColors.length; i++) {
-    const [pr, pg, pb] = hexToRgb(paletteHexColors[i]);
-    const pLab = rgb2lab(pr, pg, pb);
-    const dist = deltaE(lab, pLab);
+    const dist = colorDistance(rgb, hexToRgb(paletteHexColors[i]), metric);
 
     if (dist < bestDist) {
       bestDist = dist;
@@ -168,6 +292,40 @@ export function mapColorToPalette(
   return { index: bestIndex, deltaE: bestDist };
 }
 
+/**
+ * Replace automatic mappings with hand-picked ones. Overrides are keyed
+ * by normalized hex; keys that aren't in the map are ignored.
+ */
+export function applyColorOverrides(
+  colorMap: Map<string, ColorMapping>,
+  overrides: Record<string, ColorOverride>,
+  paletteHex: string[],
+  paletteCastle: CastleColor[],
+  metric: ColorMetric = DEFAULT_COLOR_METRIC
+): Map<string, ColorMapping> {
+  const result = new Map(colorMap);
+
+  for (const [color, override] of Object.entries(overrides)) {
+    const mapping = colorMap.get(color);
+    if (!mapping) continue;
+
+    if (override === "transparent") {
+      result.set(color, { ...mapping, adjustment: undefined, overridden: true, transparent: true });
+    } else if (override >= 0 && override < paletteHex.length) {
+      result.set(color, {
+        original: mapping.original,
+        paletteIndex: override,
+        paletteHex: paletteHex[override],
+        castleColor: paletteCastle[override],
+        deltaE: colorDistance(hexToRgb(color), hexToRgb(paletteHex[override]), metric),
+        overridden: true,
+      });
+    }
+  }
+
+  return result;
+}
+
 /**
  * Build a complete color mapping from SVG colors to palette colors.
  * Returns a Map keyed by normalized hex color.
@@ -175,7 +333,8 @@ export function mapColorToPalette(
 export function buildColorMap(
   svgColors: string[],
   paletteHex: string[],
-  paletteCastle: CastleColor[]
+  paletteCastle: CastleColor[],
+  metric: ColorMetric = DEFAULT_COLOR_METRIC
 ): Map<string, ColorMapping> {
   const map = new Map<string, ColorMapping>();
 
@@ -183,7 +342,7 @@ export function buildColorMap(
     const normalized = normalizeColor(color);
     if (!normalized || map.has(normalized)) continue;
 
-    const { index, deltaE: dist } = mapColorToPalette(normalized, paletteHex);
+    const { index, deltaE: dist } = mapColorToPalette(normalized, paletteHex, metric);
     map.set(normalized, {
       original: normalized,
       paletteIndex: index,
@@ -22,6 +22,20 @@ export function multiply(m1: Matrix, m2: Matrix): Matrix {
   ];
 }
 
+/** Invert an affine matrix (returns IDENTITY for singular matrices) */
+export function invert(m: Matrix): Matrix {
+  const det = m[0] * m[3] - m[1] * m[2];
+  if (det === 0) return IDENTITY;
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det,
+  ];
+}
+
 /** Apply matrix to a point */
 export function transformPoint(
   m: Matrix,
@@ -105,3 +119,40 @@ export function parseTransform(transform: string): Matrix {
 
   return result;
 }
+
+/**
+ * Compute the transform that maps a viewBox into a viewport rectangle,
+ * following the SVG `preserveAspectRatio` rules.
+ */
+export function viewBoxTransform(
+  viewBox: [number, number, number, number] | null,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  preserveAspectRatio: string = "xMidYMid meet"
+): Matrix {
+  if (!viewBox || viewBox[2] <= 0 || viewBox[3] <= 0) {
+    return [1, 0, 0, 1, x, y];
+  }
+
+  const [vx, vy, vw, vh] = viewBox;
+  const sx = width / vw;
+  const sy = height / vh;
+  const [align, meetOrSlice] = preserveAspectRatio.trim().split(/\s+/);
+
+  if (align === "none") {
+    return [sx, 0, 0, sy, x - vx * sx, y - vy * sy];
+  }
+
+  const s = meetOrSlice === "slice" ? Math.max(sx, sy) : Math.min(sx, sy);
+  let tx = x - vx * s;
+  let ty = y - vy * s;
+
+  if (!align || align.includes("xMid")) tx += (width - vw * s) / 2;
+  else if (align.includes("xMax")) tx += width - vw * s;
+  if (!align || align.includes("YMid")) ty += (height - vh * s) / 2;
+  else if (align.includes("YMax")) ty += height - vh * s;
+
+  return [s, 0, 0, s, tx, ty];
+}
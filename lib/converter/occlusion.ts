@@ -0,0 +1,133 @@
+import type { CastlePathData } from "../castle/format";
+import type { ParsedElement } from "./parseSvg";
+import {
+  approxLength,
+  buildRegion,
+  regionContains,
+  segmentPoint,
+  segmentTangent,
+  splitWhere,
+  type Region,
+} from "./geometry";
+import { replaceSegments, type ConvertedPaths } from "./convertPaths";
+import { fillAlpha, OPAQUE_ALPHA } from "./composite";
+
+/**
+ * Hidden-line removal.
+ *
+ * Shapes are emitted in paint order, but Castle draws every outline on
+ * top of the fill PNG, so outlines of shapes covered by later shapes
+ * would show through. Each element's segments are clipped against the
+ * opaque fills painted above it (on the same layer); only the visible
+ * parts are kept.
+ */
+
+/**
+ * A point counts as hidden only if probes this far to either side of the
+ * segment are covered too, so edges lying along an occluder's boundary
+ * stay (shared-edge cleanup decides between those)
+ */
+const OCCLUSION_MARGIN = 0.01;
+
+/** An opaque fill that hides what lies beneath it */
+interface Occluder {
+  element: number;
+  region: Region;
+}
+
+/** Fill areas of opaque, visible fills, from their traced contours */
+function occluders(paths: ConvertedPaths, elements: ParsedElement[]): Occluder[] {
+  const result: Occluder[] = [];
+  for (const region of paths.fillRegions) {
+    if (region.contours.length === 0) continue;
+    const element = paths.elementIndices[region.contours[0].start];
+    if (fillAlpha(elements[element]) < OPAQUE_ALPHA) continue;
+
+    const segments: CastlePathData[] = [];
+    for (const c of region.contours) segments.push(...paths.pathDataList.slice(c.start, c.end));
+    if (segments.some((seg) => seg.isTransparent)) continue;
+    // Traced contours don't overlap, so even-odd recovers the filled area
+    result.push({ element, region: buildRegion(segments, "evenodd") });
+  }
+  return result;
+}
+
+function boundsOverlap(a: Region, b: Region): boolean {
+  return a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+}
+
+/**
+ * Remove the parts of each element's outline that are covered by opaque
+ * fills painted above it.
+ *
+ * @param elements - The elements the paths were converted from
+ * @param layerOf - Castle layer of each element, if there are several
+ */
+export function removeHiddenLines(
+  paths: ConvertedPaths,
+  elements: ParsedElement[],
+  layerOf?: number[]
+): ConvertedPaths {
+  const all = occluders(paths, elements);
+  if (all.length === 0) return paths;
+
+  // Outline extent of each element, to skip occluders that can't reach it.
+  // Quadratics stay within the hull of their points, and quarter arcs
+  // within the box of their endpoints.
+  const extents = new Map<number, Region>();
+  paths.pathDataList.forEach((seg, i) => {
+    const element = paths.elementIndices[i];
+    const ext = extents.get(element);
+    const minX = Math.min(seg.p[0], seg.p[2], seg.bp?.x ?? Infinity);
+    const maxX = Math.max(seg.p[0], seg.p[2], seg.bp?.x ?? -Infinity);
+    const minY = Math.min(seg.p[1], seg.p[3], seg.bp?.y ?? Infinity);
+    const maxY = Math.max(seg.p[1], seg.p[3], seg.bp?.y ?? -Infinity);
+    if (!ext) {
+      extents.set(element, { rings: [], fillRule: "nonzero", minX, minY, maxX, maxY });
+    } else {
+      ext.minX = Math.min(ext.minX, minX);
+      ext.minY = Math.min(ext.minY, minY);
+      ext.maxX = Math.max(ext.maxX, maxX);
+      ext.maxY = Math.max(ext.maxY, maxY);
+    }
+  });
+
+  const above = new Map<number, Region[]>();
+  for (const [element, extent] of extents) {
+    above.set(
+      element,
+      all
+        .filter(
+          (o) =>
+            o.element > element &&
+            (!layerOf || layerOf[o.element] === layerOf[element]) &&
+            boundsOverlap(o.region, extent)
+        )
+        .map((o) => o.region)
+    );
+  }
+
+  const covered = (x: number, y: number, regions: Region[]) =>
+    regions.some((region) => regionContains(region, x, y));
+
+  const pieces = paths.pathDataList.map((seg, i) => {
+    const regions = above.get(paths.elementIndices[i]) ?? [];
+    if (regions.length === 0) return [seg];
+
+    const visible = splitWhere(seg, (t) => {
+      const [x, y] = segmentPoint(seg, t);
+      if (!covered(x, y, regions)) return true;
+      const [dx, dy] = segmentTangent(seg, t);
+      const len = Math.hypot(dx, dy);
+      if (len === 0) return false;
+      const nx = (-dy / len) * OCCLUSION_MARGIN,
+        ny = (dx / len) * OCCLUSION_MARGIN;
+      return !covered(x + nx, y + ny, regions) || !covered(x - nx, y - ny, regions);
+    });
+    // Pieces shorter than the margin are left over where an edge dives
+    // under an occluder; drop them
+    return visible.filter((p) => p === seg || approxLength(p) >= OCCLUSION_MARGIN);
+  });
+
+  return replaceSegments(paths, pieces);
+}
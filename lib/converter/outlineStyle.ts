@@ -0,0 +1,59 @@
+import type { CastleColor, CastleDrawData, CastlePathData } from "../castle/format";
+
+/**
+ * How the outlines of filled shapes appear in Castle: in the fill's own
+ * color ("outlined"), invisible but still editable ("fill-only", leaving
+ * the look to the fill PNG), or all in one ink color ("ink").
+ * Stroke centerlines are real lines in the SVG and keep their colors.
+ */
+export type OutlineStyle = "outlined" | "fill-only" | "ink";
+
+/** Index of the darkest palette color, the default ink */
+export function darkestColor(palette: CastleColor[]): number {
+  let best = 0;
+  let bestLuma = Infinity;
+  palette.forEach(({ r, g, b }, i) => {
+    const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    if (luma < bestLuma) {
+      best = i;
+      bestLuma = luma;
+    }
+  });
+  return best;
+}
+
+/** Restyle the fill-boundary segments of a path list */
+export function styleOutlines(
+  pathDataList: CastlePathData[],
+  style: OutlineStyle,
+  ink: CastleColor
+): CastlePathData[] {
+  if (style === "outlined") return pathDataList;
+  return pathDataList.map((seg) => {
+    if (!seg.f) return seg;
+    if (style === "fill-only") return { ...seg, isTransparent: true };
+    return { ...seg, c: [ink.r, ink.g, ink.b, ink.a] };
+  });
+}
+
+/**
+ * Restyle every frame of a drawing built with "outlined" style. Cheaper
+ * than a rebuild, since nothing else in the conversion depends on it.
+ */
+export function styleDrawData(
+  drawData: CastleDrawData,
+  style: OutlineStyle,
+  ink: CastleColor
+): CastleDrawData {
+  if (style === "outlined") return drawData;
+  return {
+    ...drawData,
+    layers: drawData.layers.map((layer) => ({
+      ...layer,
+      frames: layer.frames.map((frame) => ({
+        ...frame,
+        pathDataList: styleOutlines(frame.pathDataList, style, ink),
+      })),
+    })),
+  };
+}
@@ -0,0 +1,193 @@
+import type { CastleColor } from "../castle/format";
+import type { ParsedElement } from "./parseSvg";
+import { sampleSourcePath } from "./fidelity";
+import { viewBoxToCastleTransform } from "./convertPaths";
+import {
+  colorDistance,
+  hexToRgb,
+  DEFAULT_COLOR_METRIC,
+  type ColorMapping,
+  type ColorMetric,
+} from "./mapColors";
+import { fillAlpha, strokeAlpha } from "./composite";
+
+/** Weight of colors too small to measure, so they still count for something */
+const MIN_WEIGHT = 1e-3;
+const MAX_SWAP_PASSES = 10;
+
+/**
+ * How much of the drawing each color covers, in square Castle units:
+ * the area enclosed by each fill (overlaps and holes are not subtracted)
+ * and the length times width of each stroke, scaled by opacity. A
+ * gradient's area is shared equally among its stop colors.
+ */
+export function colorWeights(
+  elements: ParsedElement[],
+  viewBox: [number, number, number, number]
+): Map<string, number> {
+  const vbTransform = viewBoxToCastleTransform(viewBox);
+  const weights = new Map<string, number>();
+  const add = (color: string, weight: number) =>
+    weights.set(color, (weights.get(color) ?? 0) + Math.max(weight, MIN_WEIGHT));
+
+  for (const el of elements) {
+    if (!el.fill && !el.stroke) continue;
+    const polylines = sampleSourcePath(el.d, el.transform, vbTransform);
+
+    if (el.fill) {
+      let area = 0;
+      for (const ring of polylines) {
+        let twice = 0;
+        for (let i = 0; i < ring.length; i++) {
+          const [x0, y0] = ring[i];
+          const [x1, y1] = ring[(i + 1) % ring.length];
+          twice += x0 * y1 - x1 * y0;
+        }
+        area += Math.abs(twice) / 2;
+      }
+      const stops = el.fillGradient?.stops ?? [];
+      if (stops.length > 0) {
+        for (const stop of stops) add(stop.color, (area * fillAlpha(el)) / stops.length);
+      } else {
+        add(el.fill, area * fillAlpha(el));
+      }
+    }
+
+    if (el.stroke) {
+      let length = 0;
+      for (const line of polylines) {
+        for (let i = 1; i < line.length; i++) {
+          length += Math.hypot(line[i][0] - line[i - 1][0], line[i][1] - line[i - 1][1]);
+        }
+      }
+      add(el.stroke, length * el.strokeWidth * vbTransform.scale * strokeAlpha(el));
+    }
+  }
+
+  return weights;
+}
+
+/**
+ * Choose the k palette colors that best represent the weighted colors:
+ * those minimizing the summed weight × distance of every color to its
+ * nearest chosen one. Picks greedily, then swaps chosen and unchosen
+ * colors while that lowers the total. Returns palette indices, sorted.
+ */
+export function choosePaletteSubset(
+  weights: Map<string, number>,
+  paletteHex: string[],
+  maxColors: number,
+  metric: ColorMetric = DEFAULT_COLOR_METRIC
+): number[] {
+  const k = Math.max(1, Math.min(Math.floor(maxColors), paletteHex.length));
+  if (k === paletteHex.length) return paletteHex.map((_, i) => i);
+
+  const palRgb = paletteHex.map(hexToRgb);
+  const sources = Array.from(weights.entries());
+  const dist = sources.map(([color]) =>
+    palRgb.map((p) => colorDistance(hexToRgb(color), p, metric))
+  );
+
+  const totalCost = (subset: number[]): number => {
+    let cost = 0;
+    sources.forEach(([, weight], i) => {
+      let best = Infinity;
+      for (const p of subset) best = Math.min(best, dist[i][p]);
+      cost += weight * best;
+    });
+    return cost;
+  };
+
+  // Greedy: add whichever color lowers the cost most
+  const subset: number[] = [];
+  while (subset.length < k) {
+    let bestIndex = -1;
+    let bestCost = Infinity;
+    for (let p = 0; p < paletteHex.length; p++) {
+      if (subset.includes(p)) continue;
+      const cost = totalCost([...subset, p]);
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestIndex = p;
+      }
+    }
+    subset.push(bestIndex);
+  }
+
+  // Swap refinement. With each color's nearest and second-nearest
+  // chosen colors known, the cost of a swap takes one pass over the colors.
+  for (let pass = 0; pass < MAX_SWAP_PASSES; pass++) {
+    let improved = false;
+    for (let s = 0; s < subset.length; s++) {
+      const nearest: number[] = [];
+      const second: number[] = [];
+      const owner: number[] = [];
+      sources.forEach((_, i) => {
+        let d1 = Infinity;
+        let d2 = Infinity;
+        let o = -1;
+        subset.forEach((p, j) => {
+          const d = dist[i][p];
+          if (d < d1) {
+            d2 = d1;
+            d1 = d;
+            o = j;
+          } else if (d < d2) {
+            d2 = d;
+          }
+        });
+        nearest.push(d1);
+        second.push(d2);
+        owner.push(o);
+      });
+      const current = sources.reduce((sum, [, weight], i) => sum + weight * nearest[i], 0);
+
+      let bestSwap = -1;
+      let bestCost = current - 1e-9;
+      for (let p = 0; p < paletteHex.length; p++) {
+        if (subset.includes(p)) continue;
+        let cost = 0;
+        sources.forEach(([, weight], i) => {
+          const kept = owner[i] === s ? second[i] : nearest[i];
+          cost += weight * Math.min(kept, dist[i][p]);
+        });
+        if (cost < bestCost) {
+          bestCost = cost;
+          bestSwap = p;
+        }
+      }
+      if (bestSwap >= 0) {
+        subset[s] = bestSwap;
+        improved = true;
+      }
+    }
+    if (!improved) break;
+  }
+
+  return subset.sort((a, b) => a - b);
+}
+
+/**
+ * Re-express a color map built against `subset`'s colors in indices of
+ * the full palette.
+ */
+export function expandSubsetIndices(
+  colorMap: Map<string, ColorMapping>,
+  subset: number[],
+  paletteCastle: CastleColor[]
+): Map<string, ColorMapping> {
+  const result = new Map<string, ColorMapping>();
+  for (const [color, mapping] of colorMap) {
+    const paletteIndex = subset[mapping.paletteIndex];
+    result.set(color, {
+      ...mapping,
+      paletteIndex,
+      castleColor: paletteCastle[paletteIndex],
+      adjustment: mapping.adjustment && {
+        ...mapping.adjustment,
+        nearestIndex: subset[mapping.adjustment.nearestIndex],
+      },
+    });
+  }
+  return result;
+}
@@ -1,5 +1,37 @@
-import { Matrix, IDENTITY, multiply, parseTransform } from "./matrix";
-import { normalizeColor } from "./mapColors";
+import { SVGPathData } from "svg-pathdata";
+import {
+  Matrix,
+  IDENTITY,
+  multiply,
+  invert,
+  parseTransform,
+  transformPoint,
+  viewBoxTransform,
+} from "./matrix";
+import { normalizeColor, hexToRgb, colorAlpha } from "./mapColors";
+import {
+  computeStyle,
+  parseFontFaces,
+  parseStylesheet,
+  type ComputedStyle,
+  type CssRule,
+  type FontFaceRule,
+} from "./css";
+import type { FillRule } from "./geometry";
+import type { Gradient, GradientStop } from "./gradients";
+import { DEFAULT_STROKE_STYLE, type StrokeStyle } from "./strokes";
+import { layoutText, loadFontFaces, type LoadedFontFace } from "./text";
+import { parseXml, type XmlElement } from "./xml";
+
+/** One shape of a clip path, in SVG user space */
+export interface ClipShape {
+  /** SVG path d string */
+  d: string;
+  /** Transform from the shape's coordinates to root SVG space */
+  transform: Matrix;
+  /** clip-rule of the shape */
+  clipRule: FillRule;
+}
 
 /** A parsed SVG element with its computed properties */
 export interface ParsedElement {
@@ -11,8 +43,36 @@ export interface ParsedElement {
   stroke: string | null;
   /** Stroke width */
   strokeWidth: number;
+  /** Caps, joins and dashes, used when outlining the stroke */
+  strokeStyle: StrokeStyle;
   /** Accumulated transform matrix */
   transform: Matrix;
+  /** fill-rule deciding which parts of overlapping subpaths are filled */
+  fillRule: FillRule;
+  /** Element opacity multiplied by the opacity of its ancestors */
+  opacity: number;
+  /** fill-opacity times the alpha of the fill color */
+  fillOpacity: number;
+  /** stroke-opacity times the alpha of the stroke color */
+  strokeOpacity: number;
+  /**
+   * Gradient fill, if any. `fill` then holds the first stop color as a
+   * solid approximation.
+   */
+  fillGradient?: Gradient;
+  /**
+   * Clip paths from the element and its ancestors. Each clip is the union
+   * of its shapes; the element is visible where it is inside all of them.
+   */
+  clipPaths?: ClipShape[][];
+  /** Index into ParsedSvg.groups of the top-level group containing the element */
+  group: number;
+}
+
+/** A top-level group of the drawing */
+export interface SvgGroup {
+  /** inkscape:label or id of the group, or a numbered fallback */
+  title: string;
 }
 
 /** Result of parsing an SVG string */
@@ -21,16 +81,84 @@ export interface ParsedSvg {
   viewBox: [number, number, number, number];
   /** All leaf elements as path data */
   elements: ParsedElement[];
+  /**
+   * Top-level groups in document order. Shapes outside any group are
+   * collected into groups of their own, one per run of loose shapes.
+   */
+  groups: SvgGroup[];
   /** Deduplicated list of all colors found */
   colors: string[];
   /** Warnings generated during parsing */
   warnings: string[];
 }
 
+/** Size of the nearest viewport, used to resolve percentage lengths */
+interface Viewport {
+  width: number;
+  height: number;
+}
+
+/** State accumulated while walking down the SVG tree */
+interface WalkContext {
+  viewport: Viewport;
+  /** Product of ancestor opacities */
+  opacity: number;
+  /** Top-level group being walked */
+  group: number;
+}
+
+/** Parse a viewBox attribute, or null if missing or malformed */
+function parseViewBox(attr: string | null): [number, number, number, number] | null {
+  if (!attr) return null;
+  const parts = attr.trim().split(/[\s,]+/).map(Number);
+  if (parts.length !== 4 || parts.some(isNaN)) return null;
+  return [parts[0], parts[1], parts[2], parts[3]];
+}
+
+/** Parse the stroke geometry properties of a computed style */
+function parseStrokeStyle(style: ComputedStyle): StrokeStyle {
+  const linecap = style["stroke-linecap"];
+  const linejoin = style["stroke-linejoin"];
+  const miterlimit = parseFloat(style["stroke-miterlimit"] || "");
+
+  // Lengths only; percentages and "none" disable dashing
+  const dashValues = (style["stroke-dasharray"] || "none")
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((v) => (v.endsWith("%") ? NaN : parseFloat(v)));
+  const dasharray = dashValues.some((v) => isNaN(v)) ? [] : dashValues;
+
+  return {
+    linecap: linecap === "round" || linecap === "square" ? linecap : "butt",
+    // miter-clip and arcs fall back to miter, as in browsers without support
+    linejoin: linejoin === "round" || linejoin === "bevel" ? linejoin : "miter",
+    miterlimit: miterlimit >= 1 ? miterlimit : DEFAULT_STROKE_STYLE.miterlimit,
+    dasharray,
+    dashoffset: parseFloat(style["stroke-dashoffset"] || "0") || 0,
+  };
+}
+
+/** Parse an opacity value (number or percentage), clamped to 0-1 */
+function parseOpacity(value: string | undefined): number {
+  if (!value) return 1;
+  let n = parseFloat(value);
+  if (isNaN(n)) return 1;
+  if (value.trim().endsWith("%")) n /= 100;
+  return Math.max(0, Math.min(1, n));
+}
+
+/** Parse a length attribute, resolving percentages against a reference size */
+function parseLength(value: string | null, reference: number, fallback: number): number {
+  if (!value) return fallback;
+  const n = parseFloat(value);
+  if (isNaN(n)) return fallback;
+  return value.trim().endsWith("%") ? (n / 100) * reference : n;
+}
+
 /**
  * Convert basic SVG shapes to path d strings.
  */
-function rectToPath(el: Element): string | null {
+function rectToPath(el: XmlElement): string | null {
   const x = parseFloat(el.getAttribute("x") || "0");
   const y = parseFloat(el.getAttribute("y") || "0");
   const w = parseFloat(el.getAttribute("width") || "0");
@@ -58,7 +186,7 @@ function rectToPath(el: Element): string | null {
   return `M${x},${y}L${x + w},${y}L${x + w},${y + h}L${x},${y + h}Z`;
 }
 
-function circleToPath(el: Element): string | null {
+function circleToPath(el: XmlElement): string | null {
   const cx = parseFloat(el.getAttribute("cx") || "0");
   const cy = parseFloat(el.getAttribute("cy") || "0");
   const r = parseFloat(el.getAttribute("r") || "0");
@@ -71,7 +199,7 @@ function circleToPath(el: Element): string | null {
   );
 }
 
-function ellipseToPath(el: Element): string | null {
+function ellipseToPath(el: XmlElement): string | null {
   const cx = parseFloat(el.getAttribute("cx") || "0");
   const cy = parseFloat(el.getAttribute("cy") || "0");
   const rx = parseFloat(el.getAttribute("rx") || "0");
@@ -85,7 +213,7 @@ function ellipseToPath(el: Element): string | null {
   );
 }
 
-function lineToPath(el: Element): string | null {
+function lineToPath(el: XmlElement): string | null {
   const x1 = parseFloat(el.getAttribute("x1") || "0");
   const y1 = parseFloat(el.getAttribute("y1") || "0");
   const x2 = parseFloat(el.getAttribute("x2") || "0");
@@ -93,7 +221,7 @@ function lineToPath(el: Element): string | null {
   return `M${x1},${y1}L${x2},${y2}`;
 }
 
-function polygonToPath(el: Element): string | null {
+function polygonToPath(el: XmlElement): string | null {
   const points = el.getAttribute("points");
   if (!points) return null;
   const coords = points.trim().split(/[\s,]+/).map(Number);
@@ -105,7 +233,7 @@ function polygonToPath(el: Element): string | null {
   return d + "Z";
 }
 
-function polylineToPath(el: Element): string | null {
+function polylineToPath(el: XmlElement): string | null {
   const points = el.getAttribute("points");
   if (!points) return null;
   const coords = points.trim().split(/[\s,]+/).map(Number);
@@ -117,31 +245,83 @@ function polylineToPath(el: Element): string | null {
   return d;
 }
 
-function getElementColor(el: Element, attr: string, parentStyle?: string): string | null {
-  // Check inline style first
-  const style = el.getAttribute("style");
-  if (style) {
-    const match = style.match(new RegExp(`${attr}\\s*:\\s*([^;]+)`));
-    if (match) return normalizeColor(match[1].trim());
+/** Tags that never render anything themselves */
+const NON_RENDERING = new Set([
+  "defs",
+  "style",
+  "title",
+  "desc",
+  "metadata",
+  "lineargradient",
+  "radialgradient",
+  "clippath",
+  "mask",
+  "symbol",
+]);
+
+/**
+ * The element whose children are the drawing's top-level groups: the root
+ * <svg>, or the innermost group that is its only rendering content, since
+ * editors often wrap a whole drawing in one group.
+ */
+function groupRoot(svgEl: XmlElement): XmlElement {
+  let root = svgEl;
+  for (;;) {
+    const content = root.children.filter((c) => !NON_RENDERING.has(c.tagName.toLowerCase()));
+    if (content.length !== 1 || content[0].tagName.toLowerCase() !== "g") return root;
+    root = content[0];
+  }
+}
+
+/** Convert a shape element to a path d string, or null if not a shape */
+function shapeToPath(el: XmlElement): string | null {
+  switch (el.tagName.toLowerCase()) {
+    case "path":
+      return el.getAttribute("d");
+    case "rect":
+      return rectToPath(el);
+    case "circle":
+      return circleToPath(el);
+    case "ellipse":
+      return ellipseToPath(el);
+    case "line":
+      return lineToPath(el);
+    case "polygon":
+      return polygonToPath(el);
+    case "polyline":
+      return polylineToPath(el);
+    default:
+      return null;
   }
+}
 
-  // Then attribute
-  const val = el.getAttribute(attr);
-  if (val) return normalizeColor(val);
+/** Extract the id from a `url(#id)` reference */
+function urlId(ref: string): string | null {
+  return ref.match(/url\(\s*['"]?#([^)'"]+)/)?.[1] ?? null;
+}
 
-  // Inherit from parent
-  if (parentStyle) return normalizeColor(parentStyle);
+/** Relative luminance (0-1) of a hex color */
+function luminance(hex: string): number {
+  const [r, g, b] = hexToRgb(hex).map((v) => {
+    const c = v / 255;
+    return c > 0.04045 ? Math.pow((c + 0.055) / 1.055, 2.4) : c / 12.92;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function getElementColor(style: ComputedStyle, attr: "fill" | "stroke"): string | null {
+  const val = style[attr];
+  if (val) return normalizeColor(val, style.color);
 
   return attr === "fill" ? "#000000" : null; // SVG default fill is black
 }
 
 /**
  * Parse an SVG string into structured data.
- * Uses DOMParser for browser-compatible parsing.
+ * Uses the DOM-free XML parser, so it runs in the browser, Node and native.
  */
 export function parseSvg(svgString: string): ParsedSvg {
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(svgString, "image/svg+xml");
+  const doc = parseXml(svgString);
   const svgEl = doc.querySelector("svg");
 
   if (!svgEl) {
@@ -149,114 +329,474 @@ export function parseSvg(svgString: string): ParsedSvg {
   }
 
   // Parse viewBox
-  const vbAttr = svgEl.getAttribute("viewBox");
-  let viewBox: [number, number, number, number];
+  let viewBox = parseViewBox(svgEl.getAttribute("viewBox"));
 
-  if (vbAttr) {
-    const parts = vbAttr.split(/[\s,]+/).map(Number);
-    viewBox = [parts[0], parts[1], parts[2], parts[3]];
-  } else {
+  if (!viewBox) {
     const w = parseFloat(svgEl.getAttribute("width") || "100");
     const h = parseFloat(svgEl.getAttribute("height") || "100");
     viewBox = [0, 0, w, h];
   }
 
+  // Collect embedded stylesheets in document order
+  const rules: CssRule[] = [];
+  const fontFaces: FontFaceRule[] = [];
+  for (const styleEl of doc.querySelectorAll("style")) {
+    rules.push(...parseStylesheet(styleEl.textContent, rules.length));
+    fontFaces.push(...parseFontFaces(styleEl.textContent));
+  }
+
   const elements: ParsedElement[] = [];
+  const groups: SvgGroup[] = [];
   const colorSet = new Set<string>();
   const warnings: string[] = [];
 
-  function walk(node: Element, parentMatrix: Matrix, parentFill?: string, parentStroke?: string) {
+  // Fonts are only loaded when the document actually has text
+  let fonts: LoadedFontFace[] | null = null;
+
+  // Elements currently being instanced by <use>, to break reference cycles
+  const activeUses = new Set<XmlElement>();
+
+  /**
+   * Establish a new viewport (nested <svg> or instanced <symbol>) and walk
+   * its children in the resulting coordinate system.
+   */
+  function walkViewport(
+    node: XmlElement,
+    matrix: Matrix,
+    style: ComputedStyle,
+    ctx: WalkContext,
+    width: number,
+    height: number
+  ) {
+    const x = parseLength(node.getAttribute("x"), ctx.viewport.width, 0);
+    const y = parseLength(node.getAttribute("y"), ctx.viewport.height, 0);
+    if (width <= 0 || height <= 0) return;
+
+    const vb = parseViewBox(node.getAttribute("viewBox"));
+    const par = node.getAttribute("preserveAspectRatio") || undefined;
+    const viewportMatrix = multiply(matrix, viewBoxTransform(vb, x, y, width, height, par));
+    const inner: Viewport = vb ? { width: vb[2], height: vb[3] } : { width, height };
+
+    for (let i = 0; i < node.children.length; i++) {
+      walk(node.children[i], viewportMatrix, style, { ...ctx, viewport: inner });
+    }
+  }
+
+  /** Instance the element referenced by a <use> */
+  function walkUse(node: XmlElement, matrix: Matrix, style: ComputedStyle, ctx: WalkContext) {
+    const href = node.getAttribute("href") || node.getAttribute("xlink:href");
+    const id = href?.trim().match(/^#(.+)$/)?.[1];
+    const target = id ? doc.getElementById(id) : null;
+
+    if (!target) {
+      if (href) warnings.push(`<use> references missing element ${href}`);
+      return;
+    }
+    if (activeUses.has(target)) {
+      warnings.push(`Circular <use> reference to ${href} ignored`);
+      return;
+    }
+
+    const x = parseLength(node.getAttribute("x"), ctx.viewport.width, 0);
+    const y = parseLength(node.getAttribute("y"), ctx.viewport.height, 0);
+    const useMatrix = multiply(matrix, [1, 0, 0, 1, x, y]);
+    const targetTag = target.tagName.toLowerCase();
+
+    activeUses.add(target);
+    if (targetTag === "symbol" || targetTag === "svg") {
+      // width/height on the <use> override those of the referenced viewport
+      const w = node.getAttribute("width") || target.getAttribute("width") || "100%";
+      const h = node.getAttribute("height") || target.getAttribute("height") || "100%";
+      const targetStyle = computeStyle(target, rules, style);
+      if (targetStyle.display !== "none") {
+        const transformAttr = target.getAttribute("transform");
+        const targetMatrix = transformAttr ? multiply(useMatrix, parseTransform(transformAttr)) : useMatrix;
+        walkViewport(
+          target,
+          targetMatrix,
+          targetStyle,
+          ctx,
+          parseLength(w, ctx.viewport.width, 0),
+          parseLength(h, ctx.viewport.height, 0)
+        );
+      }
+    } else {
+      walk(target, useMatrix, style, ctx);
+    }
+    activeUses.delete(target);
+  }
+
+  /** Bounding box of elements in the user space given by `matrix` */
+  function elementsBounds(added: ParsedElement[], matrix: Matrix) {
+    const toUser = invert(matrix);
+    let minX = Infinity,
+      minY = Infinity,
+      maxX = -Infinity,
+      maxY = -Infinity;
+
+    for (const el of added) {
+      let b;
+      try {
+        b = new SVGPathData(el.d).toAbs().getBounds();
+      } catch {
+        continue;
+      }
+      const m = multiply(toUser, el.transform);
+      for (const [x, y] of [
+        [b.minX, b.minY],
+        [b.maxX, b.minY],
+        [b.minX, b.maxY],
+        [b.maxX, b.maxY],
+      ]) {
+        const [ux, uy] = transformPoint(m, x, y);
+        minX = Math.min(minX, ux);
+        minY = Math.min(minY, uy);
+        maxX = Math.max(maxX, ux);
+        maxY = Math.max(maxY, uy);
+      }
+    }
+
+    if (minX === Infinity) return null;
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+  }
+
+  /**
+   * Collect the shapes inside a <clipPath> or <mask>. Mask content is
+   * approximated as a hard clip: shapes whose fill is dark (luminance
+   * below 50%) are treated as hiding content and left out.
+   */
+  function collectClipShapes(
+    container: XmlElement,
+    matrix: Matrix,
+    parentStyle: ComputedStyle | null,
+    isMask: boolean,
+    shapes: ClipShape[]
+  ) {
+    for (let i = 0; i < container.children.length; i++) {
+      let child = container.children[i];
+      let style = computeStyle(child, rules, parentStyle);
+      if (style.display === "none" || style.visibility === "hidden") continue;
+
+      const transformAttr = child.getAttribute("transform");
+      let childMatrix = transformAttr ? multiply(matrix, parseTransform(transformAttr)) : matrix;
+
+      if (child.tagName.toLowerCase() === "use") {
+        const id = (child.getAttribute("href") || child.getAttribute("xlink:href"))?.replace(/^#/, "");
+        const target = id ? doc.getElementById(id) : null;
+        if (!target) continue;
+        const x = parseFloat(child.getAttribute("x") || "0");
+        const y = parseFloat(child.getAttribute("y") || "0");
+        childMatrix = multiply(childMatrix, [1, 0, 0, 1, x, y]);
+        const targetTransform = target.getAttribute("transform");
+        if (targetTransform) childMatrix = multiply(childMatrix, parseTransform(targetTransform));
+        style = computeStyle(target, rules, style);
+        child = target;
+      }
+
+      if (child.tagName.toLowerCase() === "g") {
+        collectClipShapes(child, childMatrix, style, isMask, shapes);
+        continue;
+      }
+
+      const d = shapeToPath(child);
+      if (!d) continue;
+
+      if (isMask) {
+        const fill = style.fill ?? "black";
+        if (!fill.startsWith("url(")) {
+          const hex = normalizeColor(fill, style.color);
+          if (!hex || luminance(hex) < 0.5) continue;
+        }
+      }
+
+      const rule = isMask ? style["fill-rule"] : style["clip-rule"];
+      shapes.push({ d, transform: childMatrix, clipRule: rule === "evenodd" ? "evenodd" : "nonzero" });
+    }
+  }
+
+  /**
+   * Attach the clip-path and mask referenced by a node to all elements
+   * produced while walking it (the node itself or its descendants).
+   */
+  function applyClips(node: XmlElement, style: ComputedStyle, matrix: Matrix, added: ParsedElement[]) {
+    if (added.length === 0) return;
+
+    for (const prop of ["clip-path", "mask"] as const) {
+      const ref = style[prop];
+      if (!ref || ref === "none") continue;
+
+      const isMask = prop === "mask";
+      const id = urlId(ref);
+      const target = id ? doc.getElementById(id) : null;
+      if (!target || target.tagName.toLowerCase() !== (isMask ? "mask" : "clippath")) {
+        warnings.push(`<${node.tagName}> references missing ${prop} ${ref}; ignoring it`);
+        continue;
+      }
+
+      let clipMatrix = matrix;
+      const units = target.getAttribute(isMask ? "maskContentUnits" : "clipPathUnits");
+      if (units === "objectBoundingBox") {
+        const bbox = elementsBounds(added, matrix);
+        if (!bbox) continue;
+        clipMatrix = multiply(matrix, [bbox.width, 0, 0, bbox.height, bbox.x, bbox.y]);
+      }
+      const targetTransform = target.getAttribute("transform");
+      if (targetTransform) clipMatrix = multiply(clipMatrix, parseTransform(targetTransform));
+
+      const shapes: ClipShape[] = [];
+      collectClipShapes(target, clipMatrix, computeStyle(target, rules, null), isMask, shapes);
+
+      if (isMask) {
+        warnings.push(`Mask ${ref} approximated as a hard clip; soft edges and transparency are lost`);
+      }
+
+      for (const el of added) {
+        el.clipPaths = [...(el.clipPaths || []), shapes];
+      }
+    }
+  }
+
+  /**
+   * Resolve a gradient element (following href inheritance) for a shape
+   * with path data `d` and transform `matrix`.
+   */
+  function resolveGradient(
+    gradEl: XmlElement,
+    d: string,
+    matrix: Matrix,
+    viewport: Viewport
+  ): Gradient | null {
+    const tag = gradEl.tagName.toLowerCase();
+    if (tag !== "lineargradient" && tag !== "radialgradient") return null;
+
+    // Attributes and stops are inherited along the href chain
+    const chain: XmlElement[] = [];
+    for (let el: XmlElement | null = gradEl; el && !chain.includes(el); ) {
+      chain.push(el);
+      const href: string | null = el.getAttribute("href") || el.getAttribute("xlink:href");
+      const id: string | undefined = href?.trim().match(/^#(.+)$/)?.[1];
+      el = id ? doc.getElementById(id) : null;
+    }
+    const attr = (name: string) => {
+      for (const el of chain) {
+        const val = el.getAttribute(name);
+        if (val !== null) return val;
+      }
+      return null;
+    };
+
+    const stopsEl = chain.find((el) => el.querySelector("stop"));
+    const stops: GradientStop[] = [];
+    if (stopsEl) {
+      const stopsStyle = computeStyle(stopsEl, rules, null);
+      for (let i = 0; i < stopsEl.children.length; i++) {
+        const stopEl = stopsEl.children[i];
+        if (stopEl.tagName.toLowerCase() !== "stop") continue;
+        const stopStyle = computeStyle(stopEl, rules, stopsStyle);
+        const offsetAttr = stopEl.getAttribute("offset") || "0";
+        let offset = parseFloat(offsetAttr) || 0;
+        if (offsetAttr.trim().endsWith("%")) offset /= 100;
+        // Offsets are clamped to [0, 1] and may never decrease
+        offset = Math.max(Math.min(1, Math.max(0, offset)), stops[stops.length - 1]?.offset ?? 0);
+        const color =
+          normalizeColor(stopStyle["stop-color"] || "black", stopStyle.color) || "#000000";
+        stops.push({ offset, color });
+      }
+    }
+    if (stops.length === 0) return null;
+
+    const bboxUnits = attr("gradientUnits") !== "userSpaceOnUse";
+    let transform = matrix;
+    if (bboxUnits) {
+      let b;
+      try {
+        b = new SVGPathData(d).toAbs().getBounds();
+      } catch {
+        return null;
+      }
+      transform = multiply(matrix, [b.maxX - b.minX, 0, 0, b.maxY - b.minY, b.minX, b.minY]);
+    }
+    const gradientTransform = attr("gradientTransform");
+    if (gradientTransform) transform = multiply(transform, parseTransform(gradientTransform));
+
+    // Lengths: fractions of the bbox, or user units with % of the viewport
+    const diagonal = Math.sqrt((viewport.width ** 2 + viewport.height ** 2) / 2);
+    const len = (name: string, fallback: string, reference: number) => {
+      const value = attr(name) ?? fallback;
+      if (bboxUnits) {
+        const n = parseFloat(value);
+        return value.trim().endsWith("%") ? n / 100 : n;
+      }
+      return parseLength(value, reference, 0);
+    };
+
+    const spreadAttr = attr("spreadMethod");
+    const spread = spreadAttr === "reflect" || spreadAttr === "repeat" ? spreadAttr : "pad";
+    const cx = len("cx", "50%", viewport.width);
+    const cy = len("cy", "50%", viewport.height);
+
+    return {
+      id: gradEl.getAttribute("id") || "",
+      type: tag === "lineargradient" ? "linear" : "radial",
+      stops,
+      spread,
+      transform,
+      x1: len("x1", "0%", viewport.width),
+      y1: len("y1", "0%", viewport.height),
+      x2: len("x2", "100%", viewport.width),
+      y2: len("y2", "0%", viewport.height),
+      cx,
+      cy,
+      r: len("r", "50%", diagonal),
+      fx: attr("fx") !== null ? len("fx", "", viewport.width) : cx,
+      fy: attr("fy") !== null ? len("fy", "", viewport.height) : cy,
+    };
+  }
+
+  function walk(node: XmlElement, parentMatrix: Matrix, parentStyle: ComputedStyle | null, ctx: WalkContext) {
     // Accumulate transform
     const transformAttr = node.getAttribute("transform");
     const localMatrix = transformAttr ? parseTransform(transformAttr) : IDENTITY;
     const matrix = multiply(parentMatrix, localMatrix);
 
-    // Get inherited colors
-    const nodeFill = node.getAttribute("fill") || (node.getAttribute("style")?.match(/fill\s*:\s*([^;]+)/)?.[1]) || parentFill;
-    const nodeStroke = node.getAttribute("stroke") || (node.getAttribute("style")?.match(/stroke\s*:\s*([^;]+)/)?.[1]) || parentStroke;
+    // Resolve the cascade (attributes, <style> rules, inline style, inheritance)
+    const style = computeStyle(node, rules, parentStyle);
+    if (style.display === "none") return;
+
+    // Group opacity is approximated by multiplying it into descendants
+    const opacity = ctx.opacity * parseOpacity(style.opacity);
 
+    const start = elements.length;
+    renderNode(node, matrix, style, { ...ctx, opacity });
+    applyClips(node, style, matrix, elements.slice(start));
+  }
+
+  function renderNode(node: XmlElement, matrix: Matrix, style: ComputedStyle, ctx: WalkContext) {
     const tag = node.tagName.toLowerCase();
 
-    // Handle gradient references — sample first stop
+    // Gradients only render through fill references
     if (tag === "lineargradient" || tag === "radialgradient") return;
-    if (tag === "defs" || tag === "clippath" || tag === "mask") return;
-
-    // Detect gradients used as fills
-    const fillRef = node.getAttribute("fill");
-    if (fillRef && fillRef.startsWith("url(")) {
-      warnings.push(`Gradient fill detected on <${tag}>; using first stop color as approximation`);
-      const id = fillRef.match(/url\(#([^)]+)\)/)?.[1];
-      if (id) {
-        const gradEl = doc.getElementById(id);
-        if (gradEl) {
-          const firstStop = gradEl.querySelector("stop");
-          if (firstStop) {
-            const stopColor = firstStop.getAttribute("stop-color") || firstStop.getAttribute("style")?.match(/stop-color\s*:\s*([^;]+)/)?.[1];
-            if (stopColor) {
-              const normalized = normalizeColor(stopColor);
-              if (normalized) {
-                node.setAttribute("fill", normalized);
-              }
-            }
-          }
-        }
-      }
+    if (tag === "defs" || tag === "clippath" || tag === "mask" || tag === "style") return;
+    // Symbols only render when instanced by <use>
+    if (tag === "symbol") return;
+
+    // Nested <svg> establishes its own viewport and coordinate system
+    if (tag === "svg" && node !== svgEl) {
+      walkViewport(
+        node,
+        matrix,
+        style,
+        ctx,
+        parseLength(node.getAttribute("width") || "100%", ctx.viewport.width, 0),
+        parseLength(node.getAttribute("height") || "100%", ctx.viewport.height, 0)
+      );
+      return;
     }
 
     // Recurse into groups
     if (tag === "g" || tag === "svg") {
+      const isGroupRoot = node === rootGroup;
+      let loose = false;
       for (let i = 0; i < node.children.length; i++) {
-        walk(node.children[i], matrix, nodeFill, nodeStroke);
+        const child = node.children[i];
+        let group = ctx.group;
+        if (isGroupRoot && !NON_RENDERING.has(child.tagName.toLowerCase())) {
+          // Each group starts a new top-level group; loose shapes share one
+          const isGroup = child.tagName.toLowerCase() === "g";
+          if (isGroup || !loose) {
+            const label = child.getAttribute("inkscape:label") || child.getAttribute("id");
+            groups.push({ title: (isGroup && label) || `Layer ${groups.length + 1}` });
+          }
+          loose = !isGroup;
+          group = groups.length - 1;
+        }
+        walk(child, matrix, style, { ...ctx, group });
       }
       return;
     }
 
-    // Convert element to path d string
-    let d: string | null = null;
-
-    switch (tag) {
-      case "path":
-        d = node.getAttribute("d");
-        break;
-      case "rect":
-        d = rectToPath(node);
-        break;
-      case "circle":
-        d = circleToPath(node);
-        break;
-      case "ellipse":
-        d = ellipseToPath(node);
-        break;
-      case "line":
-        d = lineToPath(node);
-        break;
-      case "polygon":
-        d = polygonToPath(node);
-        break;
-      case "polyline":
-        d = polylineToPath(node);
-        break;
+    if (tag === "use") {
+      walkUse(node, matrix, style, ctx);
+      return;
     }
 
+    // Text becomes glyph outlines, one shape per styled run
+    if (tag === "text") {
+      fonts ??= loadFontFaces(fontFaces, warnings);
+      for (const run of layoutText(node, style, rules, fonts, warnings)) {
+        addShape(run.d, tag, matrix, { ...run.style }, ctx);
+      }
+      return;
+    }
+
+    // Convert element to path d string
+    const d = shapeToPath(node);
     if (!d) return;
 
-    const fill = getElementColor(node, "fill", nodeFill);
-    const stroke = getElementColor(node, "stroke", nodeStroke);
-    const strokeWidth = parseFloat(
-      node.getAttribute("stroke-width") || "1"
-    );
+    addShape(d, tag, matrix, style, ctx);
+  }
+
+  /** Add a leaf shape with its paint, in user space under `matrix` */
+  function addShape(d: string, tag: string, matrix: Matrix, style: ComputedStyle, ctx: WalkContext) {
+    // Gradient fills are resolved per shape (objectBoundingBox units depend
+    // on the shape's bounds); the first stop is kept as a solid fallback.
+    let fillGradient: Gradient | undefined;
+    if (style.fill?.startsWith("url(")) {
+      const id = urlId(style.fill);
+      const gradEl = id ? doc.getElementById(id) : null;
+      fillGradient = gradEl ? resolveGradient(gradEl, d, matrix, ctx.viewport) ?? undefined : undefined;
+      style.fill = fillGradient?.stops[0]?.color ?? "none";
+    }
+    if (style.stroke?.startsWith("url(")) {
+      const id = urlId(style.stroke);
+      const gradEl = id ? doc.getElementById(id) : null;
+      const gradient = gradEl ? resolveGradient(gradEl, d, matrix, ctx.viewport) : null;
+      warnings.push(`Gradient stroke on <${tag}>; using first stop color as approximation`);
+      style.stroke = gradient?.stops[0]?.color ?? "none";
+    }
+
+    const fill = getElementColor(style, "fill");
+    const stroke = getElementColor(style, "stroke");
+    const strokeWidth = parseFloat(style["stroke-width"] || "1");
+
+    // Color alpha (#rrggbbaa, rgba(), hsl(... / a)) folds into fill-/stroke-opacity
+    const fillOpacity =
+      parseOpacity(style["fill-opacity"]) *
+      (style.fill ? colorAlpha(style.fill, style.color) : 1);
+    const strokeOpacity =
+      parseOpacity(style["stroke-opacity"]) *
+      (style.stroke ? colorAlpha(style.stroke, style.color) : 1);
 
     if (fill) colorSet.add(fill);
     if (stroke) colorSet.add(stroke);
 
-    elements.push({ d, fill, stroke, strokeWidth, transform: matrix });
+    elements.push({
+      d,
+      fill,
+      stroke,
+      strokeWidth,
+      strokeStyle: parseStrokeStyle(style),
+      transform: matrix,
+      fillRule: style["fill-rule"] === "evenodd" ? "evenodd" : "nonzero",
+      opacity: ctx.opacity,
+      fillOpacity,
+      strokeOpacity,
+      fillGradient,
+      group: ctx.group,
+    });
   }
 
-  walk(svgEl, IDENTITY);
+  const rootGroup = groupRoot(svgEl);
+  walk(svgEl, IDENTITY, null, {
+    viewport: { width: viewBox[2], height: viewBox[3] },
+    opacity: 1,
+    group: 0,
+  });
 
   return {
     viewBox,
     elements,
+    groups,
     colors: Array.from(colorSet),
     warnings,
   };
@@ -0,0 +1,258 @@
+/**
+ * Pure-TypeScript PNG encoder (8-bit RGBA, no interlacing).
+ *
+ * Compression is a single fixed-Huffman deflate block with greedy LZ77
+ * matching — far from optimal, but fill layers are large flat areas of
+ * palette color, which this compresses well.
+ */
+
+/** An RGBA image, 4 bytes per pixel, rows top to bottom */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array, start: number, end: number): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1,
+    b = 0;
+  for (let i = 0; i < bytes.length; ) {
+    // Process in chunks small enough that the sums can't overflow
+    const end = Math.min(i + 5552, bytes.length);
+    for (; i < end; i++) {
+      a += bytes[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/** Growable byte buffer with an LSB-first bit writer, as deflate requires */
+class ByteWriter {
+  bytes = new Uint8Array(1 << 16);
+  length = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+
+  byte(value: number) {
+    this.ensure(1);
+    this.bytes[this.length++] = value & 0xff;
+  }
+
+  uint32(value: number) {
+    this.byte(value >>> 24);
+    this.byte(value >>> 16);
+    this.byte(value >>> 8);
+    this.byte(value);
+  }
+
+  append(data: Uint8Array) {
+    this.ensure(data.length);
+    this.bytes.set(data, this.length);
+    this.length += data.length;
+  }
+
+  /** Write `count` bits of `value`, least significant first */
+  bits(value: number, count: number) {
+    this.bitBuffer |= value << this.bitCount;
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      this.byte(this.bitBuffer);
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  /** Write a Huffman code, which deflate stores most significant bit first */
+  code(code: number, length: number) {
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | ((code >>> i) & 1);
+    }
+    this.bits(reversed, length);
+  }
+
+  flushBits() {
+    if (this.bitCount > 0) this.byte(this.bitBuffer);
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131,
+  163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+];
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049,
+  3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DIST_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 32;
+const HASH_SIZE = 1 << 15;
+
+/** Emit a literal/length symbol with the fixed Huffman code */
+function writeSymbol(out: ByteWriter, symbol: number) {
+  if (symbol < 144) out.code(0x30 + symbol, 8);
+  else if (symbol < 256) out.code(0x190 + symbol - 144, 9);
+  else if (symbol < 280) out.code(symbol - 256, 7);
+  else out.code(0xc0 + symbol - 280, 8);
+}
+
+/** Index of the last table entry not exceeding value */
+function findBase(table: number[], value: number): number {
+  let i = table.length - 1;
+  while (table[i] > value) i--;
+  return i;
+}
+
+function writeMatch(out: ByteWriter, length: number, distance: number) {
+  const li = findBase(LENGTH_BASE, length);
+  writeSymbol(out, 257 + li);
+  if (LENGTH_EXTRA[li]) out.bits(length - LENGTH_BASE[li], LENGTH_EXTRA[li]);
+
+  const di = findBase(DIST_BASE, distance);
+  out.code(di, 5);
+  if (DIST_EXTRA[di]) out.bits(distance - DIST_BASE[di], DIST_EXTRA[di]);
+}
+
+/** zlib-wrapped deflate stream (RFC 1950/1951) */
+export function zlibCompress(data: Uint8Array): Uint8Array {
+  const out = new ByteWriter();
+  out.byte(0x78); // deflate, 32K window
+  out.byte(0x01); // fastest compression level, no dictionary
+
+  out.bits(1, 1); // final block
+  out.bits(1, 2); // fixed Huffman codes
+
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const prev = new Int32Array(WINDOW_SIZE);
+  const hash = (i: number) =>
+    ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & (HASH_SIZE - 1);
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > data.length) return;
+    const h = hash(i);
+    prev[i % WINDOW_SIZE] = head[h];
+    head[h] = i;
+  };
+
+  let i = 0;
+  while (i < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (i + MIN_MATCH <= data.length) {
+      const maxLength = Math.min(MAX_MATCH, data.length - i);
+      let candidate = head[hash(i)];
+      for (let chain = 0; candidate >= 0 && chain < MAX_CHAIN; chain++) {
+        const distance = i - candidate;
+        if (distance > WINDOW_SIZE - 1) break;
+        let length = 0;
+        while (length < maxLength && data[candidate + length] === data[i + length]) length++;
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = distance;
+          if (length === maxLength) break;
+        }
+        const next = prev[candidate % WINDOW_SIZE];
+        if (next >= candidate) break; // slot was overwritten by a newer position
+        candidate = next;
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(out, bestLength, bestDistance);
+      for (let k = 0; k < bestLength; k++) insert(i + k);
+      i += bestLength;
+    } else {
+      writeSymbol(out, data[i]);
+      insert(i);
+      i++;
+    }
+  }
+
+  writeSymbol(out, 256); // end of block
+  out.flushBits();
+  out.uint32(adler32(data));
+  return out.result();
+}
+
+function writeChunk(out: ByteWriter, type: string, data: Uint8Array) {
+  out.uint32(data.length);
+  const start = out.length;
+  for (let i = 0; i < 4; i++) out.byte(type.charCodeAt(i));
+  out.append(data);
+  out.uint32(crc32(out.bytes, start, out.length));
+}
+
+/** Encode an RGBA image as PNG */
+export function encodePng(image: RgbaImage): Uint8Array {
+  const { width, height, data } = image;
+  const stride = width * 4;
+
+  // Each scanline uses the Sub filter: flat color runs become zero runs
+  const filtered = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const o = y * (stride + 1);
+    filtered[o] = 1;
+    for (let x = 0; x < stride; x++) {
+      filtered[o + 1 + x] = (data[row + x] - (x >= 4 ? data[row + x - 4] : 0)) & 0xff;
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // color type: RGBA
+  // compression, filter and interlace methods are all 0
+
+  const out = new ByteWriter();
+  for (const b of [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) out.byte(b);
+  writeChunk(out, "IHDR", header);
+  writeChunk(out, "IDAT", zlibCompress(filtered));
+  writeChunk(out, "IEND", new Uint8Array(0));
+  return out.result();
+}
@@ -0,0 +1,113 @@
+import type { Point, FillRule } from "./geometry";
+import type { RgbaImage } from "./png";
+
+/**
+ * Pure-TypeScript scanline rasterizer for filled polygons.
+ *
+ * Pixels are sampled at their centers with no anti-aliasing: fill PNGs
+ * hold flat palette colors, and blended edge pixels would introduce
+ * colors outside the palette.
+ */
+
+/** Straight (non-premultiplied) RGBA, 0-255 */
+export type Rgba = [number, number, number, number];
+
+interface Edge {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  /** +1 for downward edges, -1 for upward, as seen by the winding rule */
+  dir: number;
+}
+
+/** Create a fully transparent image */
+export function createImage(width: number, height: number): RgbaImage {
+  return { width, height, data: new Uint8Array(width * height * 4) };
+}
+
+/** Composite a color over one pixel (source-over) */
+function blendPixel(image: RgbaImage, index: number, color: Rgba) {
+  const { data } = image;
+  const sa = color[3] / 255;
+  if (sa <= 0) return;
+  if (sa >= 1) {
+    data[index] = color[0];
+    data[index + 1] = color[1];
+    data[index + 2] = color[2];
+    data[index + 3] = 255;
+    return;
+  }
+  const da = data[index + 3] / 255;
+  const oa = sa + da * (1 - sa);
+  for (let c = 0; c < 3; c++) {
+    data[index + c] = Math.round((color[c] * sa + data[index + c] * da * (1 - sa)) / oa);
+  }
+  data[index + 3] = Math.round(oa * 255);
+}
+
+/**
+ * Fill closed polygons (in pixel coordinates) under a fill rule.
+ *
+ * @param shade - Color for the pixel whose center is (x, y), or null to
+ *   leave it untouched (used for clipping and per-pixel paints)
+ */
+export function fillPolygons(
+  image: RgbaImage,
+  rings: Point[][],
+  fillRule: FillRule,
+  shade: (x: number, y: number) => Rgba | null
+): void {
+  const edges: Edge[] = [];
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xa, ya] = ring[j];
+      const [xb, yb] = ring[i];
+      if (ya === yb) continue;
+      edges.push(
+        ya < yb
+          ? { x0: xa, y0: ya, x1: xb, y1: yb, dir: 1 }
+          : { x0: xb, y0: yb, x1: xa, y1: ya, dir: -1 }
+      );
+    }
+  }
+  if (edges.length === 0) return;
+  edges.sort((a, b) => a.y0 - b.y0);
+
+  let maxY = -Infinity;
+  for (const e of edges) maxY = Math.max(maxY, e.y1);
+
+  const firstRow = Math.max(0, Math.ceil(edges[0].y0 - 0.5));
+  const lastRow = Math.min(image.height - 1, Math.ceil(maxY - 0.5) - 1);
+
+  let next = 0;
+  let active: Edge[] = [];
+  const crossings: Array<[number, number]> = [];
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    const yc = row + 0.5;
+    while (next < edges.length && edges[next].y0 <= yc) active.push(edges[next++]);
+    active = active.filter((e) => e.y1 > yc);
+
+    crossings.length = 0;
+    for (const e of active) {
+      if (e.y0 > yc) continue;
+      crossings.push([e.x0 + ((yc - e.y0) / (e.y1 - e.y0)) * (e.x1 - e.x0), e.dir]);
+    }
+    crossings.sort((a, b) => a[0] - b[0]);
+
+    let winding = 0;
+    for (let k = 0; k < crossings.length - 1; k++) {
+      winding += crossings[k][1];
+      const filled = fillRule === "evenodd" ? (winding & 1) !== 0 : winding !== 0;
+      if (!filled) continue;
+
+      const start = Math.max(0, Math.ceil(crossings[k][0] - 0.5));
+      const end = Math.min(image.width, Math.ceil(crossings[k + 1][0] - 0.5));
+      for (let px = start; px < end; px++) {
+        const color = shade(px + 0.5, yc);
+        if (color) blendPixel(image, (row * image.width + px) * 4, color);
+      }
+    }
+  }
+}
@@ -1,77 +1,69 @@
-import type { CastleBounds } from "../castle/format";
-import type { ColorMapping } from "./mapColors";
-import { normalizeColor } from "./mapColors";
+import type { CastleBounds, CastleColor, CastlePathData } from "../castle/format";
+import type { FillRegion } from "./convertPaths";
+import { buildRegion } from "./geometry";
+import { createImage, fillPolygons, type Rgba } from "./rasterize";
+import { encodePng } from "./png";
+import { toBase64 } from "./base64";
 
-const FILL_PIXELS_PER_UNIT = 25.6;
+/** Fill PNG resolution, in pixels per Castle unit */
+export const FILL_PIXELS_PER_UNIT = 25.6;
 
 /**
- * Recolor an SVG string by replacing all colors with palette-snapped equivalents.
- */
-function recolorSvg(
-  svgString: string,
-  colorMap: Map<string, ColorMapping>
-): string {
-  let result = svgString;
-
-  for (const [original, mapping] of colorMap) {
-    // Replace hex colors (case-insensitive)
-    const escapedHex = original.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-    result = result.replace(
-      new RegExp(escapedHex, "gi"),
-      mapping.paletteHex
-    );
-  }
-
-  return result;
-}
-
-/**
- * Render the fill PNG for a Castle drawing.
- * Uses an offscreen canvas to render the recolored SVG, then extracts as base64 PNG.
+ * Render the fill PNG for a Castle layer from its converted geometry.
  *
- * @param svgString - Original SVG string
- * @param colorMap - Color mapping from buildColorMap
- * @param bounds - Castle-space bounds
- * @returns base64-encoded PNG string (without data:image/png;base64, prefix)
+ * Each fill region's closed contours are scan-converted in paint order
+ * with the region's palette color and opacity, in Castle coordinates
+ * relative to `bounds`, so the bitmap lines up with the paths drawn from
+ * the same geometry. Strokes drawn as centerlines have no fill region and
+ * are left to the Castle paths.
+ *
+ * @param pathDataList - Converted segments the regions' contours index into
+ * @param fillRegions - Regions to paint, bottom first
+ * @param palette - Castle palette the regions' paletteIndex refers to
+ * @param bounds - Castle-space bounds, from computeBounds
+ * @returns base64-encoded PNG string (without data:image/png;base64, prefix),
+ *   or "" if nothing was painted
  */
-export async function renderFillPng(
-  svgString: string,
-  colorMap: Map<string, ColorMapping>,
+export function renderFillPng(
+  pathDataList: CastlePathData[],
+  fillRegions: FillRegion[],
+  palette: CastleColor[],
   bounds: CastleBounds
-): Promise<string> {
-  const width = Math.ceil((bounds.maxX - bounds.minX) * FILL_PIXELS_PER_UNIT);
-  const height = Math.ceil((bounds.maxY - bounds.minY) * FILL_PIXELS_PER_UNIT);
+): string {
+  const width = Math.round((bounds.maxX - bounds.minX) * FILL_PIXELS_PER_UNIT);
+  const height = Math.round((bounds.maxY - bounds.minY) * FILL_PIXELS_PER_UNIT);
 
   if (width <= 0 || height <= 0) return "";
 
-  // Recolor the SVG
-  const recolored = recolorSvg(svgString, colorMap);
+  const image = createImage(width, height);
+  let painted = false;
 
-  // Create offscreen canvas
-  const canvas = document.createElement("canvas");
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext("2d");
-  if (!ctx) throw new Error("Failed to create canvas context");
+  for (const region of fillRegions) {
+    const color = palette[region.paletteIndex];
+    if (!color || region.alpha <= 0) continue;
 
-  // Render SVG to canvas via Image + data URI
-  return new Promise<string>((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      ctx.drawImage(img, 0, 0, width, height);
-      const dataUrl = canvas.toDataURL("image/png");
-      // Strip the data:image/png;base64, prefix
-      const base64 = dataUrl.split(",")[1] || "";
-      resolve(base64);
-    };
-    img.onerror = () => {
-      // If SVG rendering fails, return empty string (no fill)
-      resolve("");
-    };
+    const segments: CastlePathData[] = [];
+    for (const c of region.contours) segments.push(...pathDataList.slice(c.start, c.end));
+    if (segments.length === 0 || segments.some((seg) => seg.isTransparent)) continue;
+
+    // Traced contours don't overlap, so even-odd recovers the filled area
+    const rings = buildRegion(segments, "evenodd").rings.map((ring) =>
+      ring.map(([x, y]): [number, number] => [
+        (x - bounds.minX) * FILL_PIXELS_PER_UNIT,
+        (y - bounds.minY) * FILL_PIXELS_PER_UNIT,
+      ])
+    );
+    const rgba: Rgba = [
+      Math.round(color.r * 255),
+      Math.round(color.g * 255),
+      Math.round(color.b * 255),
+      Math.round(region.alpha * 255),
+    ];
+    fillPolygons(image, rings, "evenodd", () => rgba);
+    painted = true;
+  }
 
-    const blob = new Blob([recolored], { type: "image/svg+xml;charset=utf-8" });
-    img.src = URL.createObjectURL(blob);
-  });
+  return painted ? toBase64(encodePng(image)) : "";
 }
 
 /**
@@ -101,12 +93,15 @@ export function computeBounds(
     return { minX: -10, maxX: 10, minY: -10, maxY: 10 };
   }
 
-  // Add a small margin
+  // Add a small margin, then snap outward to whole fill pixels so the
+  // PNG covers the bounds exactly and isn't stretched when drawn
   const margin = 0.1;
+  const snapDown = (v: number) => Math.floor(v * FILL_PIXELS_PER_UNIT) / FILL_PIXELS_PER_UNIT;
+  const snapUp = (v: number) => Math.ceil(v * FILL_PIXELS_PER_UNIT) / FILL_PIXELS_PER_UNIT;
   return {
-    minX: minX - margin,
-    maxX: maxX + margin,
-    minY: minY - margin,
-    maxY: maxY + margin,
+    minX: snapDown(minX - margin),
+    maxX: snapUp(maxX + margin),
+    minY: snapDown(minY - margin),
+    maxY: snapUp(maxY + margin),
   };
 }
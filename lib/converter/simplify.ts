@@ -0,0 +1,325 @@
+import type { CastlePathData } from "../castle/format";
+import { isArcSegment } from "../castle/arcs";
+import { approxLength, segmentPoint, segmentTangent, type Point } from "./geometry";
+import type { ConvertedPaths, FillContour, FillRegion } from "./convertPaths";
+
+/**
+ * Post-conversion simplification of the combined path list.
+ *
+ * Works on runs: each fill contour, and each chain of connected stroke
+ * segments with the same paint. Within a run, zero-length segments are
+ * dropped and neighbours are merged whenever one line or quadratic stays
+ * within tolerance of both. Arcs are never merged, so circles stay round.
+ *
+ * With a segment budget, tolerance is raised step by step, least-visible
+ * (smallest) runs first and never beyond a fraction of a run's size; if
+ * that is not enough the smallest runs are dropped altogether, up to a
+ * size floor. Budgets that would need larger shapes dropped are left
+ * unmet rather than emptying the drawing.
+ */
+
+/** Settings for simplifyPaths */
+export interface SimplifyOptions {
+  /** Max deviation of merged segments from the originals, in Castle units */
+  tolerance: number;
+  /** Target maximum number of segments, if any */
+  maxSegments?: number;
+}
+
+/** What simplification did */
+export interface SimplifyStats {
+  segmentsBefore: number;
+  segmentsAfter: number;
+  /** Largest tolerance any run needed to meet the budget */
+  tolerance: number;
+  /** Contours and strokes removed entirely to meet the budget */
+  droppedRuns: number;
+  /** Bounding-box diagonal of the largest dropped run, in Castle units */
+  droppedSize: number;
+}
+
+/** Segments shorter than this are dropped */
+const ZERO_LENGTH = 1e-5;
+
+/** Connectivity tolerance when chaining segments into runs */
+const JOIN_EPSILON = 1e-6;
+
+/** Tolerance is doubled at most this many times to meet a budget */
+const MAX_TOLERANCE_STEPS = 5;
+
+/**
+ * Budget tolerance never exceeds this share of a run's size: past that a
+ * shape stops being recognizable, and dropping it is the better trade
+ */
+const MAX_RELATIVE_TOLERANCE = 0.1;
+
+/**
+ * Only runs up to this share of the drawing's diagonal are dropped for a
+ * budget; larger shapes always stay
+ */
+const MAX_DROP_SHARE = 0.05;
+
+/** Cap on original pieces folded into one merged segment */
+const MAX_MERGED_PIECES = 16;
+
+/** Samples per piece when checking a merge */
+const MERGE_SAMPLES = 8;
+
+/** Samples along a merge candidate */
+const CANDIDATE_SAMPLES = 32;
+
+/** A run of segments simplified as a unit */
+interface Run {
+  segments: CastlePathData[];
+  elementIndex: number;
+  /** Fill contour the run came from, if any */
+  contour?: { region: number; hole: boolean };
+  /** Bounding-box diagonal: how visible the run is */
+  size: number;
+}
+
+function samePaint(a: CastlePathData, b: CastlePathData): boolean {
+  return (
+    a.f === b.f &&
+    !!a.isTransparent === !!b.isTransparent &&
+    (a.c ?? []).join(",") === (b.c ?? []).join(",")
+  );
+}
+
+function connected(a: CastlePathData, b: CastlePathData): boolean {
+  return Math.abs(a.p[2] - b.p[0]) <= JOIN_EPSILON && Math.abs(a.p[3] - b.p[1]) <= JOIN_EPSILON;
+}
+
+function runSize(segments: CastlePathData[]): number {
+  let minX = Infinity,
+    minY = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity;
+  for (const seg of segments) {
+    for (let i = 0; i <= 4; i++) {
+      const [x, y] = segmentPoint(seg, i / 4);
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  return Math.hypot(maxX - minX, maxY - minY);
+}
+
+/** Split the path list into fill contours and connected stroke chains of one element */
+function splitRuns(paths: ConvertedPaths): Run[] {
+  const { pathDataList, fillRegions, elementIndices } = paths;
+  const contourAt = new Map<number, { end: number; region: number; hole: boolean }>();
+  fillRegions.forEach((region, r) => {
+    for (const c of region.contours) contourAt.set(c.start, { end: c.end, region: r, hole: c.hole });
+  });
+
+  const runs: Run[] = [];
+  let i = 0;
+  while (i < pathDataList.length) {
+    const contour = contourAt.get(i);
+    let end = i + 1;
+    if (contour) {
+      end = contour.end;
+    } else {
+      while (
+        end < pathDataList.length &&
+        !contourAt.has(end) &&
+        elementIndices[end] === elementIndices[i] &&
+        connected(pathDataList[end - 1], pathDataList[end]) &&
+        samePaint(pathDataList[end - 1], pathDataList[end])
+      ) {
+        end++;
+      }
+    }
+    const segments = pathDataList.slice(i, end);
+    runs.push({
+      segments,
+      elementIndex: elementIndices[i],
+      contour: contour && { region: contour.region, hole: contour.hole },
+      size: runSize(segments),
+    });
+    i = end;
+  }
+  return runs;
+}
+
+/** Point where the lines through a (direction da) and b (direction db) meet */
+function intersectLines(a: Point, da: Point, b: Point, db: Point): [number, number] | null {
+  const den = da[0] * db[1] - da[1] * db[0];
+  if (Math.abs(den) < 1e-12) return null;
+  const s = ((b[0] - a[0]) * db[1] - (b[1] - a[1]) * db[0]) / den;
+  const t = ((b[0] - a[0]) * da[1] - (b[1] - a[1]) * da[0]) / den;
+  return [s, t];
+}
+
+/** Max distance from any sample of `from` to the polyline through `to` */
+function maxDeviation(from: Point[], to: Point[]): number {
+  let worst = 0;
+  for (const [x, y] of from) {
+    let best = Infinity;
+    for (let i = 1; i < to.length; i++) {
+      const [ax, ay] = to[i - 1];
+      const dx = to[i][0] - ax,
+        dy = to[i][1] - ay;
+      const lenSq = dx * dx + dy * dy;
+      const t = lenSq > 0 ? Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / lenSq)) : 0;
+      best = Math.min(best, Math.hypot(ax + dx * t - x, ay + dy * t - y));
+    }
+    worst = Math.max(worst, best);
+  }
+  return worst;
+}
+
+function samplePieces(pieces: CastlePathData[], n: number): Point[] {
+  const pts: Point[] = [[pieces[0].p[0], pieces[0].p[1]]];
+  for (const piece of pieces) {
+    for (let i = 1; i <= n; i++) pts.push(segmentPoint(piece, i / n));
+  }
+  return pts;
+}
+
+/**
+ * One line or quadratic replacing a chain of pieces, or null if none
+ * stays within tolerance of them (checked in both directions).
+ */
+function mergePieces(pieces: CastlePathData[], tolerance: number): CastlePathData | null {
+  const first = pieces[0];
+  const last = pieces[pieces.length - 1];
+  const start: Point = [first.p[0], first.p[1]];
+  const end: Point = [last.p[2], last.p[3]];
+  // Never collapse a closed loop into a single segment
+  if (Math.hypot(end[0] - start[0], end[1] - start[1]) < ZERO_LENGTH) return null;
+
+  const candidate: CastlePathData = { ...first, p: [start[0], start[1], end[0], end[1]] };
+  delete candidate.bp;
+
+  if (pieces.some((p) => p.bp)) {
+    // Quadratic through the tangent intersection, if it lies ahead of the
+    // start and behind the end
+    const t0 = segmentTangent(first, 0);
+    const t1 = segmentTangent(last, 1);
+    const hit = intersectLines(start, t0, end, t1);
+    if (hit && hit[0] > 0 && hit[1] < 0) {
+      candidate.bp = { x: start[0] + t0[0] * hit[0], y: start[1] + t0[1] * hit[0] };
+    }
+  }
+
+  const original = samplePieces(pieces, MERGE_SAMPLES);
+  const merged = samplePieces([candidate], CANDIDATE_SAMPLES);
+  if (maxDeviation(original, merged) > tolerance) return null;
+  if (maxDeviation(merged, original) > tolerance) return null;
+  return candidate;
+}
+
+/** Simplify one run's segments */
+function simplifyRun(segments: CastlePathData[], tolerance: number): CastlePathData[] {
+  const out: CastlePathData[] = [];
+  // Original pieces behind each output segment
+  const sources: CastlePathData[][] = [];
+
+  for (const seg of segments) {
+    if (!isArcSegment(seg) && approxLength(seg) < ZERO_LENGTH) continue;
+
+    const k = out.length - 1;
+    if (
+      k >= 0 &&
+      !isArcSegment(seg) &&
+      !isArcSegment(out[k]) &&
+      connected(out[k], seg) &&
+      sources[k].length < MAX_MERGED_PIECES
+    ) {
+      const merged = mergePieces([...sources[k], seg], tolerance);
+      if (merged) {
+        out[k] = merged;
+        sources[k].push(seg);
+        continue;
+      }
+    }
+    out.push(seg);
+    sources.push([seg]);
+  }
+
+  return out;
+}
+
+/** Reassemble runs into a path list, re-indexing fill contours */
+function joinRuns(
+  runs: Run[],
+  simplified: CastlePathData[][],
+  keep: boolean[],
+  regions: FillRegion[]
+): ConvertedPaths {
+  const pathDataList: CastlePathData[] = [];
+  const elementIndices: number[] = [];
+  const contours: FillContour[][] = regions.map(() => []);
+
+  runs.forEach((run, i) => {
+    if (!keep[i] || simplified[i].length === 0) return;
+    const start = pathDataList.length;
+    pathDataList.push(...simplified[i]);
+    for (let k = 0; k < simplified[i].length; k++) elementIndices.push(run.elementIndex);
+    if (run.contour) {
+      contours[run.contour.region].push({ start, end: pathDataList.length, hole: run.contour.hole });
+    }
+  });
+
+  const fillRegions = regions
+    .map((region, r) => ({ ...region, contours: contours[r] }))
+    .filter((region) => region.contours.length > 0);
+  return { pathDataList, fillRegions, elementIndices };
+}
+
+/**
+ * Simplify converted paths, optionally to a segment budget.
+ */
+export function simplifyPaths(
+  paths: ConvertedPaths,
+  options: SimplifyOptions
+): ConvertedPaths & { stats: SimplifyStats } {
+  const { tolerance, maxSegments } = options;
+  const runs = splitRuns(paths);
+  const simplified = runs.map((run) => simplifyRun(run.segments, tolerance));
+  const keep = runs.map(() => true);
+  let usedTolerance = tolerance;
+
+  const count = () => simplified.reduce((sum, s, i) => sum + (keep[i] ? s.length : 0), 0);
+
+  if (maxSegments !== undefined && count() > maxSegments) {
+    // Least-visible runs give up detail first
+    const order = runs.map((_, i) => i).sort((a, b) => runs[a].size - runs[b].size);
+
+    let total = count();
+    for (let step = 1; step <= MAX_TOLERANCE_STEPS && total > maxSegments; step++) {
+      const stepTolerance = tolerance * 2 ** step;
+      for (const i of order) {
+        if (total <= maxSegments) break;
+        if (stepTolerance > runs[i].size * MAX_RELATIVE_TOLERANCE) continue;
+        const coarser = simplifyRun(runs[i].segments, stepTolerance);
+        total += coarser.length - simplified[i].length;
+        simplified[i] = coarser;
+        usedTolerance = stepTolerance;
+      }
+    }
+
+    const dropLimit = runSize(paths.pathDataList) * MAX_DROP_SHARE;
+    for (const i of order) {
+      if (total <= maxSegments || runs[i].size > dropLimit) break;
+      keep[i] = false;
+      total -= simplified[i].length;
+    }
+  }
+
+  const result = joinRuns(runs, simplified, keep, paths.fillRegions);
+  return {
+    ...result,
+    stats: {
+      segmentsBefore: paths.pathDataList.length,
+      segmentsAfter: result.pathDataList.length,
+      tolerance: usedTolerance,
+      droppedRuns: keep.filter((k) => !k).length,
+      droppedSize: runs.reduce((max, run, i) => (keep[i] ? max : Math.max(max, run.size)), 0),
+    },
+  };
+}
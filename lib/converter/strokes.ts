@@ -0,0 +1,548 @@
+import { SVGPathData } from "svg-pathdata";
+import type { ParsedElement } from "./parseSvg";
+import { viewBoxToCastleTransform } from "./convertPaths";
+
+/**
+ * Stroke outlining: turns stroked paths into closed fill shapes.
+ *
+ * Each subpath (after dashing) is offset by half the stroke width on both
+ * sides, with joins between pieces and caps at open ends, producing
+ * contours that cover the stroke under the nonzero fill rule. Offsets of
+ * cubics are approximated with cubics (Tiller–Hanson) and subdivided until
+ * within tolerance, so curved strokes stay curved.
+ *
+ * Everything happens in the element's local coordinates, which is where
+ * SVG applies stroke geometry; the element transform is applied later.
+ */
+
+/** Stroke geometry properties, as computed from the SVG styles */
+export interface StrokeStyle {
+  linecap: "butt" | "round" | "square";
+  linejoin: "miter" | "round" | "bevel";
+  miterlimit: number;
+  /** Dash and gap lengths; empty for a solid stroke */
+  dasharray: number[];
+  dashoffset: number;
+}
+
+export const DEFAULT_STROKE_STYLE: StrokeStyle = {
+  linecap: "butt",
+  linejoin: "miter",
+  miterlimit: 4,
+  dasharray: [],
+  dashoffset: 0,
+};
+
+/**
+ * Strokes thinner than this (in Castle units) stay centerlines: they're
+ * no wider than Castle's own line, so outlining would only add clutter.
+ */
+const MIN_OUTLINE_WIDTH = 0.1;
+
+/** Max deviation of outline curves from the true offset, in Castle units */
+const OUTLINE_TOLERANCE = 0.01;
+
+/** Max subdivision depth when fitting offset curves */
+const MAX_OFFSET_DEPTH = 6;
+
+/** Samples per cubic when measuring arc length for dashes */
+const LENGTH_SAMPLES = 32;
+
+type Vec = [number, number];
+
+/** A line (2 points) or cubic Bézier (4 points) */
+type Piece = Vec[];
+
+interface Subpath {
+  pieces: Piece[];
+  closed: boolean;
+  /** Position and direction of a zero-length subpath, drawn as a dot by caps */
+  dot?: { at: Vec; dir: Vec };
+}
+
+const add = (a: Vec, b: Vec): Vec => [a[0] + b[0], a[1] + b[1]];
+const sub = (a: Vec, b: Vec): Vec => [a[0] - b[0], a[1] - b[1]];
+const mul = (a: Vec, k: number): Vec => [a[0] * k, a[1] * k];
+const dot = (a: Vec, b: Vec) => a[0] * b[0] + a[1] * b[1];
+const cross = (a: Vec, b: Vec) => a[0] * b[1] - a[1] * b[0];
+const dist = (a: Vec, b: Vec) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+const lerp = (a: Vec, b: Vec, t: number): Vec => [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+
+function unit(v: Vec): Vec {
+  const len = Math.hypot(v[0], v[1]);
+  return len === 0 ? [0, 0] : [v[0] / len, v[1] / len];
+}
+
+/** Left-hand normal of a unit direction */
+const normal = (v: Vec): Vec => [-v[1], v[0]];
+
+function pointAt(piece: Piece, t: number): Vec {
+  if (piece.length === 2) return lerp(piece[0], piece[1], t);
+  const [p0, p1, p2, p3] = piece;
+  const mt = 1 - t;
+  const a = mt * mt * mt,
+    b = 3 * mt * mt * t,
+    c = 3 * mt * t * t,
+    d = t * t * t;
+  return [
+    a * p0[0] + b * p1[0] + c * p2[0] + d * p3[0],
+    a * p0[1] + b * p1[1] + c * p2[1] + d * p3[1],
+  ];
+}
+
+/** Unit tangent, falling back to further control points where handles are degenerate */
+function tangentAt(piece: Piece, t: number): Vec {
+  if (piece.length === 2) return unit(sub(piece[1], piece[0]));
+  const [p0, p1, p2, p3] = piece;
+  if (t <= 0) {
+    for (const q of [p1, p2, p3]) if (dist(q, p0) > 1e-12) return unit(sub(q, p0));
+    return [0, 0];
+  }
+  if (t >= 1) {
+    for (const q of [p2, p1, p0]) if (dist(p3, q) > 1e-12) return unit(sub(p3, q));
+    return [0, 0];
+  }
+  const mt = 1 - t;
+  const d = add(
+    add(mul(sub(p1, p0), 3 * mt * mt), mul(sub(p2, p1), 6 * mt * t)),
+    mul(sub(p3, p2), 3 * t * t)
+  );
+  return Math.hypot(d[0], d[1]) > 1e-12 ? unit(d) : unit(sub(p3, p0));
+}
+
+/** The part of a piece between parameters t0 and t1 (de Casteljau) */
+function subPiece(piece: Piece, t0: number, t1: number): Piece {
+  if (piece.length === 2) return [pointAt(piece, t0), pointAt(piece, t1)];
+  const split = (p: Piece, t: number): [Piece, Piece] => {
+    const [a, b, c, d] = p;
+    const ab = lerp(a, b, t),
+      bc = lerp(b, c, t),
+      cd = lerp(c, d, t);
+    const abc = lerp(ab, bc, t),
+      bcd = lerp(bc, cd, t);
+    const m = lerp(abc, bcd, t);
+    return [
+      [a, ab, abc, m],
+      [m, bcd, cd, d],
+    ];
+  };
+  const right = t0 > 0 ? split(piece, t0)[1] : piece;
+  if (t1 >= 1) return right;
+  return split(right, (t1 - t0) / (1 - t0))[0];
+}
+
+function reversePiece(piece: Piece): Piece {
+  return piece.slice().reverse();
+}
+
+/** Split path data into subpaths of lines and cubics */
+function parseSubpaths(d: string): Subpath[] {
+  const data = new SVGPathData(d).toAbs().normalizeHVZ(false).normalizeST().qtToC().aToC();
+  const subpaths: Subpath[] = [];
+  let current: Subpath | null = null;
+  let start: Vec = [0, 0];
+  let pos: Vec = [0, 0];
+
+  const begin = () => {
+    current = { pieces: [], closed: false };
+    subpaths.push(current);
+    return current;
+  };
+
+  for (const cmd of data.commands) {
+    switch (cmd.type) {
+      case SVGPathData.MOVE_TO:
+        start = pos = [cmd.x, cmd.y];
+        begin();
+        break;
+      case SVGPathData.LINE_TO: {
+        const to: Vec = [cmd.x, cmd.y];
+        (current ?? begin()).pieces.push([pos, to]);
+        pos = to;
+        break;
+      }
+      case SVGPathData.CURVE_TO: {
+        const to: Vec = [cmd.x, cmd.y];
+        (current ?? begin()).pieces.push([pos, [cmd.x1, cmd.y1], [cmd.x2, cmd.y2], to]);
+        pos = to;
+        break;
+      }
+      case SVGPathData.CLOSE_PATH: {
+        const sp: Subpath = current ?? begin();
+        if (dist(pos, start) > 0) sp.pieces.push([pos, start]);
+        sp.closed = true;
+        pos = start;
+        current = null; // drawing after Z starts a new subpath at the same point
+        break;
+      }
+    }
+  }
+
+  // Drop zero-length pieces; a subpath made only of them becomes a dot
+  return subpaths
+    .map((sp) => {
+      const pieces = sp.pieces.filter((p) => p.some((q) => dist(q, p[0]) > 1e-9));
+      if (pieces.length > 0) return { ...sp, pieces };
+      if (sp.pieces.length > 0 || sp.closed) {
+        const at = sp.pieces.length > 0 ? sp.pieces[0][0] : start;
+        return { pieces: [], closed: false, dot: { at, dir: [1, 0] as Vec } };
+      }
+      return null;
+    })
+    .filter((sp): sp is Subpath => sp !== null);
+}
+
+/** Cumulative arc length samples of a piece: [t, length] pairs */
+function lengthTable(piece: Piece): Array<[number, number]> {
+  const n = piece.length === 2 ? 1 : LENGTH_SAMPLES;
+  const table: Array<[number, number]> = [[0, 0]];
+  let prev = piece[0];
+  let total = 0;
+  for (let i = 1; i <= n; i++) {
+    const p = pointAt(piece, i / n);
+    total += dist(prev, p);
+    table.push([i / n, total]);
+    prev = p;
+  }
+  return table;
+}
+
+/** Parameter at which a piece reaches a given arc length */
+function paramAtLength(table: Array<[number, number]>, length: number): number {
+  for (let i = 1; i < table.length; i++) {
+    const [t1, l1] = table[i];
+    if (length <= l1) {
+      const [t0, l0] = table[i - 1];
+      return l1 === l0 ? t1 : t0 + ((length - l0) / (l1 - l0)) * (t1 - t0);
+    }
+  }
+  return 1;
+}
+
+/** Break subpaths into dashes. The pattern restarts at every subpath. */
+function applyDashes(subpaths: Subpath[], dasharray: number[], dashoffset: number): Subpath[] {
+  const pattern = dasharray.length % 2 === 1 ? [...dasharray, ...dasharray] : dasharray;
+  const period = pattern.reduce((a, b) => a + b, 0);
+  if (pattern.length === 0 || period <= 0 || pattern.some((v) => v < 0)) return subpaths;
+
+  const result: Subpath[] = [];
+  for (const sp of subpaths) {
+    if (sp.dot) {
+      result.push(sp);
+      continue;
+    }
+
+    // Position within the pattern at the start of the subpath
+    let index = 0;
+    let remaining = pattern[0];
+    let offset = ((dashoffset % period) + period) % period;
+    while (offset > 0) {
+      if (offset < remaining) {
+        remaining -= offset;
+        break;
+      }
+      offset -= remaining;
+      index = (index + 1) % pattern.length;
+      remaining = pattern[index];
+    }
+
+    let dash: Subpath | null = null;
+    for (const piece of sp.pieces) {
+      const table = lengthTable(piece);
+      const total = table[table.length - 1][1];
+      let at = 0;
+
+      while (at < total || (at === total && remaining === 0)) {
+        const on = index % 2 === 0;
+        const step = Math.min(remaining, total - at);
+        if (on) {
+          const t0 = paramAtLength(table, at);
+          const t1 = paramAtLength(table, at + step);
+          if (!dash) {
+            dash = { pieces: [], closed: false };
+            result.push(dash);
+          }
+          if (step > 0) dash.pieces.push(subPiece(piece, t0, t1));
+          else if (dash.pieces.length === 0) {
+            dash.dot = { at: pointAt(piece, t0), dir: tangentAt(piece, t0) };
+          }
+        }
+        at += step;
+        remaining -= step;
+        if (remaining <= 0) {
+          if (on) dash = null;
+          index = (index + 1) % pattern.length;
+          remaining = pattern[index];
+        }
+        if (step === 0 && remaining === 0 && !on) break; // zero-length gap and dash
+      }
+    }
+  }
+
+  return result.filter((sp) => sp.pieces.length > 0 || sp.dot);
+}
+
+/** Intersection of lines a + s·da and b + t·db, or null if parallel */
+function intersectLines(a: Vec, da: Vec, b: Vec, db: Vec): Vec | null {
+  const denom = cross(da, db);
+  if (Math.abs(denom) < 1e-12) return null;
+  const s = cross(sub(b, a), db) / denom;
+  return add(a, mul(da, s));
+}
+
+/**
+ * Offset a piece by distance d to its left (negative d offsets right).
+ * Cubics use Tiller–Hanson control polygon offsetting, subdivided until
+ * the approximation is within tolerance.
+ */
+function offsetPiece(piece: Piece, d: number, tolerance: number, depth: number = 0): Piece[] {
+  if (piece.length === 2) {
+    const n = mul(normal(tangentAt(piece, 0)), d);
+    return [[add(piece[0], n), add(piece[1], n)]];
+  }
+
+  const [p0, p1, p2, p3] = piece;
+  const t0 = tangentAt(piece, 0);
+  const t1 = tangentAt(piece, 1);
+  if (t0[0] === 0 && t0[1] === 0) return [];
+
+  // Offset control polygon legs; degenerate legs borrow the end tangents
+  const leg = (a: Vec, b: Vec, fallback: Vec) => {
+    const dir = dist(a, b) > 1e-12 ? unit(sub(b, a)) : fallback;
+    return { point: add(a, mul(normal(dir), d)), dir };
+  };
+  const l1 = leg(p0, p1, t0);
+  const l2 = leg(p1, p2, unit(sub(p3, p0)));
+  const l3 = leg(p2, p3, t1);
+
+  const o0 = add(p0, mul(normal(t0), d));
+  const o3 = add(p3, mul(normal(t1), d));
+  const o1 = intersectLines(l1.point, l1.dir, l2.point, l2.dir) ?? add(p1, mul(normal(l1.dir), d));
+  const o2 = intersectLines(l2.point, l2.dir, l3.point, l3.dir) ?? add(p2, mul(normal(l3.dir), d));
+  const approx: Piece = [o0, o1, o2, o3];
+
+  if (depth < MAX_OFFSET_DEPTH) {
+    for (const t of [0.25, 0.5, 0.75]) {
+      const exact = add(pointAt(piece, t), mul(normal(tangentAt(piece, t)), d));
+      if (dist(exact, pointAt(approx, t)) > tolerance) {
+        return [
+          ...offsetPiece(subPiece(piece, 0, 0.5), d, tolerance, depth + 1),
+          ...offsetPiece(subPiece(piece, 0.5, 1), d, tolerance, depth + 1),
+        ];
+      }
+    }
+  }
+  return [approx];
+}
+
+/** Circular arc around a center as cubics, from one point to another (|sweep| ≤ π/2) */
+function arcPieces(center: Vec, from: Vec, to: Vec): Piece[] {
+  const a = sub(from, center);
+  const b = sub(to, center);
+  const sweep = Math.atan2(cross(a, b), dot(a, b));
+  if (Math.abs(sweep) < 1e-9) return [[from, to]];
+  const k = (4 / 3) * Math.tan(sweep / 4);
+  // Handle directions are the radius vectors rotated by ±90°
+  return [[from, add(from, mul([-a[1], a[0]], k)), sub(to, mul([-b[1], b[0]], k)), to]];
+}
+
+/**
+ * Connect the offset of one piece to the offset of the next around a
+ * vertex. `side` is +1 for the left offset, -1 for the right.
+ */
+function joinPieces(
+  vertex: Vec,
+  tin: Vec,
+  tout: Vec,
+  hw: number,
+  side: number,
+  style: StrokeStyle
+): Piece[] {
+  const nin = normal(tin);
+  const nout = normal(tout);
+  const a = add(vertex, mul(nin, side * hw));
+  const b = add(vertex, mul(nout, side * hw));
+  if (dist(a, b) < 1e-9 * Math.max(1, hw)) return [];
+
+  // Inner side of the turn: pivot through the vertex; nonzero filling covers the overlap
+  const outer = side * cross(tin, tout) < 0;
+  if (!outer) return [
+    [a, vertex],
+    [vertex, b],
+  ];
+
+  if (style.linejoin === "round") {
+    // Arc through the bisector (the incoming direction for a full U-turn)
+    const bisector = add(nin, nout);
+    const through = Math.hypot(bisector[0], bisector[1]) > 1e-9 ? mul(unit(bisector), side) : tin;
+    const mid = add(vertex, mul(through, hw));
+    return [...arcPieces(vertex, a, mid), ...arcPieces(vertex, mid, b)];
+  }
+
+  if (style.linejoin === "miter") {
+    const cosHalf = Math.sqrt(Math.max(0, (1 + dot(tin, tout)) / 2));
+    if (cosHalf > 0 && 1 / cosHalf <= style.miterlimit) {
+      const tip = add(vertex, mul(add(nin, nout), (side * hw) / (1 + dot(nin, nout))));
+      return [
+        [a, tip],
+        [tip, b],
+      ];
+    }
+  }
+
+  return [[a, b]];
+}
+
+/** Cap at an open end: from the left offset point to the right one, facing `dir` */
+function capPieces(at: Vec, dir: Vec, hw: number, style: StrokeStyle): Piece[] {
+  const n = normal(dir);
+  const from = add(at, mul(n, hw));
+  const to = sub(at, mul(n, hw));
+
+  if (style.linecap === "round") {
+    const tip = add(at, mul(dir, hw));
+    return [...arcPieces(at, from, tip), ...arcPieces(at, tip, to)];
+  }
+  if (style.linecap === "square") {
+    const ext = mul(dir, hw);
+    return [
+      [from, add(from, ext)],
+      [add(from, ext), add(to, ext)],
+      [add(to, ext), to],
+    ];
+  }
+  return [[from, to]];
+}
+
+/** Offset one side of a subpath, with joins (including the closing join) */
+function sideContour(sp: Subpath, hw: number, side: number, style: StrokeStyle, tolerance: number) {
+  const result: Piece[] = [];
+  const n = sp.pieces.length;
+  sp.pieces.forEach((piece, i) => {
+    result.push(...offsetPiece(piece, side * hw, tolerance));
+    if (i < n - 1 || sp.closed) {
+      const next = sp.pieces[(i + 1) % n];
+      result.push(
+        ...joinPieces(piece[piece.length - 1], tangentAt(piece, 1), tangentAt(next, 0), hw, side, style)
+      );
+    }
+  });
+  return result;
+}
+
+function formatPoint([x, y]: Vec): string {
+  return `${+x.toFixed(6)},${+y.toFixed(6)}`;
+}
+
+/** Path data for a closed contour of connected pieces */
+function contourPath(pieces: Piece[]): string {
+  if (pieces.length === 0) return "";
+  let d = `M${formatPoint(pieces[0][0])}`;
+  for (const piece of pieces) {
+    d += piece.length === 2 ? `L${formatPoint(piece[1])}` : `C${piece.slice(1).map(formatPoint).join(" ")}`;
+  }
+  return d + "Z";
+}
+
+/**
+ * Outline of a stroke as path data, to be filled with the nonzero rule.
+ *
+ * @param tolerance - Max deviation of offset curves, in path units
+ * @returns the outline path, or "" when the stroke covers nothing
+ */
+export function strokeOutline(
+  d: string,
+  width: number,
+  style: StrokeStyle,
+  tolerance: number
+): string {
+  const hw = width / 2;
+  if (!(hw > 0)) return "";
+
+  const subpaths = applyDashes(parseSubpaths(d), style.dasharray, style.dashoffset);
+  const parts: string[] = [];
+
+  for (const sp of subpaths) {
+    if (sp.dot) {
+      // Zero-length subpaths and dashes only show with round or square caps
+      if (style.linecap === "butt") continue;
+      const { at, dir } = sp.dot;
+      const back: Vec = [-dir[0], -dir[1]];
+      parts.push(contourPath([...capPieces(at, dir, hw, style), ...capPieces(at, back, hw, style)]));
+      continue;
+    }
+
+    const left = sideContour(sp, hw, 1, style, tolerance);
+    const right = sideContour(sp, hw, -1, style, tolerance)
+      .reverse()
+      .map(reversePiece);
+
+    if (sp.closed) {
+      parts.push(contourPath(left), contourPath(right));
+    } else {
+      const first = sp.pieces[0];
+      const last = sp.pieces[sp.pieces.length - 1];
+      const startDir = tangentAt(first, 0);
+      parts.push(
+        contourPath([
+          ...left,
+          ...capPieces(last[last.length - 1], tangentAt(last, 1), hw, style),
+          ...right,
+          ...capPieces(first[0], [-startDir[0], -startDir[1]], hw, style),
+        ])
+      );
+    }
+  }
+
+  return parts.join("");
+}
+
+/**
+ * Replace strokes with filled outline elements, painted just after the
+ * element's fill as SVG does. Hairline strokes stay centerlines.
+ */
+export function outlineStrokes(
+  elements: ParsedElement[],
+  viewBox: [number, number, number, number]
+): ParsedElement[] {
+  const vbTransform = viewBoxToCastleTransform(viewBox);
+  const result: ParsedElement[] = [];
+
+  for (const el of elements) {
+    if (!el.stroke || !(el.strokeWidth > 0)) {
+      result.push(el);
+      continue;
+    }
+
+    // Castle units per local unit (geometric mean for non-uniform scales)
+    const [a, b, c, d] = el.transform;
+    const scale = vbTransform.scale * Math.sqrt(Math.abs(a * d - b * c));
+    if (el.strokeWidth * scale < MIN_OUTLINE_WIDTH) {
+      result.push(el);
+      continue;
+    }
+
+    let outline = "";
+    try {
+      outline = strokeOutline(el.d, el.strokeWidth, el.strokeStyle, OUTLINE_TOLERANCE / scale);
+    } catch {
+      result.push(el);
+      continue;
+    }
+
+    if (el.fill) result.push({ ...el, stroke: null });
+    if (outline) {
+      result.push({
+        ...el,
+        d: outline,
+        fill: el.stroke,
+        fillGradient: undefined,
+        fillRule: "nonzero",
+        fillOpacity: el.strokeOpacity,
+        stroke: null,
+      });
+    }
+  }
+
+  return result;
+}
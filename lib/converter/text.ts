@@ -0,0 +1,267 @@
+import { parse as parseFont, type Font, type Glyph, type Path } from "opentype.js";
+import type { XmlElement } from "./xml";
+import {
+  computeStyle,
+  DEFAULT_FONT_SIZE,
+  type ComputedStyle,
+  type CssRule,
+  type FontFaceRule,
+} from "./css";
+import { fromBase64 } from "./base64";
+import { DEFAULT_FONT_BASE64 } from "./defaultFont";
+
+/**
+ * Text-to-outline conversion for `<text>` and `<tspan>`.
+ *
+ * Glyph outlines come from fonts embedded with `@font-face` data URIs,
+ * falling back to the bundled Roboto. Layout is deliberately simple:
+ * one line per text chunk, kerning from the font, no ligatures or
+ * complex shaping, and only the first value of x/y/dx/dy lists.
+ */
+
+/** A run of text in one style, converted to path data in user space */
+export interface TextRun {
+  d: string;
+  style: ComputedStyle;
+}
+
+/** A loaded font face */
+export interface LoadedFontFace {
+  family: string;
+  weight: number;
+  italic: boolean;
+  font: Font;
+}
+
+let defaultFont: Font | null = null;
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+/** The bundled fallback font, parsed on first use */
+function getDefaultFont(): Font {
+  if (!defaultFont) defaultFont = parseFont(toArrayBuffer(fromBase64(DEFAULT_FONT_BASE64)));
+  return defaultFont;
+}
+
+function parseWeight(weight: string | undefined): number {
+  if (!weight || weight === "normal") return 400;
+  if (weight === "bold" || weight === "bolder") return 700;
+  if (weight === "lighter") return 300;
+  const n = parseInt(weight, 10);
+  return isNaN(n) ? 400 : n;
+}
+
+/**
+ * Load `@font-face` fonts from data URIs. Faces that can't be used
+ * (external URLs, WOFF2, corrupt data) are reported in warnings.
+ */
+export function loadFontFaces(faces: FontFaceRule[], warnings: string[]): LoadedFontFace[] {
+  const loaded: LoadedFontFace[] = [];
+
+  for (const face of faces) {
+    let font: Font | null = null;
+    let problem = "no embedded font data";
+
+    for (const url of face.urls) {
+      const match = url.match(/^data:[^,]*?;base64,(.*)$/s);
+      if (!match) {
+        problem = "only data: URIs can be loaded";
+        continue;
+      }
+      try {
+        const bytes = fromBase64(match[1]);
+        if (String.fromCharCode(...bytes.subarray(0, 4)) === "wOF2") {
+          problem = "WOFF2 is not supported";
+          continue;
+        }
+        font = parseFont(toArrayBuffer(bytes));
+        break;
+      } catch {
+        problem = "the font data could not be parsed";
+      }
+    }
+
+    if (font) {
+      loaded.push({
+        family: face.family.toLowerCase(),
+        weight: parseWeight(face.weight),
+        italic: face.style === "italic" || face.style === "oblique",
+        font,
+      });
+    } else {
+      warnings.push(`Font "${face.family}" skipped (${problem}); using the bundled font`);
+    }
+  }
+
+  return loaded;
+}
+
+/** Pick the face best matching a style's font-family, weight and style */
+function selectFont(style: ComputedStyle, faces: LoadedFontFace[]): Font {
+  const families = (style["font-family"] || "")
+    .split(",")
+    .map((f) => f.trim().replace(/^["']|["']$/g, "").toLowerCase());
+  const weight = parseWeight(style["font-weight"]);
+  const italic = style["font-style"] === "italic" || style["font-style"] === "oblique";
+
+  for (const family of families) {
+    const candidates = faces.filter((f) => f.family === family);
+    if (candidates.length === 0) continue;
+    candidates.sort(
+      (a, b) =>
+        Number(a.italic !== italic) - Number(b.italic !== italic) ||
+        Math.abs(a.weight - weight) - Math.abs(b.weight - weight)
+    );
+    return candidates[0].font;
+  }
+  return getDefaultFont();
+}
+
+/**
+ * A font-size or letter-spacing in user units. computeStyle has already
+ * resolved em and % against the right font size.
+ */
+function parseFontLength(value: string | undefined, fallback: number): number {
+  if (!value || value === "normal") return fallback;
+  const n = parseFloat(value);
+  return isNaN(n) ? fallback : n;
+}
+
+/** First number of a coordinate list attribute, or null */
+function firstValue(el: XmlElement, name: string): number | null {
+  const value = el.getAttribute(name);
+  if (value === null) return null;
+  const n = parseFloat(value.trim().split(/[\s,]+/)[0]);
+  return isNaN(n) ? null : n;
+}
+
+interface Chunk {
+  anchor: string;
+  startX: number;
+  endX: number;
+  /** Glyph paths of each run in the chunk */
+  runs: Array<{ paths: Path[]; style: ComputedStyle }>;
+}
+
+/**
+ * Lay out a `<text>` element and return its glyph outlines, one run per
+ * styled piece of text, in the text element's user space.
+ *
+ * @param textStyle - Computed style of the `<text>` element itself
+ * @param faces - Fonts loaded from the document's `@font-face` rules
+ */
+export function layoutText(
+  textEl: XmlElement,
+  textStyle: ComputedStyle,
+  rules: CssRule[],
+  faces: LoadedFontFace[],
+  warnings: string[]
+): TextRun[] {
+  const chunks: Chunk[] = [];
+  let chunk: Chunk | null = null;
+  let x = 0,
+    y = 0;
+  let lastWasSpace = true; // collapses leading whitespace
+  let missingGlyphs = false;
+
+  const startChunk = (anchor: string) => {
+    chunk = { anchor, startX: x, endX: x, runs: [] };
+    chunks.push(chunk);
+  };
+
+  function position(el: XmlElement, style: ComputedStyle) {
+    const ax = firstValue(el, "x");
+    const ay = firstValue(el, "y");
+    if (ax !== null) x = ax;
+    if (ay !== null) y = ay;
+    x += firstValue(el, "dx") ?? 0;
+    y += firstValue(el, "dy") ?? 0;
+    // An absolute position starts a new anchored chunk
+    if (ax !== null || ay !== null || !chunk) startChunk(style["text-anchor"] || "start");
+  }
+
+  function addText(raw: string, style: ComputedStyle) {
+    // Default xml:space handling: drop newlines, tabs become spaces, collapse runs
+    let text = "";
+    for (const ch of raw.replace(/[\r\n]/g, "").replace(/\t/g, " ")) {
+      if (ch === " " && lastWasSpace) continue;
+      text += ch;
+      lastWasSpace = ch === " ";
+    }
+    if (!text) return;
+
+    const font = selectFont(style, faces);
+    const fontSize = parseFontLength(style["font-size"], DEFAULT_FONT_SIZE);
+    const spacing = parseFontLength(style["letter-spacing"], 0);
+    const scale = fontSize / font.unitsPerEm;
+
+    const paths: Path[] = [];
+    let prev: Glyph | null = null;
+    for (const ch of text) {
+      const glyph = font.charToGlyph(ch);
+      if (glyph.index === 0 && ch !== " ") missingGlyphs = true;
+      if (prev) {
+        try {
+          x += font.getKerningValue(prev, glyph) * scale;
+        } catch {
+          // Some GPOS lookups aren't supported; kerning is optional
+        }
+      }
+      paths.push(glyph.getPath(x, y, fontSize));
+      x += (glyph.advanceWidth ?? 0) * scale + spacing;
+      prev = glyph;
+    }
+
+    chunk!.runs.push({ paths, style });
+    chunk!.endX = x;
+  }
+
+  function visit(el: XmlElement, style: ComputedStyle) {
+    position(el, style);
+    for (const node of el.childNodes) {
+      if (typeof node === "string") {
+        addText(node, style);
+        continue;
+      }
+      const tag = node.tagName.toLowerCase();
+      if (tag !== "tspan" && tag !== "a" && tag !== "textpath") continue;
+      if (tag === "textpath") warnings.push("<textPath> is laid out on a straight line");
+
+      const childStyle = computeStyle(node, rules, style);
+      if (childStyle.display === "none") continue;
+      visit(node, childStyle);
+    }
+  }
+
+  visit(textEl, textStyle);
+
+  if (missingGlyphs) {
+    warnings.push("Text contains characters missing from the font; they appear as boxes");
+  }
+
+  // Apply text-anchor by shifting each chunk, then emit runs
+  const result: TextRun[] = [];
+  for (const c of chunks) {
+    const width = c.endX - c.startX;
+    const shift = c.anchor === "middle" ? -width / 2 : c.anchor === "end" ? -width : 0;
+    for (const run of c.runs) {
+      const d = run.paths
+        .map((path) => {
+          if (shift !== 0) {
+            for (const cmd of path.commands) {
+              if ("x" in cmd) cmd.x += shift;
+              if ("x1" in cmd) cmd.x1 += shift;
+              if ("x2" in cmd) cmd.x2 += shift;
+            }
+          }
+          return path.toPathData(4);
+        })
+        .join("");
+      if (d) result.push({ d, style: run.style });
+    }
+  }
+
+  return result;
+}
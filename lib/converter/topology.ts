@@ -0,0 +1,238 @@
+import type { CastlePathData } from "../castle/format";
+import { isArcSegment } from "../castle/arcs";
+import {
+  approxLength,
+  flattenSegment,
+  segmentPoint,
+  segmentTangent,
+  splitWhere,
+  type Point,
+} from "./geometry";
+import { replaceSegments, type ConvertedPaths } from "./convertPaths";
+
+/**
+ * Shared-edge cleanup across elements.
+ *
+ * Shapes that abut each other both outline the seam between them, so the
+ * combined output has doubled, slightly misaligned lines. Wherever a
+ * segment runs along a segment of a later (higher) element, within
+ * SHARED_EDGE_DISTANCE and in a parallel direction, the lower segment's
+ * covered part is removed; the top-most shape's edge and color remain.
+ * Endpoints of different elements that nearly meet are then snapped
+ * together, the top-most element's endpoint winning. Elements on
+ * different Castle layers are left alone, as each layer must stand on its
+ * own when moved.
+ */
+
+/** Max distance between two segments treated as one edge, in Castle units */
+const SHARED_EDGE_DISTANCE = 0.02;
+
+/** Endpoints of different elements closer than this are merged */
+const SNAP_DISTANCE = 0.02;
+
+/** Max |sin| of the angle between directions of a shared edge */
+const PARALLEL_SINE = 0.1;
+
+/** Segments shorter than this are dropped after snapping */
+const ZERO_LENGTH = 1e-5;
+
+/** Spatial grid cell size */
+const CELL_SIZE = 0.5;
+
+/** A segment flattened for distance queries */
+interface Flat {
+  index: number;
+  element: number;
+  points: Point[];
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+function flatten(seg: CastlePathData, index: number, element: number): Flat {
+  const points: Point[] = [[seg.p[0], seg.p[1]]];
+  flattenSegment(seg, points);
+  let minX = Infinity,
+    minY = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity;
+  for (const [x, y] of points) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  return { index, element, points, minX, minY, maxX, maxY };
+}
+
+function cellRange(min: number, max: number): [number, number] {
+  return [
+    Math.floor((min - SHARED_EDGE_DISTANCE) / CELL_SIZE),
+    Math.floor((max + SHARED_EDGE_DISTANCE) / CELL_SIZE),
+  ];
+}
+
+/**
+ * Whether the point lies on `flat` within SHARED_EDGE_DISTANCE, running
+ * parallel to the direction (dx, dy) (either orientation)
+ */
+function runsAlong(flat: Flat, [x, y]: Point, dx: number, dy: number): boolean {
+  const { points } = flat;
+  for (let i = 1; i < points.length; i++) {
+    const [ax, ay] = points[i - 1];
+    const ex = points[i][0] - ax,
+      ey = points[i][1] - ay;
+    const len = Math.hypot(ex, ey);
+    if (len === 0) continue;
+    const t = Math.max(0, Math.min(1, ((x - ax) * ex + (y - ay) * ey) / (len * len)));
+    if (Math.hypot(ax + ex * t - x, ay + ey * t - y) > SHARED_EDGE_DISTANCE) continue;
+    if (Math.abs(dx * ey - dy * ex) / len <= PARALLEL_SINE) return true;
+  }
+  return false;
+}
+
+/**
+ * Remove the lower copy of edges shared between elements and snap
+ * near-miss endpoints. Fill contours are re-indexed; they may no longer
+ * be closed where an edge went to another shape.
+ *
+ * @param layerOf - Castle layer of each element, if there are several
+ */
+export function dedupeSharedEdges(paths: ConvertedPaths, layerOf?: number[]): ConvertedPaths {
+  const { pathDataList, elementIndices } = paths;
+  const sameLayer = (a: number, b: number) => !layerOf || layerOf[a] === layerOf[b];
+
+  // Grid of visible segments, for finding the ones near a point
+  const flats = pathDataList.map((seg, i) => flatten(seg, i, elementIndices[i]));
+  const grid = new Map<string, Flat[]>();
+  for (const flat of flats) {
+    if (pathDataList[flat.index].isTransparent) continue;
+    const [x0, x1] = cellRange(flat.minX, flat.maxX);
+    const [y0, y1] = cellRange(flat.minY, flat.maxY);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        const key = `${cx},${cy}`;
+        const cell = grid.get(key);
+        if (cell) cell.push(flat);
+        else grid.set(key, [flat]);
+      }
+    }
+  }
+
+  const covered = (seg: CastlePathData, element: number, t: number): boolean => {
+    const point = segmentPoint(seg, t);
+    const [dx, dy] = segmentTangent(seg, t);
+    const len = Math.hypot(dx, dy);
+    if (len === 0) return false;
+    const cell = grid.get(
+      `${Math.floor(point[0] / CELL_SIZE)},${Math.floor(point[1] / CELL_SIZE)}`
+    );
+    return !!cell?.some((flat) => flat.element > element && sameLayer(flat.element, element) && runsAlong(flat, point, dx / len, dy / len));
+  };
+
+  // Keep the uncovered parts of each segment
+  const pieces: CastlePathData[][] = pathDataList.map((seg, i) => {
+    if (seg.isTransparent) return [seg];
+    const element = elementIndices[i];
+    const flat = flats[i];
+    const [x0, x1] = cellRange(flat.minX, flat.maxX);
+    const [y0, y1] = cellRange(flat.minY, flat.maxY);
+    let near = false;
+    for (let cx = x0; cx <= x1 && !near; cx++) {
+      for (let cy = y0; cy <= y1 && !near; cy++) {
+        near = !!grid.get(`${cx},${cy}`)?.some((f) => f.element > element && sameLayer(f.element, element));
+      }
+    }
+    if (!near) return [seg];
+
+    const kept = splitWhere(seg, (t) => !covered(seg, element, t));
+    if (kept.length === 1 && kept[0] === seg) return kept;
+    return kept.filter((piece) => approxLength(piece) >= SHARED_EDGE_DISTANCE);
+  });
+
+  // Snapping moves endpoints, so work on copies
+  const copies = pieces.map((list) => list.map((seg) => ({ ...seg, p: [...seg.p] })));
+  const snapped = snapEndpoints(copies, elementIndices, sameLayer);
+  return replaceSegments(paths, snapped);
+}
+
+/**
+ * Move endpoints of different elements that nearly meet onto one point.
+ * Arc endpoints never move, since arcs must stay axis-aligned with their
+ * center; otherwise the top-most element's endpoint is kept.
+ */
+function snapEndpoints(
+  pieces: CastlePathData[][],
+  elementIndices: number[],
+  sameLayer: (a: number, b: number) => boolean
+): CastlePathData[][] {
+  interface End {
+    seg: CastlePathData;
+    /** Offset of the endpoint in seg.p */
+    at: 0 | 2;
+    element: number;
+    fixed: boolean;
+  }
+
+  const ends: End[] = [];
+  pieces.forEach((list, i) => {
+    for (const seg of list) {
+      const fixed = isArcSegment(seg);
+      ends.push({ seg, at: 0, element: elementIndices[i], fixed });
+      ends.push({ seg, at: 2, element: elementIndices[i], fixed });
+    }
+  });
+
+  const grid = new Map<string, End[]>();
+  const keyOf = (x: number, y: number) =>
+    `${Math.floor(x / SNAP_DISTANCE)},${Math.floor(y / SNAP_DISTANCE)}`;
+  for (const end of ends) {
+    const key = keyOf(end.seg.p[end.at], end.seg.p[end.at + 1]);
+    const cell = grid.get(key);
+    if (cell) cell.push(end);
+    else grid.set(key, [end]);
+  }
+
+  // Seeds in priority order; each claims the unclaimed endpoints around it
+  const order = [...ends].sort(
+    (a, b) => Number(b.fixed) - Number(a.fixed) || b.element - a.element
+  );
+  const claimed = new Set<End>();
+  const moves: Array<[End, number, number]> = [];
+
+  for (const seed of order) {
+    if (claimed.has(seed)) continue;
+    claimed.add(seed);
+    const sx = seed.seg.p[seed.at],
+      sy = seed.seg.p[seed.at + 1];
+    const cluster: End[] = [];
+    const gx = Math.floor(sx / SNAP_DISTANCE),
+      gy = Math.floor(sy / SNAP_DISTANCE);
+    for (let cx = gx - 1; cx <= gx + 1; cx++) {
+      for (let cy = gy - 1; cy <= gy + 1; cy++) {
+        for (const end of grid.get(`${cx},${cy}`) ?? []) {
+          if (claimed.has(end) || !sameLayer(end.element, seed.element)) continue;
+          const x = end.seg.p[end.at],
+            y = end.seg.p[end.at + 1];
+          if (Math.hypot(x - sx, y - sy) <= SNAP_DISTANCE) cluster.push(end);
+        }
+      }
+    }
+    // Only seams between elements are snapped, never an element's own detail
+    if (!cluster.some((end) => end.element !== seed.element)) continue;
+    for (const end of cluster) {
+      claimed.add(end);
+      if (!end.fixed) moves.push([end, sx, sy]);
+    }
+  }
+
+  for (const [end, x, y] of moves) {
+    end.seg.p[end.at] = x;
+    end.seg.p[end.at + 1] = y;
+  }
+
+  return pieces.map((list) =>
+    list.filter((seg) => isArcSegment(seg) || approxLength(seg) >= ZERO_LENGTH)
+  );
+}
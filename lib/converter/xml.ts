@@ -0,0 +1,224 @@
+/**
+ * Minimal DOM-free XML parser.
+ *
+ * Produces a small element tree exposing the subset of the DOM API the
+ * converter uses (`tagName`, `getAttribute`, `children`, `parentElement`,
+ * `textContent`, `getElementById`, `querySelector` by tag name), so the
+ * pipeline runs the same in the browser, in Node and on native.
+ *
+ * Handles the XML declaration, processing instructions, comments,
+ * DOCTYPE (including an internal subset), CDATA sections, and the
+ * predefined and numeric character references. Namespaces are not
+ * resolved: prefixed names such as `xlink:href` are kept verbatim.
+ */
+
+/** Predefined XML entities */
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+/** Decode character and entity references in text or attribute values */
+function decodeEntities(text: string): string {
+  if (!text.includes("&")) return text;
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, ref: string) => {
+    if (ref[0] === "#") {
+      const code = ref[1] === "x" ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      // Out-of-range references are left as written rather than failing the parse
+      return isNaN(code) || code > 0x10ffff ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[ref] ?? match;
+  });
+}
+
+/** An XML element node */
+export class XmlElement {
+  readonly tagName: string;
+  parentElement: XmlElement | null = null;
+  /** Child elements, in document order */
+  readonly children: XmlElement[] = [];
+  /** Child elements and text, in document order */
+  readonly childNodes: Array<XmlElement | string> = [];
+  private readonly attrs = new Map<string, string>();
+
+  constructor(tagName: string) {
+    this.tagName = tagName;
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attrs.get(name) ?? null;
+  }
+
+  setAttribute(name: string, value: string): void {
+    this.attrs.set(name, value);
+  }
+
+  /** Concatenated text of all descendants */
+  get textContent(): string {
+    return this.childNodes
+      .map((node) => (typeof node === "string" ? node : node.textContent))
+      .join("");
+  }
+
+  appendChild(child: XmlElement | string): void {
+    if (typeof child !== "string") {
+      child.parentElement = this;
+      this.children.push(child);
+    }
+    this.childNodes.push(child);
+  }
+
+  /** First descendant with the given tag name, in document order */
+  querySelector(tagName: string): XmlElement | null {
+    for (const child of this.children) {
+      if (child.tagName === tagName) return child;
+      const found = child.querySelector(tagName);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  /** All descendants with the given tag name, in document order */
+  querySelectorAll(tagName: string): XmlElement[] {
+    const result: XmlElement[] = [];
+    for (const child of this.children) {
+      if (child.tagName === tagName) result.push(child);
+      result.push(...child.querySelectorAll(tagName));
+    }
+    return result;
+  }
+}
+
+/** A parsed XML document */
+export class XmlDocument {
+  readonly documentElement: XmlElement;
+  private idIndex: Map<string, XmlElement> | null = null;
+
+  constructor(documentElement: XmlElement) {
+    this.documentElement = documentElement;
+  }
+
+  /** Element with the given id (the first one, if ids are duplicated) */
+  getElementById(id: string): XmlElement | null {
+    if (!this.idIndex) {
+      this.idIndex = new Map();
+      const index = (el: XmlElement) => {
+        const elId = el.getAttribute("id");
+        if (elId !== null && !this.idIndex!.has(elId)) this.idIndex!.set(elId, el);
+        el.children.forEach(index);
+      };
+      index(this.documentElement);
+    }
+    return this.idIndex.get(id) ?? null;
+  }
+
+  /** The root element if it matches, else its first matching descendant */
+  querySelector(tagName: string): XmlElement | null {
+    if (this.documentElement.tagName === tagName) return this.documentElement;
+    return this.documentElement.querySelector(tagName);
+  }
+
+  querySelectorAll(tagName: string): XmlElement[] {
+    const result = this.documentElement.querySelectorAll(tagName);
+    if (this.documentElement.tagName === tagName) result.unshift(this.documentElement);
+    return result;
+  }
+}
+
+const NAME_RE = /[^\s/>=]+/y;
+const ATTRIBUTE_RE = /\s*([^\s/>=]+)\s*=\s*("([^"]*)"|'([^']*)')/y;
+
+/**
+ * Parse an XML string. Throws on malformed markup (unclosed or
+ * mismatched tags, missing root element).
+ */
+export function parseXml(text: string): XmlDocument {
+  let pos = 0;
+  let root: XmlElement | null = null;
+  const stack: XmlElement[] = [];
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid XML at offset ${pos}: ${message}`);
+  };
+
+  const skipPast = (terminator: string) => {
+    const end = text.indexOf(terminator, pos);
+    if (end < 0) fail(`missing "${terminator}"`);
+    pos = end + terminator.length;
+  };
+
+  while (pos < text.length) {
+    const lt = text.indexOf("<", pos);
+    const textEnd = lt < 0 ? text.length : lt;
+
+    if (textEnd > pos) {
+      const content = text.slice(pos, textEnd);
+      if (stack.length > 0) stack[stack.length - 1].appendChild(decodeEntities(content));
+      else if (content.trim()) fail("text outside the root element");
+      pos = textEnd;
+      continue;
+    }
+
+    if (text.startsWith("<!--", pos)) {
+      skipPast("-->");
+    } else if (text.startsWith("<![CDATA[", pos)) {
+      const end = text.indexOf("]]>", pos);
+      if (end < 0) fail("unterminated CDATA section");
+      if (stack.length > 0) stack[stack.length - 1].appendChild(text.slice(pos + 9, end));
+      pos = end + 3;
+    } else if (text.startsWith("<?", pos)) {
+      skipPast("?>");
+    } else if (text.startsWith("<!", pos)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = text.indexOf("[", pos);
+      const close = text.indexOf(">", pos);
+      if (bracket >= 0 && close >= 0 && bracket < close) {
+        pos = bracket;
+        skipPast("]");
+      }
+      skipPast(">");
+    } else if (text.startsWith("</", pos)) {
+      pos += 2;
+      NAME_RE.lastIndex = pos;
+      const match = NAME_RE.exec(text);
+      const name = match ? match[0] : "";
+      const open = stack.pop();
+      if (!open || open.tagName !== name) fail(`unexpected closing tag </${name}>`);
+      pos += name.length;
+      skipPast(">");
+    } else {
+      pos += 1;
+      NAME_RE.lastIndex = pos;
+      const match = NAME_RE.exec(text);
+      if (!match) fail("expected a tag name");
+      const el = new XmlElement(match![0]);
+      pos = NAME_RE.lastIndex;
+
+      for (;;) {
+        ATTRIBUTE_RE.lastIndex = pos;
+        const attr = ATTRIBUTE_RE.exec(text);
+        if (!attr) break;
+        el.setAttribute(attr[1], decodeEntities(attr[3] ?? attr[4]));
+        pos = ATTRIBUTE_RE.lastIndex;
+      }
+
+      while (pos < text.length && /\s/.test(text[pos])) pos++;
+      const selfClosing = text.startsWith("/>", pos);
+      if (!selfClosing && text[pos] !== ">") fail(`malformed tag <${el.tagName}>`);
+      pos += selfClosing ? 2 : 1;
+
+      if (stack.length > 0) stack[stack.length - 1].appendChild(el);
+      else if (root) fail("multiple root elements");
+      else root = el;
+
+      if (!selfClosing) stack.push(el);
+    }
+  }
+
+  if (stack.length > 0) fail(`unclosed tag <${stack[stack.length - 1].tagName}>`);
+  if (!root) fail("no root element");
+  return new XmlDocument(root!);
+}
@@ -1,4 +1,6 @@
 import { getApiKey } from "./apiKey";
+import type { ColorHints } from "./hints";
+import { hexToRgb } from "../converter/mapColors";
 
 export interface RecraftConfig {
   model?: string;
@@ -17,12 +19,12 @@ const RECRAFT_API_URL = "https://external.api.recraft.ai/v1/images/generations";
  * Generate an SVG image via Recraft V4 API.
  *
  * @param prompt - Text description of the art to generate
- * @param paletteHexColors - Optional hex colors to pass as color hints
+ * @param hints - Optional preferred colors and background color
  * @param config - Optional model/style/size overrides
  */
 export async function generateSvg(
   prompt: string,
-  paletteHexColors?: string[],
+  hints?: ColorHints,
   config?: RecraftConfig
 ): Promise<RecraftResult> {
   const apiKey = getApiKey();
@@ -38,21 +40,15 @@ export async function generateSvg(
     response_format: "url",
   };
 
-  if (paletteHexColors && paletteHexColors.length > 0) {
-    // Recraft accepts color hints as RGB arrays
-    body.controls = {
-      colors: paletteHexColors.slice(0, 5).map((hex) => {
-        const h = hex.replace("#", "");
-        return {
-          rgb: [
-            parseInt(h.substring(0, 2), 16),
-            parseInt(h.substring(2, 4), 16),
-            parseInt(h.substring(4, 6), 16),
-          ],
-        };
-      }),
-    };
+  // Recraft accepts color hints as RGB arrays
+  const controls: Record<string, unknown> = {};
+  if (hints && hints.colors.length > 0) {
+    controls.colors = hints.colors.map((hex) => ({ rgb: hexToRgb(hex) }));
+  }
+  if (hints?.background) {
+    controls.background_color = { rgb: hexToRgb(hints.background) };
   }
+  if (Object.keys(controls).length > 0) body.controls = controls;
 
   // Try direct fetch first, fall back to proxy route if CORS blocked
   let data: { data: Array<{ url: string }> };
@@ -0,0 +1,130 @@
+import { colorDistance, hexToRgb, mapColorToPalette } from "../converter/mapColors";
+import { namedColor } from "../converter/cssColors";
+
+/** Most hint colors sent with one generation */
+export const MAX_HINT_COLORS = 8;
+
+/** Color hints sent to Recraft with a prompt */
+export interface ColorHints {
+  /** Preferred colors as hex */
+  colors: string[];
+  /** Background color as hex, if the user set one */
+  background?: string;
+}
+
+/**
+ * Colors suggested by common prompt words. Each is snapped to the
+ * nearest palette color, so they only need to point in the right
+ * direction.
+ */
+const KEYWORD_COLORS = new Map<string, string[]>(Object.entries({
+  forest: ["#228b22", "#2e5e2e", "#6b4423", "#8b5a2b", "#9acd32"],
+  tree: ["#2e8b57", "#6b4423", "#9acd32"],
+  jungle: ["#006400", "#32cd32", "#8b5a2b", "#ffd700"],
+  grass: ["#7cfc00", "#3cb371", "#556b2f"],
+  ocean: ["#1e90ff", "#00008b", "#20b2aa", "#f0f8ff"],
+  sea: ["#1e90ff", "#00008b", "#20b2aa"],
+  water: ["#4682b4", "#87ceeb", "#e0ffff"],
+  river: ["#4682b4", "#87ceeb", "#556b2f"],
+  sky: ["#87ceeb", "#4169e1", "#ffffff"],
+  night: ["#191970", "#2f2f4f", "#fffacd", "#483d8b"],
+  space: ["#0b0b1e", "#483d8b", "#ffffff", "#ff69b4"],
+  sunset: ["#ff4500", "#ff8c00", "#ffd700", "#8b008b"],
+  sunrise: ["#ff7f50", "#ffd700", "#87ceeb"],
+  fire: ["#ff4500", "#ff8c00", "#ffd700", "#8b0000"],
+  lava: ["#ff4500", "#8b0000", "#2f2f2f"],
+  desert: ["#edc9af", "#d2b48c", "#cd853f", "#87ceeb"],
+  beach: ["#f5deb3", "#40e0d0", "#1e90ff"],
+  snow: ["#ffffff", "#dcdcdc", "#add8e6", "#4682b4"],
+  ice: ["#e0ffff", "#add8e6", "#4682b4"],
+  winter: ["#ffffff", "#b0c4de", "#4682b4", "#2f4f4f"],
+  autumn: ["#d2691e", "#b22222", "#ffa500", "#8b4513"],
+  fall: ["#d2691e", "#b22222", "#ffa500", "#8b4513"],
+  spring: ["#98fb98", "#ffb6c1", "#fffacd", "#87ceeb"],
+  summer: ["#ffd700", "#00bfff", "#32cd32"],
+  flower: ["#ff69b4", "#ba55d3", "#ffd700", "#3cb371"],
+  garden: ["#3cb371", "#ff69b4", "#ffd700", "#8b4513"],
+  mountain: ["#708090", "#556b2f", "#ffffff", "#87ceeb"],
+  cave: ["#2f2f2f", "#4a3c31", "#696969", "#ffa500"],
+  castle: ["#808080", "#a9a9a9", "#8b4513", "#b22222"],
+  dungeon: ["#2f2f2f", "#4a3c31", "#696969", "#ff8c00"],
+  stone: ["#808080", "#a9a9a9", "#696969"],
+  rock: ["#808080", "#a9a9a9", "#696969"],
+  wood: ["#8b4513", "#a0522d", "#deb887"],
+  metal: ["#c0c0c0", "#708090", "#2f4f4f"],
+  gold: ["#ffd700", "#daa520", "#8b6914"],
+  robot: ["#c0c0c0", "#708090", "#00bfff", "#ff4500"],
+  city: ["#708090", "#2f4f4f", "#ffd700", "#87ceeb"],
+  candy: ["#ff69b4", "#ffb6c1", "#87cefa", "#fffacd"],
+  ghost: ["#f8f8ff", "#b0c4de", "#483d8b"],
+  halloween: ["#ff8c00", "#2f2f2f", "#800080", "#9acd32"],
+  christmas: ["#b22222", "#228b22", "#ffd700", "#ffffff"],
+  skin: ["#f2c7a5", "#d9a07c", "#8d5524"],
+  character: ["#f2c7a5", "#d9a07c", "#4169e1", "#b22222"],
+  slime: ["#7cfc00", "#32cd32", "#006400"],
+  dragon: ["#b22222", "#228b22", "#ffd700", "#2f2f2f"],
+  cat: ["#ffa500", "#2f2f2f", "#ffffff", "#808080"],
+  dog: ["#8b4513", "#deb887", "#2f2f2f"],
+  fish: ["#ff8c00", "#1e90ff", "#ffd700"],
+  bird: ["#1e90ff", "#ff4500", "#ffd700"],
+  food: ["#ff6347", "#ffd700", "#8b4513", "#32cd32"],
+  fruit: ["#ff4500", "#ffd700", "#32cd32", "#800080"],
+}));
+
+/** Words of a prompt, lowercased, with a trailing plural "s" also tried */
+function promptWords(prompt: string): string[] {
+  const words = prompt.toLowerCase().match(/[a-z]+/g) ?? [];
+  return words.flatMap((w) => (w.length > 3 && w.endsWith("s") ? [w, w.slice(0, -1)] : [w]));
+}
+
+/**
+ * Spread `count` colors across the palette: start from the color nearest
+ * mid-gray, then keep adding the color farthest from those chosen.
+ */
+function spreadColors(paletteHex: string[], count: number): number[] {
+  if (paletteHex.length === 0) return [];
+  const picked = [mapColorToPalette("#808080", paletteHex).index];
+  while (picked.length < Math.min(count, paletteHex.length)) {
+    let best = -1;
+    let bestDistance = -1;
+    paletteHex.forEach((hex, i) => {
+      if (picked.includes(i)) return;
+      const rgb = hexToRgb(hex);
+      const distance = Math.min(
+        ...picked.map((p) => colorDistance(rgb, hexToRgb(paletteHex[p])))
+      );
+      if (distance > bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    });
+    picked.push(best);
+  }
+  return picked;
+}
+
+/**
+ * Choose hint colors for a prompt from the palette: colors named in the
+ * prompt ("red", "teal") and colors suggested by words like "forest",
+ * snapped to the palette. Prompts without such words get colors spread
+ * evenly across the palette. Returns palette indices.
+ */
+export function suggestHintColors(
+  prompt: string,
+  paletteHex: string[],
+  count: number = MAX_HINT_COLORS
+): number[] {
+  const suggested: number[] = [];
+  const add = (hex: string) => {
+    const { index } = mapColorToPalette(hex, paletteHex);
+    if (!suggested.includes(index)) suggested.push(index);
+  };
+
+  for (const word of promptWords(prompt)) {
+    const named = namedColor(word);
+    if (named) add(named);
+    for (const hex of KEYWORD_COLORS.get(word) ?? []) add(hex);
+  }
+
+  return suggested.length > 0 ? suggested.slice(0, count) : spreadColors(paletteHex, count);
+}